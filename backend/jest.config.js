@@ -0,0 +1,10 @@
+// Delivery days and hours are local time; run in the Nordpool areas' zone so the
+// daylight saving days are the real ones
+process.env.TZ = 'Europe/Copenhagen';
+
+module.exports = {
+  preset: 'ts-jest',
+  testEnvironment: 'node',
+  roots: ['<rootDir>/src'],
+  testMatch: ['**/__tests__/**/*.test.ts'],
+};
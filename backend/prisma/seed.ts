@@ -1,5 +1,7 @@
 import { PrismaClient, MaterialType, UserRole } from '@prisma/client';
 import bcrypt from 'bcryptjs';
+import * as fs from 'fs';
+import * as path from 'path';
 
 const prisma = new PrismaClient();
 
@@ -47,6 +49,7 @@ async function main() {
       bedTempMax: 70,
       printSpeed: 1.0,
       shrinkageFactor: 0.02,
+      overhangAngle: 50,
     },
     {
       name: 'PETG',
@@ -59,6 +62,7 @@ async function main() {
       bedTempMax: 90,
       printSpeed: 0.8,
       shrinkageFactor: 0.01,
+      overhangAngle: 45,
     },
     {
       name: 'ABS',
@@ -71,6 +75,7 @@ async function main() {
       bedTempMax: 100,
       printSpeed: 0.7,
       shrinkageFactor: 0.05,
+      overhangAngle: 45,
     },
     {
       name: 'TPU',
@@ -83,6 +88,7 @@ async function main() {
       bedTempMax: 70,
       printSpeed: 0.5,
       shrinkageFactor: 0.03,
+      overhangAngle: 35,
     },
     {
       name: 'Wood-filled PLA',
@@ -95,6 +101,7 @@ async function main() {
       bedTempMax: 70,
       printSpeed: 0.8,
       shrinkageFactor: 0.02,
+      overhangAngle: 45,
     },
     {
       name: 'Metal-filled PLA',
@@ -107,6 +114,7 @@ async function main() {
       bedTempMax: 70,
       printSpeed: 0.7,
       shrinkageFactor: 0.02,
+      overhangAngle: 45,
     },
   ];
 
@@ -140,6 +148,97 @@ async function main() {
     }
   }
 
+  // Create printer fleet
+  const printers = [
+    {
+      name: 'X1C-01',
+      model: 'Bambu Lab X1 Carbon',
+      buildVolumeX: 256,
+      buildVolumeY: 256,
+      buildVolumeZ: 256,
+      nozzleDiameter: 0.4,
+      supportedMaterials: [MaterialType.PLA, MaterialType.PETG, MaterialType.ABS, MaterialType.TPU, MaterialType.WOOD_FILLED, MaterialType.METAL_FILLED],
+      amsSlots: 4,
+      powerConsumption: 200,
+      location: 'Copenhagen',
+      priceArea: 'DK2',
+    },
+    {
+      name: 'P1S-01',
+      model: 'Bambu Lab P1S',
+      buildVolumeX: 256,
+      buildVolumeY: 256,
+      buildVolumeZ: 256,
+      nozzleDiameter: 0.4,
+      supportedMaterials: [MaterialType.PLA, MaterialType.PETG, MaterialType.ABS, MaterialType.TPU],
+      amsSlots: 0,
+      powerConsumption: 180,
+      location: 'Aarhus',
+      priceArea: 'DK1',
+    },
+  ];
+
+  for (const printer of printers) {
+    await prisma.printer.upsert({
+      where: { name: printer.name },
+      update: {},
+      create: printer,
+    });
+  }
+
+  // Create grid tariffs for both workshops (example time-of-use rates in DKK/kWh excl. VAT:
+  // low at night, peak 17-21)
+  const gridRates = (low: number, normal: number, peak: number) =>
+    Array.from({ length: 24 }, (_, hour) => (hour < 6 ? low : hour >= 17 && hour < 21 ? peak : normal));
+
+  const tariffs = [
+    {
+      id: 'seed-tariff-dk1',
+      area: 'DK1',
+      name: 'N1 C-customer',
+      hourlyGridRates: gridRates(0.11, 0.17, 0.44),
+    },
+    {
+      id: 'seed-tariff-dk2',
+      area: 'DK2',
+      name: 'Radius C-customer',
+      hourlyGridRates: gridRates(0.13, 0.20, 0.52),
+    },
+  ];
+
+  for (const tariff of tariffs) {
+    await prisma.electricityTariff.upsert({
+      where: { id: tariff.id },
+      update: {},
+      create: {
+        ...tariff,
+        currency: 'DKK',
+        transmissionRate: 0.14, // Energinet net and system tariffs
+        electricityTax: 0.008,
+        vatRate: 25,
+        validFrom: new Date('2026-01-01'),
+      },
+    });
+  }
+
+  // Create shipping rates (DKK excl. VAT; bands by parcel weight incl. packaging)
+  const shippingRates = [
+    { id: 'seed-shipping-parcel-shop-1kg', method: 'PARCEL_SHOP', name: 'Parcel shop up to 1 kg', maxWeight: 1000, price: 39 },
+    { id: 'seed-shipping-parcel-shop-5kg', method: 'PARCEL_SHOP', name: 'Parcel shop up to 5 kg', maxWeight: 5000, price: 55 },
+    { id: 'seed-shipping-parcel-shop-20kg', method: 'PARCEL_SHOP', name: 'Parcel shop up to 20 kg', maxWeight: 20000, price: 95 },
+    { id: 'seed-shipping-home-1kg', method: 'HOME_DELIVERY', name: 'Home delivery up to 1 kg', maxWeight: 1000, price: 59 },
+    { id: 'seed-shipping-home-5kg', method: 'HOME_DELIVERY', name: 'Home delivery up to 5 kg', maxWeight: 5000, price: 79 },
+    { id: 'seed-shipping-home-20kg', method: 'HOME_DELIVERY', name: 'Home delivery up to 20 kg', maxWeight: 20000, price: 129 },
+  ] as const;
+
+  for (const rate of shippingRates) {
+    await prisma.shippingRate.upsert({
+      where: { id: rate.id },
+      update: {},
+      create: rate,
+    });
+  }
+
   // Create system configuration
   const systemConfigs = [
     {
@@ -182,30 +281,52 @@ async function main() {
     });
   }
 
-  // Create sample electricity prices (last 7 days)
+  // Create sample day-ahead electricity prices (last 7 days and tomorrow) with the tariffs applied
   const now = new Date();
-  for (let i = 0; i < 7; i++) {
-    const date = new Date(now);
-    date.setDate(date.getDate() - i);
+  for (let i = -1; i < 7; i++) {
+    const date = new Date(now.getFullYear(), now.getMonth(), now.getDate() - i);
     
-    for (let hour = 0; hour < 24; hour++) {
-      const price = 0.15 + Math.random() * 0.3; // Random price between 0.15-0.45 EUR/kWh
-      
-      await prisma.electricityPrice.upsert({
-        where: {
-          date_hour_area: {
+    for (const tariff of tariffs) {
+      for (let hour = 0; hour < 24; hour++) {
+        const spotPrice = 0.15 + Math.random() * 0.3; // Random spot price between 0.15-0.45 DKK/kWh
+        const gridTariff = tariff.hourlyGridRates[hour];
+        const taxes = 0.14 + 0.008;
+        const vat = (spotPrice + gridTariff + taxes) * 0.25;
+        const timestamp = new Date(date.getFullYear(), date.getMonth(), date.getDate(), hour);
+        
+        await prisma.electricityPrice.upsert({
+          where: {
+            timestamp_area: {
+              timestamp,
+              area: tariff.area,
+            },
+          },
+          update: {},
+          create: {
             date: date,
             hour: hour,
-            area: 'DK1',
+            timestamp,
+            price: spotPrice + gridTariff + taxes + vat,
+            spotPrice,
+            gridTariff,
+            taxes,
+            vat,
+            area: tariff.area,
           },
-        },
-        update: {},
-        create: {
-          date: date,
-          hour: hour,
-          price: price,
-          area: 'DK1',
-        },
+        });
+      }
+    }
+  }
+
+  // Create starting exchange rates from the rates fixture (currency,dkkPerUnit)
+  const [, ...rateLines] = fs.readFileSync(path.join(__dirname, '../fixtures/exchange-rates.csv'), 'utf8')
+    .split(/\r?\n/)
+    .filter(line => line.trim());
+  if (await prisma.exchangeRate.count() === 0) {
+    for (const line of rateLines) {
+      const [currency, dkkPerUnit] = line.split(',');
+      await prisma.exchangeRate.create({
+        data: { currency: currency.trim(), dkkPerUnit: parseFloat(dkkPerUnit), source: 'exchange-rates.csv', effectiveFrom: now },
       });
     }
   }
@@ -214,8 +335,11 @@ async function main() {
   console.log(`👤 Admin user: admin@3dprintpro.com / admin123`);
   console.log(`👤 Customer user: customer@example.com / customer123`);
   console.log(`📦 Created ${materials.length} materials with inventory`);
+  console.log(`🖨️ Created ${printers.length} printers`);
   console.log(`⚙️ Created ${systemConfigs.length} system configurations`);
-  console.log(`⚡ Created 7 days of electricity price data`);
+  console.log(`⚡ Created 8 days of electricity price data for ${tariffs.length} areas`);
+  console.log(`🚚 Created ${shippingRates.length} shipping rates`);
+  console.log(`💱 Created exchange rates for ${rateLines.length} currencies`);
 }
 
 main()
@@ -0,0 +1,155 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { ElectricityPrice } from '@prisma/client';
+import { prismaMock, resetPrismaMock } from './helpers/prismaMock';
+import electricityPriceService from '../services/electricityPriceService';
+import { FixturePriceProvider, NordpoolProvider } from '../utils/electricityPriceProviders';
+
+jest.mock('@prisma/client', () => ({
+  ...jest.requireActual('@prisma/client'),
+  PrismaClient: jest.fn(() => require('./helpers/prismaMock').prismaMock),
+}));
+
+// A recorded DK2 day at 1 DKK/kWh, with two cheap night hours at 0.10 DKK/kWh
+const DAY = new Date(2025, 0, 15);
+const at = (hour: number, minute: number = 0) => new Date(2025, 0, 15, hour, minute);
+
+// What the service writes: the row without its generated columns
+type StoredPrice = Omit<ElectricityPrice, 'id' | 'createdAt'>;
+
+let fixtures: string;
+
+beforeAll(() => {
+  fixtures = fs.mkdtempSync(path.join(os.tmpdir(), 'electricity-prices-'));
+  const curve = Array.from({ length: 24 }, (_, hour) => ({
+    start: at(hour).toISOString(),
+    price: hour === 3 || hour === 4 ? 100 : 1000, // per MWh
+  }));
+  fs.writeFileSync(path.join(fixtures, 'DK2.json'), JSON.stringify(curve));
+});
+
+afterAll(() => {
+  fs.rmSync(fixtures, { recursive: true, force: true });
+});
+
+describe('electricity price windows', () => {
+  let provider: FixturePriceProvider;
+  let stored: StoredPrice[];
+
+  beforeEach(() => {
+    jest.useFakeTimers({ now: DAY, doNotFake: ['nextTick', 'setImmediate', 'queueMicrotask'] });
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+
+    // Stored prices live in memory; no tariff applies, so the spot price is the all-in price
+    resetPrismaMock();
+    stored = [];
+    prismaMock.electricityTariff.findMany.mockResolvedValue([]);
+    prismaMock.electricityPrice.findMany.mockImplementation(async ({ where }) =>
+      stored
+        .filter(price => price.date.getTime() === (where?.date as Date).getTime() && price.area === where?.area)
+        .sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime())
+    );
+    prismaMock.electricityPrice.upsert.mockImplementation(async ({ create }) => {
+      stored.push(create as StoredPrice);
+      return create;
+    });
+
+    provider = new FixturePriceProvider(fixtures);
+    jest.spyOn(provider, 'getDayAheadPrices');
+    electricityPriceService.setProvider(provider);
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+    jest.restoreAllMocks();
+  });
+
+  it('moves a flexible job to the cheapest hours before the deadline', async () => {
+    const result = await electricityPriceService.findCheapestWindow(2, 1000, at(0), at(12), 'DK2');
+
+    expect(result).not.toBeNull();
+    expect(result!.currency).toBe('DKK');
+    expect(result!.cheapest.start).toEqual(at(3));
+    expect(result!.cheapest.end).toEqual(at(5));
+    expect(result!.cheapest.cost).toBeCloseTo(0.2); // 2 kWh at 0.10
+    expect(result!.immediate!.cost).toBeCloseTo(2); // 2 kWh at 1.00
+    expect(result!.savings).toBeCloseTo(1.8);
+  });
+
+  it('integrates a window that starts mid-hour hour by hour', async () => {
+    const prices = await electricityPriceService.getKnownPrices('DK2');
+    const window = electricityPriceService.calculateWindowCost(prices, at(2, 30), 1, 1000);
+
+    expect(window!.hours.map(hour => hour.energy)).toEqual([0.5, 0.5]);
+    expect(window!.cost).toBeCloseTo(0.55); // half an hour at 1.00, half at 0.10
+    expect(window!.averagePrice).toBeCloseTo(0.55);
+  });
+
+  it('has no window where prices are not known', async () => {
+    const prices = await electricityPriceService.getKnownPrices('DK2');
+
+    expect(electricityPriceService.calculateWindowCost(prices, at(23), 48, 1000)).toBeNull();
+  });
+
+  it('fetches each day from the provider once and reuses the stored curve', async () => {
+    await electricityPriceService.findCheapestWindow(2, 1000, at(0), undefined, 'DK2');
+    await electricityPriceService.findCheapestWindow(4, 500, at(6), undefined, 'DK2');
+
+    expect(provider.getDayAheadPrices).toHaveBeenCalledTimes(2); // today and tomorrow
+    expect(stored).toHaveLength(48);
+  });
+
+  it('asks for an unpublished day again only after a while', async () => {
+    const tomorrow = new Date(2025, 0, 16);
+    const recorded = FixturePriceProvider.prototype.getDayAheadPrices.bind(provider);
+    jest.mocked(provider.getDayAheadPrices).mockImplementation(async (day, area) =>
+      day.getTime() === tomorrow.getTime() ? [] : recorded(day, area)
+    );
+
+    await electricityPriceService.getKnownPrices('DK2');
+    await electricityPriceService.getKnownPrices('DK2');
+    expect(provider.getDayAheadPrices).toHaveBeenCalledTimes(2); // today and tomorrow, once each
+
+    jest.advanceTimersByTime(15 * 60 * 1000);
+    await electricityPriceService.getKnownPrices('DK2');
+    expect(provider.getDayAheadPrices).toHaveBeenCalledTimes(3);
+    expect(provider.getDayAheadPrices).toHaveBeenLastCalledWith(tomorrow, 'DK2', 'DKK');
+  });
+
+  it('keeps all 25 hours of the day daylight saving time ends', async () => {
+    const dstEnd = new Date(2025, 9, 26);
+
+    const curve = await electricityPriceService.getDayAheadCurve(dstEnd, 'DK2');
+    await electricityPriceService.getDayAheadCurve(dstEnd, 'DK2');
+
+    expect(curve).toHaveLength(25);
+    expect(new Set(stored.map(price => price.timestamp.getTime())).size).toBe(25);
+    expect(curve.filter(price => price.hour === 2)).toHaveLength(2);
+    expect(provider.getDayAheadPrices).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe('Nordpool day-ahead prices', () => {
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('takes the hour starts from the rows, including the repeated hour when DST ends', async () => {
+    const hours = ['00', '01', '02', '02', ...Array.from({ length: 21 }, (_, hour) => String(hour + 3).padStart(2, '0'))];
+    const rows = hours.map((hour, index) => ({
+      Name: `${hour}-${hour}`,
+      StartTime: `2025-10-26T${hour}:00:00`,
+      Columns: [{ Name: 'DK2', Value: `${index + 1},00` }],
+    }));
+    jest.spyOn(global, 'fetch').mockResolvedValue(new Response(JSON.stringify({ data: { Rows: rows } })));
+
+    const prices = await new NordpoolProvider('https://nordpool.test').getDayAheadPrices(new Date(2025, 9, 26), 'DK2', 'DKK');
+
+    expect(prices).toHaveLength(25);
+    expect(prices[2].start.toISOString()).toBe('2025-10-26T00:00:00.000Z'); // 02:00 summer time
+    expect(prices[3].start.toISOString()).toBe('2025-10-26T01:00:00.000Z'); // 02:00 winter time
+    expect(prices[3].price).toBeCloseTo(0.004);
+    expect(prices[24].start.toISOString()).toBe('2025-10-26T22:00:00.000Z');
+  });
+});
@@ -0,0 +1,146 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { isGcodeFileName, parseGcodeMetadata, readGcodeMetadata } from '../utils/gcodeMetadata';
+import { createZip } from './helpers/zipFixture';
+
+// Header and config lines as each slicer writes them, trimmed to what is read
+const PRUSA = `; generated by PrusaSlicer 2.6.1+win64 on 2023-09-01 at 10:00:00 UTC
+G1 X10 Y10 E1
+; filament used [mm] = 1234.56, 0.00
+; filament used [g] = 3.68, 0.00
+; estimated printing time (normal mode) = 1h 5m 30s
+; filament_type = PLA;PETG
+; layer_height = 0.2
+; nozzle_diameter = 0.4,0.6
+`;
+
+const bambuPlate = (time: string, grams: number, layers: number) => `; HEADER_BLOCK_START
+; BambuStudio 01.09.00.70
+; model printing time: 1h 2m 3s; total estimated time: ${time}
+; total layer number: ${layers}
+; total filament length [mm] : 2345.67
+; total filament weight [g] : ${grams}
+; HEADER_BLOCK_END
+G1 X10 Y10 E1
+; CONFIG_BLOCK_START
+; filament_type = PLA
+; layer_height = 0.2
+; nozzle_diameter = 0.4
+; CONFIG_BLOCK_END
+`;
+
+const ORCA = `; HEADER_BLOCK_START
+; generated by OrcaSlicer 2.1.1 on 2024-07-01 at 12:00:00
+; total layer number: 50
+; HEADER_BLOCK_END
+G1 X10 Y10 E1
+; filament used [mm] = 1520.75
+; filament used [g] = 4.54
+; estimated printing time (normal mode) = 52m 10s
+; filament_type = PETG
+; layer_height = 0.16
+; nozzle_diameter = 0.4
+`;
+
+const CURA = `;FLAVOR:Marlin
+;TIME:3723
+;Filament used: 1.23456m
+;Layer height: 0.2
+;EXTRUDER_TRAIN.0.NOZZLE.DIAMETER:0.4
+;Generated with Cura_SteamEngine 5.4.0
+;LAYER_COUNT:120
+G1 X10 Y10 E1
+`;
+
+describe('G-code metadata', () => {
+  it('reads PrusaSlicer estimates per extruder', () => {
+    expect(parseGcodeMetadata(PRUSA)).toEqual({
+      slicer: 'PrusaSlicer 2.6.1',
+      printTime: 3930,
+      filamentGrams: [3.68, 0],
+      filamentTypes: ['PLA', 'PETG'],
+      layerHeight: 0.2,
+      nozzleDiameters: [0.4, 0.6],
+      layerCount: null,
+      plateCount: 1,
+    });
+  });
+
+  it('reads the Bambu Studio header block', () => {
+    expect(parseGcodeMetadata(bambuPlate('1h 10m 3s', 7.01, 150))).toMatchObject({
+      slicer: 'BambuStudio 01.09.00.70',
+      printTime: 4203, // the total, not the model's share
+      filamentGrams: [7.01],
+      filamentTypes: ['PLA'],
+      layerCount: 150,
+    });
+  });
+
+  it('reads OrcaSlicer estimates', () => {
+    expect(parseGcodeMetadata(ORCA)).toMatchObject({
+      slicer: 'OrcaSlicer 2.1.1',
+      printTime: 3130,
+      filamentGrams: [4.54],
+      filamentTypes: ['PETG'],
+      layerHeight: 0.16,
+      layerCount: 50,
+    });
+  });
+
+  it('weighs the filament length Cura reports', () => {
+    const metadata = parseGcodeMetadata(CURA);
+
+    expect(metadata).toMatchObject({
+      slicer: 'Cura_SteamEngine 5.4.0',
+      printTime: 3723,
+      layerHeight: 0.2,
+      nozzleDiameters: [0.4],
+      layerCount: 120,
+    });
+    expect(metadata.filamentGrams).toHaveLength(1);
+    expect(metadata.filamentGrams[0]).toBeCloseTo(3.68, 2); // 1.23456 m of 1.75 mm PLA
+  });
+
+  it('recognises sliced uploads by name', () => {
+    expect(isGcodeFileName('benchy.gcode')).toBe(true);
+    expect(isGcodeFileName('Benchy.GCODE.3MF')).toBe(true);
+    expect(isGcodeFileName('benchy.3mf')).toBe(false);
+  });
+
+  describe('from files', () => {
+    let directory: string;
+
+    beforeEach(() => {
+      directory = fs.mkdtempSync(path.join(os.tmpdir(), 'gcode-metadata-'));
+    });
+
+    afterEach(() => {
+      fs.rmSync(directory, { recursive: true, force: true });
+    });
+
+    it('adds up the plates of a Bambu .gcode.3mf project', async () => {
+      const filePath = path.join(directory, 'project.gcode.3mf');
+      fs.writeFileSync(filePath, createZip([
+        { name: '3D/3dmodel.model', data: '<model unit="millimeter" />', deflate: true },
+        { name: 'Metadata/plate_2.gcode', data: bambuPlate('30m', 2.5, 40), deflate: true },
+        { name: 'Metadata/plate_1.gcode', data: bambuPlate('1h 10m 3s', 7.01, 150), deflate: true },
+        { name: 'Metadata/plate_1.png', data: 'thumbnail' },
+      ]));
+
+      const metadata = await readGcodeMetadata(filePath);
+
+      expect(metadata).toMatchObject({ slicer: 'BambuStudio 01.09.00.70', printTime: 6003, layerCount: 190, plateCount: 2 });
+      expect(metadata.filamentGrams[0]).toBeCloseTo(9.51);
+    });
+
+    it('reads the head and tail of a large G-code file', async () => {
+      const filePath = path.join(directory, 'large.gcode');
+      const moves = 'G1 X10.000 Y10.000 E0.05000\n'.repeat(40000); // about 1 MB
+      const [head, tail] = ORCA.split('G1 X10 Y10 E1\n');
+      fs.writeFileSync(filePath, head + moves + tail);
+
+      expect(await readGcodeMetadata(filePath)).toMatchObject({ printTime: 3130, filamentGrams: [4.54], layerCount: 50 });
+    });
+  });
+});
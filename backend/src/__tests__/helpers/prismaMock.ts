@@ -0,0 +1,61 @@
+import { Prisma, PrismaClient } from '@prisma/client';
+
+// Stands in for PrismaClient in tests that run without a database. Every model method a
+// test touches (prismaMock.order.findUnique, ...) is a jest.fn created on first use; the
+// test gives it in-memory behaviour. Interactive transactions run on the mock itself.
+//
+//   jest.mock('@prisma/client', () => ({
+//     ...jest.requireActual('@prisma/client'),
+//     PrismaClient: jest.fn(() => require('./helpers/prismaMock').prismaMock),
+//   }));
+
+type ModelName = Uncapitalize<Prisma.ModelName>;
+
+// A model's methods take the client's argument types. Tests return partial rows, so
+// results are left unchecked.
+type MockedModel<Delegate> = {
+  [Method in keyof Delegate]: Delegate[Method] extends (...args: infer Args) => unknown
+    ? jest.Mock<Promise<unknown>, Required<Args>>
+    : never;
+};
+
+type TransactionRun = ((tx: PrismaMock) => Promise<unknown>) | Promise<unknown>[];
+
+export type PrismaMock = { [Name in ModelName]: MockedModel<PrismaClient[Name]> } & {
+  $transaction: jest.Mock<Promise<unknown>, [run: TransactionRun, options?: { isolationLevel?: Prisma.TransactionIsolationLevel }]>;
+};
+
+const models = new Map<PropertyKey, object>();
+
+const createModel = (): object => {
+  const methods = new Map<PropertyKey, jest.Mock>();
+  return new Proxy({}, {
+    get: (_target, method) => {
+      if (!methods.has(method)) {
+        methods.set(method, jest.fn());
+      }
+      return methods.get(method);
+    },
+  });
+};
+
+const transaction: PrismaMock['$transaction'] = jest.fn(async run =>
+  typeof run === 'function' ? run(prismaMock) : Promise.all(run)
+);
+
+export const prismaMock = new Proxy({} as PrismaMock, {
+  get: (_target, name) => {
+    if (name === '$transaction') {
+      return transaction;
+    }
+    if (!models.has(name)) {
+      models.set(name, createModel());
+    }
+    return models.get(name);
+  },
+});
+
+export const resetPrismaMock = (): void => {
+  models.clear();
+  transaction.mockClear();
+};
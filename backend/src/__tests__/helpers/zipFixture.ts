@@ -0,0 +1,94 @@
+import * as zlib from 'zlib';
+
+// Builds small ZIP archives in memory for the 3MF and .gcode.3mf readers. Checksums are
+// left at zero since the reader does not verify them.
+
+export interface ZipFixtureEntry {
+  name: string;
+  data: Buffer | string;
+  deflate?: boolean;
+  declaredSize?: number; // uncompressed size written to the headers, to make an entry lie
+}
+
+interface ZipFixtureOptions {
+  zip64?: boolean; // sizes and offsets in ZIP64 extra fields and records
+}
+
+const UINT32_MAX = 0xffffffff;
+
+export const createZip = (entries: ZipFixtureEntry[], { zip64 = false }: ZipFixtureOptions = {}): Buffer => {
+  const parts: Buffer[] = [];
+  const directory: Buffer[] = [];
+  let offset = 0;
+
+  for (const entry of entries) {
+    const name = Buffer.from(entry.name, 'utf8');
+    const data = Buffer.isBuffer(entry.data) ? entry.data : Buffer.from(entry.data, 'utf8');
+    const stored = entry.deflate ? zlib.deflateRawSync(data) : data;
+    const size = entry.declaredSize ?? data.length;
+
+    const local = Buffer.alloc(30);
+    local.writeUInt32LE(0x04034b50, 0);
+    local.writeUInt16LE(zip64 ? 45 : 20, 4);
+    local.writeUInt16LE(entry.deflate ? 8 : 0, 8);
+    local.writeUInt32LE(zip64 ? UINT32_MAX : stored.length, 18);
+    local.writeUInt32LE(zip64 ? UINT32_MAX : size, 22);
+    local.writeUInt16LE(name.length, 26);
+    parts.push(local, name, stored);
+
+    const extra = Buffer.alloc(zip64 ? 28 : 0);
+    if (zip64) {
+      extra.writeUInt16LE(0x0001, 0);
+      extra.writeUInt16LE(24, 2);
+      extra.writeBigUInt64LE(BigInt(size), 4);
+      extra.writeBigUInt64LE(BigInt(stored.length), 12);
+      extra.writeBigUInt64LE(BigInt(offset), 20);
+    }
+
+    const central = Buffer.alloc(46);
+    central.writeUInt32LE(0x02014b50, 0);
+    central.writeUInt16LE(zip64 ? 45 : 20, 4);
+    central.writeUInt16LE(zip64 ? 45 : 20, 6);
+    central.writeUInt16LE(entry.deflate ? 8 : 0, 10);
+    central.writeUInt32LE(zip64 ? UINT32_MAX : stored.length, 20);
+    central.writeUInt32LE(zip64 ? UINT32_MAX : size, 24);
+    central.writeUInt16LE(name.length, 28);
+    central.writeUInt16LE(extra.length, 30);
+    central.writeUInt32LE(zip64 ? UINT32_MAX : offset, 42);
+    directory.push(central, name, extra);
+
+    offset += local.length + name.length + stored.length;
+  }
+
+  const directoryOffset = offset;
+  const directorySize = directory.reduce((sum, part) => sum + part.length, 0);
+  parts.push(...directory);
+
+  if (zip64) {
+    const record = Buffer.alloc(56);
+    record.writeUInt32LE(0x06064b50, 0);
+    record.writeBigUInt64LE(44n, 4);
+    record.writeUInt16LE(45, 12);
+    record.writeUInt16LE(45, 14);
+    record.writeBigUInt64LE(BigInt(entries.length), 24);
+    record.writeBigUInt64LE(BigInt(entries.length), 32);
+    record.writeBigUInt64LE(BigInt(directorySize), 40);
+    record.writeBigUInt64LE(BigInt(directoryOffset), 48);
+
+    const locator = Buffer.alloc(20);
+    locator.writeUInt32LE(0x07064b50, 0);
+    locator.writeBigUInt64LE(BigInt(directoryOffset + directorySize), 8);
+    locator.writeUInt32LE(1, 16);
+    parts.push(record, locator);
+  }
+
+  const end = Buffer.alloc(22);
+  end.writeUInt32LE(0x06054b50, 0);
+  end.writeUInt16LE(zip64 ? 0xffff : entries.length, 8);
+  end.writeUInt16LE(zip64 ? 0xffff : entries.length, 10);
+  end.writeUInt32LE(zip64 ? UINT32_MAX : directorySize, 12);
+  end.writeUInt32LE(zip64 ? UINT32_MAX : directoryOffset, 16);
+  parts.push(end);
+
+  return Buffer.concat(parts);
+};
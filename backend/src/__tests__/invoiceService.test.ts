@@ -0,0 +1,119 @@
+import { Invoice, InvoiceType, Prisma } from '@prisma/client';
+import { prismaMock, resetPrismaMock } from './helpers/prismaMock';
+import invoiceService from '../services/invoiceService';
+
+jest.mock('@prisma/client', () => ({
+  ...jest.requireActual('@prisma/client'),
+  PrismaClient: jest.fn(() => require('./helpers/prismaMock').prismaMock),
+}));
+
+// A paid 100 DKK order of a German business customer, reverse charged
+const paidOrder = (id: string) => ({
+  id,
+  currency: 'DKK',
+  subtotal: 100,
+  shippingCost: 0,
+  shippingMethod: 'PICKUP',
+  shippingWeight: null,
+  discountAmount: 0,
+  promoCode: null,
+  vatRate: 0,
+  vatRule: 'REVERSE_CHARGE',
+  taxAmount: 0,
+  totalAmount: 100,
+  customerVatNumber: 'DE123456789',
+  shippingAddress: null,
+  items: [{
+    stlFile: { originalName: 'bracket.stl' },
+    material: { name: 'PLA' },
+    color: null,
+    quantity: 2,
+    materialCost: 40,
+    electricityCost: 5,
+    laborCost: 40,
+    discount: 0,
+    platformFee: 15,
+    totalCost: 100,
+  }],
+  user: {
+    firstName: 'Anna',
+    lastName: 'Schmidt',
+    email: 'anna@example.com',
+    organization: { name: 'Werkstatt GmbH', vatNumber: 'DE999999999' }, // changed since the order
+    addresses: [],
+  },
+});
+
+describe('invoice numbering', () => {
+  let invoices: Invoice[];
+  let sequences: Map<InvoiceType, number>;
+
+  beforeEach(() => {
+    resetPrismaMock();
+    invoices = [];
+    sequences = new Map();
+
+    prismaMock.order.findUniqueOrThrow.mockImplementation(async ({ where }) => paidOrder(where.id!));
+    prismaMock.refund.findUniqueOrThrow.mockImplementation(async ({ where }) => ({
+      id: where.id,
+      orderId: 'order_1',
+      amount: 50,
+      reason: 'Damaged',
+      orderItem: null,
+    }));
+    prismaMock.invoice.findUnique.mockImplementation(async ({ where }) =>
+      invoices.find(invoice => (where.invoicedOrderId !== undefined
+        ? invoice.invoicedOrderId === where.invoicedOrderId
+        : invoice.refundId === where.refundId)) || null
+    );
+    prismaMock.invoiceSequence.upsert.mockImplementation(async ({ where }) => {
+      const nextNumber = (sequences.get(where.type!) || 1) + 1;
+      sequences.set(where.type!, nextNumber);
+      return { type: where.type, nextNumber };
+    });
+    prismaMock.invoice.create.mockImplementation(async ({ data }) => {
+      const invoice = { id: `invoice_${invoices.length + 1}`, refundId: null, ...data } as Invoice;
+      invoices.push(invoice);
+      return invoice;
+    });
+  });
+
+  it('numbers invoices and credit notes in their own gap-free series', async () => {
+    const first = await invoiceService.issueInvoice('order_1');
+    const second = await invoiceService.issueInvoice('order_2');
+    const creditNote = await invoiceService.issueCreditNote('refund_1');
+
+    expect(invoiceService.formatNumber(first)).toBe('F-000001');
+    expect(invoiceService.formatNumber(second)).toBe('F-000002');
+    expect(invoiceService.formatNumber(creditNote)).toBe('K-000001');
+    expect(creditNote).toMatchObject({ creditedInvoiceId: first.id, total: 50, vatAmount: 0 });
+    expect(prismaMock.$transaction).toHaveBeenCalledTimes(3);
+  });
+
+  it('returns the existing invoice instead of taking another number', async () => {
+    const first = await invoiceService.issueInvoice('order_1');
+    const again = await invoiceService.issueInvoice('order_1');
+
+    expect(again).toBe(first);
+    expect(invoices).toHaveLength(1);
+    expect(sequences.get('INVOICE')).toBe(2);
+  });
+
+  it('returns the invoice of a concurrent issue that committed first', async () => {
+    const winner = { id: 'invoice_winner', type: 'INVOICE', number: 1, invoicedOrderId: 'order_1' } as Invoice;
+    prismaMock.invoice.create.mockRejectedValueOnce(
+      new Prisma.PrismaClientKnownRequestError('Unique constraint failed', { code: 'P2002', clientVersion: 'test' })
+    );
+    prismaMock.invoice.findUniqueOrThrow.mockResolvedValue(winner);
+
+    expect(await invoiceService.issueInvoice('order_1')).toBe(winner);
+    expect(prismaMock.invoice.findUniqueOrThrow).toHaveBeenCalledWith({ where: { invoicedOrderId: 'order_1' } });
+  });
+
+  it('prints the VAT number the order was charged under', async () => {
+    const invoice = await invoiceService.issueInvoice('order_1');
+
+    expect(invoice.buyer).toMatchObject({ name: 'Werkstatt GmbH', attention: 'Anna Schmidt', vatNumber: 'DE123456789' });
+    expect(invoice.invoicedOrderId).toBe('order_1');
+  });
+});
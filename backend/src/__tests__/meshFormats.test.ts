@@ -0,0 +1,85 @@
+import { detectMeshFormat, parse3MF, parseOBJ } from '../utils/meshFormats';
+import { createZip } from './helpers/zipFixture';
+
+const triangles = (positions: Float32Array): number[][][] =>
+  Array.from({ length: positions.length / 9 }, (_, t) =>
+    [0, 1, 2].map(v => Array.from(positions.subarray(t * 9 + v * 3, t * 9 + v * 3 + 3)))
+  );
+
+const UNIT_SQUARE = ['v 0 0 0', 'v 1 0 0', 'v 1 1 0', 'v 0 1 0'].join('\n');
+
+describe('OBJ parser', () => {
+  it('resolves negative indices from the last vertex read so far', () => {
+    const mesh = parseOBJ(Buffer.from(`${UNIT_SQUARE}\nf -4 -3 -2\nv 5 5 5\nf -1/1/1 1//1 2/2\n`));
+
+    expect(triangles(mesh.positions)).toEqual([
+      [[0, 0, 0], [1, 0, 0], [1, 1, 0]],
+      [[5, 5, 5], [0, 0, 0], [1, 0, 0]],
+    ]);
+  });
+
+  it('fans polygons out into triangles', () => {
+    const mesh = parseOBJ(Buffer.from(`${UNIT_SQUARE}\nv 0.5 1.5 0\nf 1 2 3 4\nf 1 2 3 5 4\n`));
+
+    expect(mesh.triangleCount).toBe(5);
+    expect(triangles(mesh.positions).slice(0, 2)).toEqual([
+      [[0, 0, 0], [1, 0, 0], [1, 1, 0]],
+      [[0, 0, 0], [1, 1, 0], [0, 1, 0]],
+    ]);
+  });
+
+  it('rejects a face that points past the vertices', () => {
+    expect(() => parseOBJ(Buffer.from(`${UNIT_SQUARE}\nf 1 2 5\n`))).toThrow('missing vertex 5');
+    expect(() => parseOBJ(Buffer.from(`${UNIT_SQUARE}\nf -5 1 2\n`))).toThrow('missing vertex -5');
+  });
+});
+
+describe('3MF parser', () => {
+  const model = (unit: string, build: string) => `<?xml version="1.0" encoding="UTF-8"?>
+<model unit="${unit}" xmlns="http://schemas.microsoft.com/3dmanufacturing/core/2015/02">
+  <resources>
+    <object id="1" type="model">
+      <mesh>
+        <vertices>
+          <vertex x="0" y="0" z="0" /><vertex x="1" y="0" z="0" /><vertex x="0" y="1" z="0" />
+        </vertices>
+        <triangles><triangle v1="0" v2="1" v3="2" /></triangles>
+      </mesh>
+    </object>
+    <object id="2" type="support">
+      <mesh>
+        <vertices><vertex x="0" y="0" z="0" /><vertex x="1" y="0" z="0" /><vertex x="0" y="1" z="0" /></vertices>
+        <triangles><triangle v1="0" v2="1" v3="2" /></triangles>
+      </mesh>
+    </object>
+  </resources>
+  <build>${build}</build>
+</model>`;
+
+  const rels = `<?xml version="1.0" encoding="UTF-8"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">
+  <Relationship Target="/3D/Objects/part.model" Id="rel0" Type="http://schemas.microsoft.com/3dmanufacturing/2013/01/3dmodel" />
+</Relationships>`;
+
+  it('places build items in millimetres and leaves out support objects', () => {
+    const data = createZip([
+      { name: '_rels/.rels', data: rels, deflate: true },
+      {
+        name: '3D/Objects/part.model',
+        data: model('centimeter', '<item objectid="1" transform="1 0 0 0 1 0 0 0 1 2 0 0" /><item objectid="2" />'),
+        deflate: true,
+      },
+    ]);
+
+    const mesh = parse3MF(data);
+
+    expect(detectMeshFormat(data)).toBe('3mf');
+    expect(triangles(mesh.positions)).toEqual([[[20, 0, 0], [30, 0, 0], [20, 10, 0]]]);
+  });
+
+  it('rejects a package without printable build items', () => {
+    const data = createZip([{ name: '3D/3dmodel.model', data: model('millimeter', '<item objectid="1" printable="0" />') }]);
+
+    expect(() => parse3MF(data)).toThrow('no printable build items');
+  });
+});
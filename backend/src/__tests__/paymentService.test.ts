@@ -0,0 +1,260 @@
+import { Prisma } from '@prisma/client';
+import { prismaMock, resetPrismaMock } from './helpers/prismaMock';
+import paymentService from '../services/paymentService';
+import orderProcessingService from '../services/orderProcessingService';
+import invoiceService from '../services/invoiceService';
+import emailService from '../services/emailService';
+
+jest.mock('@prisma/client', () => ({
+  ...jest.requireActual('@prisma/client'),
+  PrismaClient: jest.fn(() => require('./helpers/prismaMock').prismaMock),
+}));
+
+// Stripe answers from mockStripe instead of the API
+const mockStripe = {
+  paymentIntents: { retrieve: jest.fn() },
+  refunds: { create: jest.fn() },
+};
+jest.mock('stripe', () => ({
+  __esModule: true,
+  default: jest.fn(() => ({
+    paymentIntents: { retrieve: (...args: unknown[]) => mockStripe.paymentIntents.retrieve(...args) },
+    refunds: { create: (...args: unknown[]) => mockStripe.refunds.create(...args) },
+  })),
+}));
+
+jest.mock('../services/orderProcessingService', () => ({
+  __esModule: true,
+  default: { processNewOrder: jest.fn(), updateOrderStatus: jest.fn() },
+}));
+jest.mock('../services/invoiceService', () => ({
+  __esModule: true,
+  default: { issueInvoice: jest.fn(), issueCreditNote: jest.fn() },
+}));
+jest.mock('../services/emailService', () => ({
+  __esModule: true,
+  default: { sendRefundNotification: jest.fn() },
+}));
+
+const intent = (status: string, extra: object = {}): any => ({
+  id: 'pi_1',
+  status,
+  amount_received: status === 'succeeded' ? 50000 : 0,
+  latest_charge: status === 'succeeded' ? { id: 'ch_1' } : null,
+  payment_method: { type: 'card', card: {} },
+  last_payment_error: null,
+  ...extra,
+});
+
+const stripeRefund = (amount: number, status: string = 'succeeded'): any => ({
+  id: `re_${amount}`,
+  status,
+  amount: amount * 100,
+  payment_intent: 'pi_1',
+  metadata: {},
+  reason: null,
+});
+
+// A 500 DKK order of two items; the first is 300 DKK, the second 200 DKK
+describe('payment and refund webhooks', () => {
+  let order: any;
+  let payment: any;
+  let refunds: any[];
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+    resetPrismaMock();
+
+    order = {
+      id: 'order_1',
+      status: 'PENDING_PAYMENT',
+      paymentStatus: 'PENDING',
+      items: [{ id: 'item_1', totalCost: 300 }, { id: 'item_2', totalCost: 200 }],
+    };
+    payment = {
+      id: 'payment_1',
+      orderId: 'order_1',
+      status: 'PENDING',
+      amount: 500,
+      amountReceived: null,
+      stripePaymentId: 'pi_1',
+    };
+    refunds = [];
+
+    const matchesStatus = (status: string, filter: any) =>
+      filter === undefined || (typeof filter === 'string' ? status === filter
+        : filter.notIn ? !filter.notIn.includes(status)
+        : filter.not !== undefined ? status !== filter.not
+        : filter.in.includes(status));
+
+    prismaMock.payment.findUnique.mockImplementation(async ({ where }) =>
+      where!.stripePaymentId === payment.stripePaymentId ? { ...payment } : null
+    );
+    prismaMock.payment.updateMany.mockImplementation(async ({ where, data }) => {
+      if (where!.id !== payment.id || !matchesStatus(payment.status, where!.status)) {
+        return { count: 0 };
+      }
+      Object.assign(payment, data);
+      return { count: 1 };
+    });
+    prismaMock.payment.update.mockImplementation(async ({ data }) => Object.assign(payment, data));
+    prismaMock.payment.findUniqueOrThrow.mockImplementation(async () => ({
+      ...payment,
+      refunds: refunds.filter(refund => refund.status === 'SUCCEEDED'),
+      order: { ...order },
+    }));
+
+    prismaMock.order.findUnique.mockImplementation(async () => ({ ...order }));
+    prismaMock.order.update.mockImplementation(async ({ data }) => Object.assign(order, data));
+
+    prismaMock.refund.findFirst.mockImplementation(async ({ where }) =>
+      refunds.find(refund => where!.OR!.some(match => match.stripeRefundId === refund.stripeRefundId || match.id === refund.id)) || null
+    );
+    prismaMock.refund.create.mockImplementation(async ({ data }) => {
+      const refund = { id: `refund_${refunds.length + 1}`, status: 'PENDING', orderItemId: null, ...data };
+      refunds.push(refund);
+      return { ...refund };
+    });
+    prismaMock.refund.updateMany.mockImplementation(async ({ where, data }) => {
+      const refund = refunds.find(candidate => candidate.id === where!.id);
+      if (!refund || !matchesStatus(refund.status, where!.status)) {
+        return { count: 0 };
+      }
+      Object.assign(refund, data);
+      return { count: 1 };
+    });
+    prismaMock.refund.findUniqueOrThrow.mockImplementation(async ({ where }) => ({
+      ...refunds.find(refund => refund.id === where.id),
+    }));
+
+    prismaMock.printJob.updateMany.mockResolvedValue({ count: 0 });
+  });
+
+  it('completes the payment and confirms the order when the intent succeeds', async () => {
+    mockStripe.paymentIntents.retrieve.mockResolvedValue(intent('succeeded'));
+
+    await paymentService.syncPaymentIntent(intent('succeeded'));
+
+    expect(payment).toMatchObject({ status: 'COMPLETED', amountReceived: 500, stripeChargeId: 'ch_1', method: 'CARD' });
+    expect(order.paymentStatus).toBe('COMPLETED');
+    expect(orderProcessingService.processNewOrder).toHaveBeenCalledWith('order_1');
+    expect(invoiceService.issueInvoice).toHaveBeenCalledWith('order_1');
+  });
+
+  it('leaves the order awaiting payment when the card is declined', async () => {
+    const declined = intent('requires_payment_method', { last_payment_error: { message: 'Your card was declined.' } });
+    mockStripe.paymentIntents.retrieve.mockResolvedValue(declined);
+
+    await paymentService.syncPaymentIntent(declined);
+
+    expect(payment).toMatchObject({ status: 'FAILED', failureMessage: 'Your card was declined.' });
+    expect(order).toMatchObject({ status: 'PENDING_PAYMENT', paymentStatus: 'FAILED' });
+    expect(orderProcessingService.processNewOrder).not.toHaveBeenCalled();
+  });
+
+  it('uses the intent fetched from Stripe, not the possibly stale event', async () => {
+    mockStripe.paymentIntents.retrieve.mockResolvedValue(intent('succeeded'));
+
+    await paymentService.syncPaymentIntent(intent('processing'));
+
+    expect(payment.status).toBe('COMPLETED');
+  });
+
+  it.each(['COMPLETED', 'REFUNDED', 'PARTIALLY_REFUNDED'])(
+    'does not let a replayed event move a %s payment',
+    async status => {
+      payment.status = status;
+      mockStripe.paymentIntents.retrieve.mockResolvedValue(intent('succeeded'));
+
+      await paymentService.syncPaymentIntent(intent('succeeded'));
+
+      expect(payment.status).toBe(status);
+      expect(prismaMock.payment.updateMany).not.toHaveBeenCalled();
+      expect(orderProcessingService.processNewOrder).not.toHaveBeenCalled();
+    }
+  );
+
+  describe('refunds', () => {
+    beforeEach(() => {
+      Object.assign(payment, { status: 'COMPLETED', amountReceived: 500 });
+      Object.assign(order, { status: 'PAYMENT_CONFIRMED', paymentStatus: 'COMPLETED' });
+    });
+
+    it('refunds the order in full when Stripe reports the whole amount back', async () => {
+      await paymentService.syncStripeRefund(stripeRefund(500));
+
+      expect(refunds).toMatchObject([{ status: 'SUCCEEDED', amount: 500, stripeRefundId: 're_500' }]);
+      expect(payment).toMatchObject({ status: 'REFUNDED', refundAmount: 500 });
+      expect(order.paymentStatus).toBe('REFUNDED');
+      expect(orderProcessingService.updateOrderStatus).toHaveBeenCalledWith('order_1', 'REFUNDED', 'Refunded in full');
+      expect(prismaMock.printJob.updateMany).toHaveBeenCalledWith(expect.objectContaining({
+        where: expect.objectContaining({ orderItemId: { in: ['item_1', 'item_2'] } }),
+      }));
+      expect(invoiceService.issueCreditNote).toHaveBeenCalledWith('refund_1');
+      expect(emailService.sendRefundNotification).toHaveBeenCalledWith('refund_1');
+    });
+
+    it('keeps the order going after a partial refund and only stops the refunded item', async () => {
+      refunds.push({ id: 'refund_1', paymentId: 'payment_1', orderItemId: 'item_2', amount: 200, status: 'PENDING', stripeRefundId: 're_200' });
+
+      await paymentService.syncStripeRefund(stripeRefund(200));
+
+      expect(payment).toMatchObject({ status: 'PARTIALLY_REFUNDED', refundAmount: 200 });
+      expect(order).toMatchObject({ status: 'PAYMENT_CONFIRMED', paymentStatus: 'PARTIALLY_REFUNDED' });
+      expect(orderProcessingService.updateOrderStatus).not.toHaveBeenCalled();
+      expect(prismaMock.printJob.updateMany).toHaveBeenCalledWith(expect.objectContaining({
+        where: expect.objectContaining({ orderItemId: { in: ['item_2'] } }),
+      }));
+    });
+
+    it('applies a redelivered refund event once', async () => {
+      await paymentService.syncStripeRefund(stripeRefund(500));
+      await paymentService.syncStripeRefund(stripeRefund(500));
+
+      expect(refunds).toHaveLength(1);
+      expect(emailService.sendRefundNotification).toHaveBeenCalledTimes(1);
+    });
+
+    it('settles nothing while Stripe still has the refund pending', async () => {
+      await paymentService.syncStripeRefund(stripeRefund(500, 'pending'));
+
+      expect(payment.status).toBe('COMPLETED');
+      expect(orderProcessingService.updateOrderStatus).not.toHaveBeenCalled();
+      expect(emailService.sendRefundNotification).not.toHaveBeenCalled();
+    });
+
+    describe('issued by an admin', () => {
+      beforeEach(() => {
+        prismaMock.order.findUnique.mockImplementation(async () => ({ ...order, payments: [{ ...payment }], refunds }));
+        mockStripe.refunds.create.mockImplementation(async (params: { amount: number }) => stripeRefund(params.amount / 100, 'pending'));
+      });
+
+      it('counts pending refunds and refuses more than is left', async () => {
+        refunds.push({ id: 'refund_1', paymentId: 'payment_1', orderItemId: null, amount: 400, status: 'PENDING' });
+
+        const outcome = await paymentService.refundPayment('order_1', { amount: 200, reason: 'Damaged' });
+
+        expect(outcome).toEqual({ error: 'At most 100.00 can be refunded', status: 400 });
+        expect(refunds).toHaveLength(1);
+        expect(mockStripe.refunds.create).not.toHaveBeenCalled();
+      });
+
+      it('reserves the refund in a serializable transaction and runs it again after a conflict', async () => {
+        prismaMock.$transaction.mockRejectedValueOnce(
+          new Prisma.PrismaClientKnownRequestError('Transaction conflict', { code: 'P2034', clientVersion: 'test' })
+        );
+
+        const outcome = await paymentService.refundPayment('order_1', { amount: 100, reason: 'Damaged' });
+
+        expect(prismaMock.$transaction).toHaveBeenCalledTimes(2);
+        expect(prismaMock.$transaction).toHaveBeenLastCalledWith(expect.any(Function), { isolationLevel: 'Serializable' });
+        expect(outcome).toMatchObject({ refund: { id: 'refund_1', amount: 100, status: 'PENDING' } });
+        expect(mockStripe.refunds.create).toHaveBeenCalledWith(
+          expect.objectContaining({ payment_intent: 'pi_1', amount: 10000 }),
+          { idempotencyKey: 'refund-refund_1' }
+        );
+      });
+    });
+  });
+});
@@ -0,0 +1,118 @@
+import { OrderStatus, Prisma, PromoCode } from '@prisma/client';
+import { prismaMock, resetPrismaMock } from './helpers/prismaMock';
+import promoCodeService from '../services/promoCodeService';
+
+jest.mock('@prisma/client', () => ({
+  ...jest.requireActual('@prisma/client'),
+  PrismaClient: jest.fn(() => require('./helpers/prismaMock').prismaMock),
+}));
+
+interface PlacedOrder {
+  userId: string;
+  promoCodeId: string | null;
+  status: OrderStatus;
+}
+
+const conflict = () => new Prisma.PrismaClientKnownRequestError('Transaction conflict', { code: 'P2034', clientVersion: 'test' });
+
+// A 100 DKK order of PLA
+const cart = (userId: string) => ({ userId, dkkPerUnit: 1, items: [{ materialId: 'pla', totalCost: 100 }] });
+
+describe('promo code checkout', () => {
+  let promoCode: PromoCode;
+  let orders: PlacedOrder[];
+
+  // Checks the code and places the order in the checkout transaction, like the order route
+  const placeOrder = (userId: string) => promoCodeService.checkout(async tx => {
+    const promo = await promoCodeService.evaluatePromoCode('welcome10', cart(userId), new Date(2025, 0, 15), tx);
+    if (promo.error) {
+      return { error: promo.error };
+    }
+    orders.push({ userId, promoCodeId: promo.promoCode!.id, status: 'PENDING_PAYMENT' });
+    return { discount: promo.discount };
+  });
+
+  beforeEach(() => {
+    resetPrismaMock();
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+
+    promoCode = {
+      id: 'promo_1',
+      code: 'WELCOME10',
+      description: null,
+      discountType: 'PERCENTAGE',
+      value: 10,
+      firstOrderOnly: false,
+      materialIds: [],
+      minimumSpend: null,
+      maxRedemptions: null,
+      maxRedemptionsPerUser: null,
+      validFrom: null,
+      validTo: null,
+      isActive: true,
+      createdAt: new Date(2025, 0, 1),
+      updatedAt: new Date(2025, 0, 1),
+    };
+    orders = [];
+
+    prismaMock.promoCode.findUnique.mockImplementation(async ({ where }) => (where.code === promoCode.code ? promoCode : null));
+    prismaMock.order.count.mockImplementation(async ({ where }) => {
+      const excluded = (where!.status as Prisma.EnumOrderStatusFilter).notIn as OrderStatus[];
+      return orders.filter(order =>
+        (where!.promoCodeId === undefined || order.promoCodeId === where!.promoCodeId) &&
+        (where!.userId === undefined || order.userId === where!.userId) &&
+        !excluded.includes(order.status)
+      ).length;
+    });
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('runs the checkout in a serializable transaction', async () => {
+    expect(await placeOrder('user_1')).toEqual({ discount: 10 });
+    expect(prismaMock.$transaction).toHaveBeenCalledWith(expect.any(Function), { isolationLevel: 'Serializable' });
+  });
+
+  it('runs a checkout again when Postgres aborts it for a serialization conflict', async () => {
+    prismaMock.$transaction.mockRejectedValueOnce(conflict());
+
+    expect(await placeOrder('user_1')).toEqual({ discount: 10 });
+    expect(prismaMock.$transaction).toHaveBeenCalledTimes(2);
+    expect(orders).toHaveLength(1);
+  });
+
+  it('gives up after three conflicts and does not retry other errors', async () => {
+    prismaMock.$transaction
+      .mockRejectedValueOnce(conflict())
+      .mockRejectedValueOnce(conflict())
+      .mockRejectedValueOnce(conflict());
+    await expect(placeOrder('user_1')).rejects.toMatchObject({ code: 'P2034' });
+    expect(prismaMock.$transaction).toHaveBeenCalledTimes(3);
+
+    prismaMock.$transaction.mockClear();
+    prismaMock.$transaction.mockRejectedValueOnce(new Error('connection lost'));
+    await expect(placeOrder('user_1')).rejects.toThrow('connection lost');
+    expect(prismaMock.$transaction).toHaveBeenCalledTimes(1);
+  });
+
+  it('refuses the code once its redemptions are used up', async () => {
+    promoCode.maxRedemptions = 2;
+
+    expect(await placeOrder('user_1')).toEqual({ discount: 10 });
+    expect(await placeOrder('user_2')).toEqual({ discount: 10 });
+    expect(await placeOrder('user_3')).toEqual({ error: 'Promo code has been fully redeemed' });
+
+    orders[0].status = 'CANCELLED'; // a cancelled order gives its redemption back
+    expect(await placeOrder('user_3')).toEqual({ discount: 10 });
+  });
+
+  it('refuses the code to a customer who has used it up', async () => {
+    promoCode.maxRedemptionsPerUser = 1;
+
+    expect(await placeOrder('user_1')).toEqual({ discount: 10 });
+    expect(await placeOrder('user_1')).toEqual({ error: 'You have already used this promo code' });
+    expect(await placeOrder('user_2')).toEqual({ discount: 10 });
+  });
+});
@@ -0,0 +1,116 @@
+import { prismaMock, resetPrismaMock } from './helpers/prismaMock';
+import shippingService from '../services/shippingService';
+import orderProcessingService from '../services/orderProcessingService';
+import { StubCarrier } from '../utils/carriers';
+
+jest.mock('@prisma/client', () => ({
+  ...jest.requireActual('@prisma/client'),
+  PrismaClient: jest.fn(() => require('./helpers/prismaMock').prismaMock),
+}));
+
+jest.mock('../services/orderProcessingService', () => ({
+  __esModule: true,
+  default: { updateOrderStatus: jest.fn() },
+}));
+
+const DAY = 24 * 60 * 60 * 1000; // ms
+const SHIPPED_AT = new Date('2025-03-03T10:00:00Z');
+
+describe('stub carrier tracking', () => {
+  let now: Date;
+  let carrier: StubCarrier;
+
+  beforeEach(() => {
+    now = SHIPPED_AT;
+    carrier = new StubCarrier(new Map([['STUB123', SHIPPED_AT]]), () => now);
+  });
+
+  it('moves a parcel one step along its route per day', async () => {
+    const statuses = [];
+    for (const days of [0, 1, 2, 3, 10]) {
+      now = new Date(SHIPPED_AT.getTime() + days * DAY);
+      statuses.push((await carrier.getTracking('STUB123')).status);
+    }
+
+    expect(statuses).toEqual(['PENDING', 'IN_TRANSIT', 'IN_TRANSIT', 'DELIVERED', 'DELIVERED']);
+  });
+
+  it('lists the events so far, oldest first', async () => {
+    now = new Date(SHIPPED_AT.getTime() + 1.5 * DAY);
+    const tracking = await carrier.getTracking('STUB123');
+
+    expect(tracking.trackingNumber).toBe('STUB123');
+    expect(tracking.events.map(event => event.description)).toEqual([
+      'Shipment information received',
+      'Parcel handed to the carrier',
+    ]);
+    expect(tracking.events[1].time).toEqual(new Date(SHIPPED_AT.getTime() + DAY));
+  });
+
+  it('starts a parcel it has not seen at its first lookup', async () => {
+    const first = await carrier.getTracking('NEW456');
+    now = new Date(SHIPPED_AT.getTime() + DAY);
+
+    expect(first.status).toBe('PENDING');
+    expect((await carrier.getTracking('NEW456')).status).toBe('IN_TRANSIT');
+  });
+});
+
+describe('shipping service tracking', () => {
+  let carrier: StubCarrier;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    resetPrismaMock();
+    carrier = new StubCarrier(new Map([['STUB123', SHIPPED_AT]]), () => new Date(SHIPPED_AT.getTime() + 3 * DAY));
+    shippingService.setCarrier(carrier);
+  });
+
+  it('asks the order\'s carrier where the parcel is', async () => {
+    const tracking = await shippingService.getTracking({ carrier: 'stub', trackingNumber: 'STUB123' });
+
+    expect(tracking!.status).toBe('DELIVERED');
+    expect(tracking!.events).toHaveLength(4);
+  });
+
+  it('has no tracking before a number is attached', async () => {
+    expect(await shippingService.getTracking({ carrier: null, trackingNumber: null })).toBeNull();
+  });
+
+  it('marks a packed order shipped with the tracking details in the same status change', async () => {
+    const actor = { id: 'user_1', role: 'OPERATOR' as const };
+    prismaMock.order.findUnique.mockResolvedValue({ status: 'POST_PROCESSING' });
+
+    await shippingService.attachTracking('order_1', 'stub', 'STUB123', actor);
+
+    expect(orderProcessingService.updateOrderStatus).toHaveBeenCalledWith('order_1', 'SHIPPED', undefined, actor, {
+      carrier: 'stub',
+      trackingNumber: 'STUB123',
+      trackingUrl: carrier.getTrackingUrl('STUB123'),
+      shippedAt: expect.any(Date),
+    });
+    expect(prismaMock.order.update).not.toHaveBeenCalled();
+  });
+
+  it('only corrects the tracking number of an order already shipped', async () => {
+    prismaMock.order.findUnique.mockResolvedValue({ status: 'SHIPPED' });
+
+    await shippingService.attachTracking('order_1', 'stub', 'STUB999');
+
+    expect(prismaMock.order.update).toHaveBeenCalledWith({
+      where: { id: 'order_1' },
+      data: { carrier: 'stub', trackingNumber: 'STUB999', trackingUrl: carrier.getTrackingUrl('STUB999') },
+    });
+    expect(orderProcessingService.updateOrderStatus).not.toHaveBeenCalled();
+  });
+
+  it('leaves the order untouched when the move to SHIPPED is refused', async () => {
+    prismaMock.order.findUnique.mockResolvedValue({ status: 'PRINTING' });
+    jest.mocked(orderProcessingService.updateOrderStatus).mockRejectedValue(new Error('OPERATOR cannot move order from PRINTING to SHIPPED'));
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+
+    await expect(shippingService.attachTracking('order_1', 'stub', 'STUB123', { id: 'user_1', role: 'OPERATOR' }))
+      .rejects.toThrow('cannot move order');
+    expect(prismaMock.order.update).not.toHaveBeenCalled();
+  });
+});
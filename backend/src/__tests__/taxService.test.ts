@@ -0,0 +1,55 @@
+import { Organization } from '@prisma/client';
+import taxService from '../services/taxService';
+
+jest.mock('@prisma/client', () => ({
+  ...jest.requireActual('@prisma/client'),
+  PrismaClient: jest.fn(() => require('./helpers/prismaMock').prismaMock),
+}));
+
+// A German business customer; the seller is Danish (COMPANY_COUNTRY defaults to DK)
+const organization = (validated: boolean): Organization => ({
+  id: 'org_1',
+  name: 'Werkstatt GmbH',
+  vatNumber: 'DE 123 456 789',
+  vatNumberValidatedAt: validated ? new Date(2025, 0, 1) : null,
+  laborRatePerHour: null,
+  materialMarkup: null,
+  platformFeePercentage: null,
+  minimumOrderValue: null,
+  isActive: true,
+  notes: null,
+  createdAt: new Date(2025, 0, 1),
+  updatedAt: new Date(2025, 0, 1),
+});
+
+describe('VAT determination', () => {
+  it('charges Danish VAT within Denmark and on collected orders', () => {
+    expect(taxService.determineVat('Danmark', null)).toEqual({ rate: 25, rule: 'DOMESTIC', country: 'DK', vatNumber: null });
+    expect(taxService.determineVat(null, organization(true))).toMatchObject({ rate: 25, rule: 'DOMESTIC' });
+  });
+
+  it('charges the EU buyer country rate to consumers and unverified businesses', () => {
+    expect(taxService.determineVat('Germany', null)).toEqual({ rate: 19, rule: 'EU_DISTANCE_SALE', country: 'DE', vatNumber: null });
+    expect(taxService.determineVat('de', organization(false))).toMatchObject({ rate: 19, rule: 'EU_DISTANCE_SALE' });
+    expect(taxService.determineVat('EL', null)).toMatchObject({ rate: 24, country: 'GR' });
+  });
+
+  it('reverse charges an EU business with a validated VAT number', () => {
+    expect(taxService.determineVat('Deutschland', organization(true))).toEqual({
+      rate: 0,
+      rule: 'REVERSE_CHARGE',
+      country: 'DE',
+      vatNumber: 'DE123456789',
+    });
+  });
+
+  it('exports outside the EU without VAT', () => {
+    expect(taxService.determineVat('NO', null)).toEqual({ rate: 0, rule: 'EXPORT', country: 'NO', vatNumber: null });
+    expect(taxService.determineVat('US', organization(true))).toMatchObject({ rate: 0, rule: 'EXPORT' });
+  });
+
+  it('does not guess at a country it does not know', () => {
+    expect(taxService.determineVat('XX', null)).toBeNull();
+    expect(taxService.determineVat('Narnia', null)).toBeNull();
+  });
+});
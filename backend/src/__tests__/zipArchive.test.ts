@@ -0,0 +1,67 @@
+import { Readable } from 'stream';
+import { ZIP_MAX_ENTRY_SIZE, ZipArchive, isZipArchive } from '../utils/zipArchive';
+import { createZip } from './helpers/zipFixture';
+
+const readStream = async (stream: Readable): Promise<string> => {
+  const chunks: Buffer[] = [];
+  for await (const chunk of stream) {
+    chunks.push(chunk);
+  }
+  return Buffer.concat(chunks).toString('utf8');
+};
+
+const MODEL = '<model unit="millimeter">'.padEnd(4000, ' ') + '</model>';
+
+describe('ZIP archive', () => {
+  it('reads a stored entry by its 3MF part name', () => {
+    const archive = new ZipArchive(createZip([
+      { name: '3D/', data: '' },
+      { name: '3D/3dmodel.model', data: MODEL },
+    ]));
+
+    expect(archive.fileNames).toEqual(['3d/3dmodel.model']);
+    expect(archive.has('/3D/3dmodel.model')).toBe(true);
+    expect(archive.readText('/3D/3dmodel.model')).toBe(MODEL);
+  });
+
+  it('inflates a deflated entry, whole and as a stream', async () => {
+    const data = createZip([{ name: 'Metadata/plate_1.gcode', data: MODEL, deflate: true }]);
+    const archive = new ZipArchive(data);
+
+    expect(isZipArchive(data)).toBe(true);
+    expect(data.length).toBeLessThan(MODEL.length);
+    expect(archive.readText('Metadata/plate_1.gcode')).toBe(MODEL);
+    expect(await readStream(archive.createReadStream('Metadata/plate_1.gcode'))).toBe(MODEL);
+  });
+
+  it('finds entries through the ZIP64 records', () => {
+    const archive = new ZipArchive(createZip([
+      { name: 'first.txt', data: 'first' },
+      { name: '3D/3dmodel.model', data: MODEL, deflate: true },
+    ], { zip64: true }));
+
+    expect(archive.fileNames).toEqual(['first.txt', '3d/3dmodel.model']);
+    expect(archive.readText('first.txt')).toBe('first');
+    expect(archive.readText('3D/3dmodel.model')).toBe(MODEL);
+  });
+
+  it('stops inflating an entry that is larger than it declared', async () => {
+    const archive = new ZipArchive(createZip([{ name: 'bomb.model', data: MODEL, deflate: true, declaredSize: 100 }]));
+
+    expect(() => archive.read('bomb.model')).toThrow();
+    await expect(readStream(archive.createReadStream('bomb.model'))).rejects.toThrow('larger than declared');
+  });
+
+  it('refuses an entry above the size limit before inflating it', () => {
+    const archive = new ZipArchive(createZip([
+      { name: 'huge.model', data: MODEL, deflate: true, declaredSize: ZIP_MAX_ENTRY_SIZE + 1 },
+    ]));
+
+    expect(() => archive.read('huge.model')).toThrow('too large');
+    expect(() => archive.createReadStream('huge.model')).toThrow('too large');
+  });
+
+  it('rejects data without a central directory', () => {
+    expect(() => new ZipArchive(Buffer.from('solid cube\nendsolid cube\n'))).toThrow('end of central directory not found');
+  });
+});
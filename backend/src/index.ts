@@ -17,7 +17,9 @@ import adminRoutes from './routes/admin';
 import electricityRoutes from './routes/electricity';
 import webhookRoutes from './routes/webhooks';
 import thingiverseRoutes from './routes/thingiverse';
-import nordpoolService from './services/nordpoolService';
+import shippingRoutes from './routes/shipping';
+import electricityPriceService from './services/electricityPriceService';
+import schedulerService from './services/schedulerService';
 
 // Load environment variables
 dotenv.config();
@@ -48,6 +50,8 @@ app.use(cors({
   credentials: true,
 }));
 app.use(morgan('combined'));
+// Stripe signs the raw body, so the webhook must not go through the JSON parser
+app.use('/api/webhooks/stripe', express.raw({ type: 'application/json' }));
 app.use(express.json({ limit: '10mb' }));
 app.use(express.urlencoded({ extended: true, limit: '10mb' }));
 app.use(limiter);
@@ -73,6 +77,7 @@ app.use('/api/admin', adminRoutes);
 app.use('/api/electricity', electricityRoutes);
 app.use('/api/webhooks', webhookRoutes);
 app.use('/api/thingiverse', thingiverseRoutes);
+app.use('/api/shipping', shippingRoutes);
 
 // 404 handler
 app.use('*', (req, res) => {
@@ -84,7 +89,7 @@ app.use('*', (req, res) => {
 });
 
 // Global error handler
-app.use((err: any, req: express.Request, res: express.Response, next: express.NextFunction) => {
+app.use((err: any, req: express.Request, res: express.Response, _next: express.NextFunction) => {
   console.error('Error:', err);
   
   const status = err.status || err.statusCode || 500;
@@ -116,8 +121,11 @@ app.listen(PORT, () => {
   console.log(`🔗 CORS enabled for: ${process.env.CORS_ORIGIN}`);
   console.log(`💾 Database: ${process.env.DATABASE_URL?.split('@')[1] || 'Not configured'}`);
   
-  // Start Nordpool price update job
-  nordpoolService.startPriceUpdateJob();
+  // Start electricity price update job
+  electricityPriceService.startPriceUpdateJob();
+
+  // Start print schedule re-plan job
+  schedulerService.startReplanJob();
 });
 
 export default app;
@@ -44,6 +44,33 @@ export const authenticateToken = async (
   }
 };
 
+// Identifies the user when a valid token is sent, but lets anonymous requests through
+export const optionalAuth = async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+) => {
+  const authHeader = req.headers.authorization;
+  const token = authHeader && authHeader.split(' ')[1];
+  if (!token) {
+    return next();
+  }
+
+  try {
+    const decoded = jwt.verify(token, process.env.JWT_SECRET!) as any;
+    const user = await prisma.user.findUnique({
+      where: { id: decoded.userId },
+      select: { id: true, email: true, role: true, isActive: true },
+    });
+    if (user && user.isActive) {
+      req.user = user;
+    }
+  } catch (error) {
+    // An invalid token prices like an anonymous visitor
+  }
+  next();
+};
+
 export const requireRole = (roles: UserRole[]) => {
   return (req: AuthRequest, res: Response, next: NextFunction) => {
     if (!req.user) {
@@ -1,7 +1,22 @@
 import express from 'express';
-import { PrismaClient, OrderStatus, PrintStatus } from '@prisma/client';
-import { authenticateToken, requireRole } from '../middleware/auth';
+import { PrismaClient, OrderStatus, PrintStatus, PrinterStatus, MaterialType, InvoiceType } from '@prisma/client';
+import { authenticateToken, requireRole, AuthRequest } from '../middleware/auth';
 import orderProcessingService from '../services/orderProcessingService';
+import printerService from '../services/printerService';
+import schedulerService from '../services/schedulerService';
+import electricityTariffService from '../services/electricityTariffService';
+import electricityPriceService from '../services/electricityPriceService';
+import pricingSettingsService from '../services/pricingSettingsService';
+import organizationService from '../services/organizationService';
+import promoCodeService from '../services/promoCodeService';
+import paymentService from '../services/paymentService';
+import invoiceService from '../services/invoiceService';
+import taxService from '../services/taxService';
+import currencyService, { SUPPORTED_CURRENCIES } from '../services/currencyService';
+import shippingService from '../services/shippingService';
+import { createInvoicePdf } from '../utils/invoicePdf';
+import { roundToOre } from '../utils/pricingEngine';
+import { getNextStatuses, getTransitionError } from '../utils/orderStateMachine';
 
 const router = express.Router();
 const prisma = new PrismaClient();
@@ -83,7 +98,7 @@ router.get('/orders', authenticateToken, requireRole(['ADMIN', 'MANAGER']), asyn
 });
 
 // Get order by ID
-router.get('/orders/:id', authenticateToken, requireRole(['ADMIN', 'MANAGER']), async (req, res) => {
+router.get('/orders/:id', authenticateToken, requireRole(['ADMIN', 'MANAGER']), async (req: AuthRequest, res) => {
   try {
     const { id } = req.params;
 
@@ -108,6 +123,10 @@ router.get('/orders/:id', authenticateToken, requireRole(['ADMIN', 'MANAGER']),
         },
         shippingAddress: true,
         payments: true,
+        statusHistory: {
+          include: { actor: { select: { id: true, firstName: true, lastName: true } } },
+          orderBy: { createdAt: 'asc' },
+        },
       }
     });
 
@@ -115,15 +134,15 @@ router.get('/orders/:id', authenticateToken, requireRole(['ADMIN', 'MANAGER']),
       return res.status(404).json({ error: 'Order not found' });
     }
 
-    res.json(order);
+    return res.json({ ...order, nextStatuses: getNextStatuses(order.status, req.user!.role) });
   } catch (error) {
     console.error('Error fetching order:', error);
-    res.status(500).json({ error: 'Failed to fetch order' });
+    return res.status(500).json({ error: 'Failed to fetch order' });
   }
 });
 
-// Update order status
-router.patch('/orders/:id/status', authenticateToken, requireRole(['ADMIN', 'MANAGER']), async (req, res) => {
+// Update order status; which moves a role may make is in the order state machine
+router.patch('/orders/:id/status', authenticateToken, requireRole(['ADMIN', 'MANAGER', 'OPERATOR']), async (req: AuthRequest, res) => {
   try {
     const { id } = req.params;
     const { status, notes } = req.body;
@@ -132,16 +151,60 @@ router.patch('/orders/:id/status', authenticateToken, requireRole(['ADMIN', 'MAN
       return res.status(400).json({ error: 'Invalid order status' });
     }
 
-    const order = await orderProcessingService.updateOrderStatus(id, status, notes);
+    const existing = await prisma.order.findUnique({ where: { id }, select: { status: true } });
+    if (!existing) {
+      return res.status(404).json({ error: 'Order not found' });
+    }
+
+    const transitionError = getTransitionError(existing.status, status, req.user!.role);
+    if (transitionError) {
+      return res.status(transitionError.status).json({ error: transitionError.error });
+    }
+
+    const order = await orderProcessingService.updateOrderStatus(id, status, notes, { id: req.user!.id, role: req.user!.role });
 
     if (!order) {
       return res.status(404).json({ error: 'Order not found' });
     }
 
-    res.json(order);
+    return res.json(order);
   } catch (error) {
     console.error('Error updating order status:', error);
-    res.status(500).json({ error: 'Failed to update order status' });
+    return res.status(500).json({ error: 'Failed to update order status' });
+  }
+});
+
+// Attach the carrier's tracking number to a packed order and mark it shipped
+router.patch('/orders/:id/shipment', authenticateToken, requireRole(['ADMIN', 'MANAGER', 'OPERATOR']), async (req: AuthRequest, res) => {
+  try {
+    const { id } = req.params;
+    const { carrier, trackingNumber } = req.body;
+
+    if (typeof carrier !== 'string' || !shippingService.isCarrier(carrier)) {
+      return res.status(400).json({ error: 'Unknown carrier' });
+    }
+    if (typeof trackingNumber !== 'string' || !/^[A-Za-z0-9-]{4,40}$/.test(trackingNumber.trim())) {
+      return res.status(400).json({ error: 'trackingNumber must be 4-40 letters, digits or dashes' });
+    }
+
+    const existing = await prisma.order.findUnique({ where: { id } });
+    if (!existing) {
+      return res.status(404).json({ error: 'Order not found' });
+    }
+    if (existing.shippingMethod === 'PICKUP') {
+      return res.status(400).json({ error: 'Order is collected at the workshop, not shipped' });
+    }
+    // Already shipped: only the tracking number is corrected
+    const transitionError = existing.status === 'SHIPPED' ? null : getTransitionError(existing.status, 'SHIPPED', req.user!.role);
+    if (transitionError) {
+      return res.status(transitionError.status).json({ error: transitionError.error });
+    }
+
+    const order = await shippingService.attachTracking(id, carrier, trackingNumber.trim(), { id: req.user!.id, role: req.user!.role });
+    return res.json(order);
+  } catch (error) {
+    console.error('Error attaching shipment:', error);
+    return res.status(500).json({ error: 'Failed to attach shipment' });
   }
 });
 
@@ -156,6 +219,28 @@ router.get('/queue', authenticateToken, requireRole(['ADMIN', 'MANAGER', 'OPERAT
   }
 });
 
+// Get the predicted print timeline per printer
+router.get('/schedule', authenticateToken, requireRole(['ADMIN', 'MANAGER', 'OPERATOR']), async (req, res) => {
+  try {
+    const schedule = await schedulerService.getSchedule();
+    res.json(schedule);
+  } catch (error) {
+    console.error('Error fetching print schedule:', error);
+    res.status(500).json({ error: 'Failed to fetch print schedule' });
+  }
+});
+
+// Re-plan the queue and save printer assignments
+router.post('/schedule/replan', authenticateToken, requireRole(['ADMIN', 'MANAGER', 'OPERATOR']), async (req, res) => {
+  try {
+    const schedule = await schedulerService.replan();
+    res.json(schedule);
+  } catch (error) {
+    console.error('Error re-planning print schedule:', error);
+    res.status(500).json({ error: 'Failed to re-plan print schedule' });
+  }
+});
+
 // Update print job status
 router.patch('/print-jobs/:id/status', authenticateToken, requireRole(['ADMIN', 'MANAGER', 'OPERATOR']), async (req, res) => {
   try {
@@ -172,10 +257,161 @@ router.patch('/print-jobs/:id/status', authenticateToken, requireRole(['ADMIN',
       return res.status(404).json({ error: 'Print job not found' });
     }
 
-    res.json(printJob);
+    return res.json(printJob);
   } catch (error) {
     console.error('Error updating print job status:', error);
-    res.status(500).json({ error: 'Failed to update print job status' });
+    return res.status(500).json({ error: 'Failed to update print job status' });
+  }
+});
+
+// Assign a print job to a printer that can handle the part and material
+router.patch('/print-jobs/:id/printer', authenticateToken, requireRole(['ADMIN', 'MANAGER', 'OPERATOR']), async (req, res) => {
+  try {
+    const { id } = req.params;
+    const { printerId } = req.body;
+
+    if (!printerId) {
+      return res.status(400).json({ error: 'printerId is required' });
+    }
+
+    const compatibility = await printerService.getJobCompatibility(printerId, id);
+    if (!compatibility) {
+      return res.status(404).json({ error: 'Printer or print job not found' });
+    }
+    if (!compatibility.compatible) {
+      return res.status(400).json({ error: 'Printer cannot handle this job', reasons: compatibility.reasons });
+    }
+
+    const printJob = await printerService.assignPrinter(id, printerId);
+    return res.json(printJob);
+  } catch (error) {
+    console.error('Error assigning printer:', error);
+    return res.status(500).json({ error: 'Failed to assign printer' });
+  }
+});
+
+// Get refunds of an order and what can still be refunded
+router.get('/orders/:id/refunds', authenticateToken, requireRole(['ADMIN', 'MANAGER']), async (req, res) => {
+  try {
+    const summary = await paymentService.getRefundSummary(req.params.id);
+    if (!summary) {
+      return res.status(404).json({ error: 'Order not found' });
+    }
+    return res.json(summary);
+  } catch (error) {
+    console.error('Error fetching refunds:', error);
+    return res.status(500).json({ error: 'Failed to fetch refunds' });
+  }
+});
+
+// Refund an order, or one item with orderItemId. Without an amount the whole
+// remaining amount of the order or item is refunded.
+router.post('/orders/:id/refunds', authenticateToken, requireRole(['ADMIN']), async (req: AuthRequest, res) => {
+  try {
+    const { amount, reason, orderItemId } = req.body;
+
+    if (!reason || typeof reason !== 'string' || !reason.trim()) {
+      return res.status(400).json({ error: 'A refund reason is required' });
+    }
+    // Stripe refunds whole minor units (øre, cents)
+    if (amount !== undefined && !(typeof amount === 'number' && amount > 0 && roundToOre(amount) === amount)) {
+      return res.status(400).json({ error: 'amount must be a positive number with at most 2 decimals' });
+    }
+
+    const outcome = await paymentService.refundPayment(req.params.id, {
+      amount,
+      reason: reason.trim(),
+      orderItemId,
+      createdById: req.user!.id,
+    });
+    if ('error' in outcome) {
+      return res.status(outcome.status).json({ error: outcome.error });
+    }
+    return res.status(201).json(outcome.refund);
+  } catch (error: any) {
+    console.error('Error issuing refund:', error);
+    return res.status(502).json({ error: error?.message || 'Failed to issue refund' });
+  }
+});
+
+// Get invoices and credit notes, optionally of one type and issued in [from, to)
+router.get('/invoices', authenticateToken, requireRole(['ADMIN', 'MANAGER']), async (req, res) => {
+  try {
+    const { type, from, to } = req.query;
+
+    if (type !== undefined && !Object.values(InvoiceType).includes(type as InvoiceType)) {
+      return res.status(400).json({ error: 'Invalid invoice type' });
+    }
+    for (const date of [from, to]) {
+      if (date !== undefined && isNaN(new Date(String(date)).getTime())) {
+        return res.status(400).json({ error: 'from and to must be dates' });
+      }
+    }
+
+    const invoices = await invoiceService.listInvoices({
+      type: type as InvoiceType | undefined,
+      from: from ? new Date(String(from)) : undefined,
+      to: to ? new Date(String(to)) : undefined,
+    });
+    return res.json(invoices.map(invoice => ({ ...invoice, displayNumber: invoiceService.formatNumber(invoice) })));
+  } catch (error) {
+    console.error('Error fetching invoices:', error);
+    return res.status(500).json({ error: 'Failed to fetch invoices' });
+  }
+});
+
+// Download an invoice or credit note as PDF
+router.get('/invoices/:id/pdf', authenticateToken, requireRole(['ADMIN', 'MANAGER']), async (req, res) => {
+  try {
+    const invoice = await invoiceService.getInvoice(req.params.id);
+    if (!invoice) {
+      return res.status(404).json({ error: 'Invoice not found' });
+    }
+
+    res.setHeader('Content-Type', 'application/pdf');
+    res.setHeader('Content-Disposition', `attachment; filename="${invoiceService.formatNumber(invoice)}.pdf"`);
+    return createInvoicePdf(invoiceService.toDocument(invoice)).pipe(res);
+  } catch (error) {
+    console.error('Error downloading invoice:', error);
+    return res.status(500).json({ error: 'Failed to download invoice' });
+  }
+});
+
+// Issue the invoice of a paid order that has none, e.g. one paid before invoicing existed
+router.post('/orders/:id/invoice', authenticateToken, requireRole(['ADMIN']), async (req, res) => {
+  try {
+    const order = await prisma.order.findUnique({ where: { id: req.params.id } });
+    if (!order) {
+      return res.status(404).json({ error: 'Order not found' });
+    }
+    if (!['COMPLETED', 'PARTIALLY_REFUNDED', 'REFUNDED'].includes(order.paymentStatus)) {
+      return res.status(400).json({ error: 'Only paid orders are invoiced' });
+    }
+
+    const invoice = await invoiceService.issueInvoice(order.id);
+    return res.status(201).json({ ...invoice, displayNumber: invoiceService.formatNumber(invoice) });
+  } catch (error) {
+    console.error('Error issuing invoice:', error);
+    return res.status(500).json({ error: 'Failed to issue invoice' });
+  }
+});
+
+// Issue the credit note of a succeeded refund
+router.post('/refunds/:id/credit-note', authenticateToken, requireRole(['ADMIN']), async (req, res) => {
+  try {
+    const refund = await prisma.refund.findUnique({ where: { id: req.params.id } });
+    if (!refund) {
+      return res.status(404).json({ error: 'Refund not found' });
+    }
+    if (refund.status !== 'SUCCEEDED') {
+      return res.status(400).json({ error: 'Only succeeded refunds get a credit note' });
+    }
+
+    const creditNote = await invoiceService.issueCreditNote(refund.id);
+    return res.status(201).json({ ...creditNote, displayNumber: invoiceService.formatNumber(creditNote) });
+  } catch (error) {
+    console.error('Error issuing credit note:', error);
+    return res.status(500).json({ error: 'Failed to issue credit note' });
   }
 });
 
@@ -206,10 +442,10 @@ router.get('/orders/status/:status', authenticateToken, requireRole(['ADMIN', 'M
       Number(limit)
     );
 
-    res.json(result);
+    return res.json(result);
   } catch (error) {
     console.error('Error fetching orders by status:', error);
-    res.status(500).json({ error: 'Failed to fetch orders by status' });
+    return res.status(500).json({ error: 'Failed to fetch orders by status' });
   }
 });
 
@@ -326,6 +562,822 @@ router.patch('/materials/:id/inventory', authenticateToken, requireRole(['ADMIN'
   }
 });
 
+// Printer fields accepted from admin requests
+const PRINTER_FIELDS = [
+  'name',
+  'model',
+  'buildVolumeX',
+  'buildVolumeY',
+  'buildVolumeZ',
+  'nozzleDiameter',
+  'supportedMaterials',
+  'amsSlots',
+  'powerConsumption',
+  'location',
+  'priceArea',
+  'loadedMaterialId',
+  'loadedColor',
+  'status',
+  'isActive',
+  'notes',
+] as const;
+
+const pickPrinterFields = (body: any) =>
+  Object.fromEntries(PRINTER_FIELDS.filter(field => body[field] !== undefined).map(field => [field, body[field]]));
+
+const validatePrinterFields = (data: any): string | null => {
+  for (const field of ['buildVolumeX', 'buildVolumeY', 'buildVolumeZ', 'nozzleDiameter', 'powerConsumption']) {
+    if (data[field] !== undefined && !(typeof data[field] === 'number' && data[field] > 0)) {
+      return `${field} must be a positive number`;
+    }
+  }
+  if (data.amsSlots !== undefined && !(Number.isInteger(data.amsSlots) && data.amsSlots >= 0)) {
+    return 'amsSlots must be a non-negative integer';
+  }
+  if (data.supportedMaterials !== undefined &&
+      !(Array.isArray(data.supportedMaterials) && data.supportedMaterials.every((type: any) => Object.values(MaterialType).includes(type)))) {
+    return 'supportedMaterials must be a list of material types';
+  }
+  if (data.status !== undefined && !Object.values(PrinterStatus).includes(data.status)) {
+    return 'Invalid printer status';
+  }
+  return null;
+};
+
+// Get printers
+router.get('/printers', authenticateToken, requireRole(['ADMIN', 'MANAGER', 'OPERATOR']), async (req, res) => {
+  try {
+    const printers = await printerService.getPrinters(req.query.includeInactive === 'true');
+    res.json(printers);
+  } catch (error) {
+    console.error('Error fetching printers:', error);
+    res.status(500).json({ error: 'Failed to fetch printers' });
+  }
+});
+
+// Get printer
+router.get('/printers/:id', authenticateToken, requireRole(['ADMIN', 'MANAGER', 'OPERATOR']), async (req, res) => {
+  try {
+    const printer = await printerService.getPrinter(req.params.id);
+
+    if (!printer) {
+      return res.status(404).json({ error: 'Printer not found' });
+    }
+
+    return res.json(printer);
+  } catch (error) {
+    console.error('Error fetching printer:', error);
+    return res.status(500).json({ error: 'Failed to fetch printer' });
+  }
+});
+
+// Create printer
+router.post('/printers', authenticateToken, requireRole(['ADMIN']), async (req, res) => {
+  try {
+    const data = pickPrinterFields(req.body);
+
+    if (!data.name || !data.model || !data.buildVolumeX || !data.buildVolumeY || !data.buildVolumeZ ||
+        !data.supportedMaterials || !data.powerConsumption) {
+      return res.status(400).json({ error: 'Required fields missing' });
+    }
+
+    const validationError = validatePrinterFields(data);
+    if (validationError) {
+      return res.status(400).json({ error: validationError });
+    }
+
+    const printer = await printerService.createPrinter(data as any);
+    return res.status(201).json(printer);
+  } catch (error) {
+    console.error('Error creating printer:', error);
+    return res.status(500).json({ error: 'Failed to create printer' });
+  }
+});
+
+// Update printer
+router.patch('/printers/:id', authenticateToken, requireRole(['ADMIN', 'MANAGER']), async (req, res) => {
+  try {
+    const data = pickPrinterFields(req.body);
+
+    const validationError = validatePrinterFields(data);
+    if (validationError) {
+      return res.status(400).json({ error: validationError });
+    }
+
+    if (!(await printerService.getPrinter(req.params.id))) {
+      return res.status(404).json({ error: 'Printer not found' });
+    }
+
+    const printer = await printerService.updatePrinter(req.params.id, data);
+    return res.json(printer);
+  } catch (error) {
+    console.error('Error updating printer:', error);
+    return res.status(500).json({ error: 'Failed to update printer' });
+  }
+});
+
+// Delete printer (retired instead when it has print history)
+router.delete('/printers/:id', authenticateToken, requireRole(['ADMIN']), async (req, res) => {
+  try {
+    if (!(await printerService.getPrinter(req.params.id))) {
+      return res.status(404).json({ error: 'Printer not found' });
+    }
+
+    const { deleted, printer } = await printerService.deletePrinter(req.params.id);
+    return res.json({
+      message: deleted ? 'Printer deleted successfully' : 'Printer has print history and was retired',
+      printer,
+    });
+  } catch (error) {
+    console.error('Error deleting printer:', error);
+    return res.status(500).json({ error: 'Failed to delete printer' });
+  }
+});
+
+// Electricity tariff fields accepted from admin requests
+const TARIFF_FIELDS = [
+  'area',
+  'name',
+  'currency',
+  'hourlyGridRates',
+  'months',
+  'transmissionRate',
+  'electricityTax',
+  'vatRate',
+  'validFrom',
+  'validTo',
+  'isActive',
+] as const;
+
+const pickTariffFields = (body: any) =>
+  Object.fromEntries(TARIFF_FIELDS.filter(field => body[field] !== undefined).map(field => [field, body[field]]));
+
+const validateTariffFields = (data: any): string | null => {
+  if (data.currency !== undefined && !(typeof data.currency === 'string' && currencyService.isSupported(data.currency))) {
+    return `currency must be one of ${SUPPORTED_CURRENCIES.join(', ')}`;
+  }
+  if (data.hourlyGridRates !== undefined &&
+      !(Array.isArray(data.hourlyGridRates) && data.hourlyGridRates.length === 24 &&
+        data.hourlyGridRates.every((rate: any) => typeof rate === 'number' && rate >= 0))) {
+    return 'hourlyGridRates must be 24 non-negative numbers, one per hour';
+  }
+  if (data.months !== undefined &&
+      !(Array.isArray(data.months) && data.months.every((month: any) => Number.isInteger(month) && month >= 1 && month <= 12))) {
+    return 'months must be a list of month numbers 1-12';
+  }
+  for (const field of ['transmissionRate', 'electricityTax']) {
+    if (data[field] !== undefined && !(typeof data[field] === 'number' && data[field] >= 0)) {
+      return `${field} must be a non-negative number`;
+    }
+  }
+  if (data.vatRate !== undefined && !(typeof data.vatRate === 'number' && data.vatRate >= 0 && data.vatRate <= 100)) {
+    return 'vatRate must be between 0 and 100';
+  }
+  for (const field of ['validFrom', 'validTo']) {
+    if (data[field] !== undefined && data[field] !== null) {
+      if (isNaN(new Date(data[field]).getTime())) {
+        return `${field} must be a date`;
+      }
+      data[field] = new Date(data[field]);
+    }
+  }
+  return null;
+};
+
+// Shipping rate fields accepted from admin requests
+const SHIPPING_RATE_FIELDS = [
+  'method',
+  'name',
+  'maxWeight',
+  'price',
+  'isActive',
+] as const;
+
+const pickShippingRateFields = (body: any) =>
+  Object.fromEntries(SHIPPING_RATE_FIELDS.filter(field => body[field] !== undefined).map(field => [field, body[field]]));
+
+const validateShippingRateFields = (data: any): string | null => {
+  if (data.method !== undefined && !['PARCEL_SHOP', 'HOME_DELIVERY'].includes(data.method)) {
+    return 'method must be PARCEL_SHOP or HOME_DELIVERY'; // pickup is free
+  }
+  if (data.maxWeight !== undefined && !(Number.isInteger(data.maxWeight) && data.maxWeight > 0)) {
+    return 'maxWeight must be a positive whole number of grams';
+  }
+  if (data.price !== undefined && !(typeof data.price === 'number' && data.price >= 0)) {
+    return 'price must be a non-negative number';
+  }
+  return null;
+};
+
+// Organization fields accepted from admin requests
+const ORGANIZATION_FIELDS = [
+  'name',
+  'vatNumber',
+  'laborRatePerHour',
+  'materialMarkup',
+  'platformFeePercentage',
+  'minimumOrderValue',
+  'isActive',
+  'notes',
+] as const;
+
+const pickOrganizationFields = (body: any) =>
+  Object.fromEntries(ORGANIZATION_FIELDS.filter(field => body[field] !== undefined).map(field => [field, body[field]]));
+
+// VIES being unavailable leaves the number unvalidated; it can be checked again later
+const checkOrganizationVat = async (organizationId: string): Promise<void> => {
+  try {
+    await taxService.validateOrganizationVat(organizationId);
+  } catch (error) {
+    // Already logged by the tax service
+  }
+};
+
+// Rates may be null, meaning the price list's rate applies
+const validateOrganizationFields = (data: any): string | null => {
+  for (const field of ['laborRatePerHour', 'minimumOrderValue', 'materialMarkup', 'platformFeePercentage']) {
+    if (data[field] === undefined || data[field] === null) continue;
+    if (!(typeof data[field] === 'number' && data[field] >= 0)) {
+      return `${field} must be a non-negative number`;
+    }
+    if ((field === 'materialMarkup' || field === 'platformFeePercentage') && data[field] > 100) {
+      return `${field} must be between 0 and 100`;
+    }
+  }
+  return null;
+};
+
+// Promo code fields accepted from admin requests
+const PROMO_CODE_FIELDS = [
+  'code',
+  'description',
+  'discountType',
+  'value',
+  'firstOrderOnly',
+  'materialIds',
+  'minimumSpend',
+  'maxRedemptions',
+  'maxRedemptionsPerUser',
+  'validFrom',
+  'validTo',
+  'isActive',
+] as const;
+
+const pickPromoCodeFields = (body: any) =>
+  Object.fromEntries(PROMO_CODE_FIELDS.filter(field => body[field] !== undefined).map(field => [field, body[field]]));
+
+const validatePromoCodeFields = (data: any, discountType: string): string | null => {
+  if (data.code !== undefined && !(typeof data.code === 'string' && /^[A-Za-z0-9_-]{3,32}$/.test(data.code.trim()))) {
+    return 'code must be 3-32 letters, digits, dashes or underscores';
+  }
+  if (!['PERCENTAGE', 'FIXED_AMOUNT'].includes(discountType)) {
+    return 'discountType must be PERCENTAGE or FIXED_AMOUNT';
+  }
+  if (data.value !== undefined && !(typeof data.value === 'number' && data.value > 0)) {
+    return 'value must be a positive number';
+  }
+  if (discountType === 'PERCENTAGE' && data.value > 100) {
+    return 'A percentage discount cannot exceed 100';
+  }
+  if (data.materialIds !== undefined &&
+      !(Array.isArray(data.materialIds) && data.materialIds.every((id: any) => typeof id === 'string'))) {
+    return 'materialIds must be a list of material ids';
+  }
+  if (data.minimumSpend !== undefined && data.minimumSpend !== null &&
+      !(typeof data.minimumSpend === 'number' && data.minimumSpend >= 0)) {
+    return 'minimumSpend must be a non-negative number';
+  }
+  for (const field of ['maxRedemptions', 'maxRedemptionsPerUser']) {
+    if (data[field] !== undefined && data[field] !== null && !(Number.isInteger(data[field]) && data[field] > 0)) {
+      return `${field} must be a positive whole number`;
+    }
+  }
+  for (const field of ['validFrom', 'validTo']) {
+    if (data[field] !== undefined && data[field] !== null) {
+      if (isNaN(new Date(data[field]).getTime())) {
+        return `${field} must be a date`;
+      }
+      data[field] = new Date(data[field]);
+    }
+  }
+  if (data.validFrom && data.validTo && data.validFrom >= data.validTo) {
+    return 'validTo must be after validFrom';
+  }
+  return null;
+};
+
+// Get pricing settings versions, newest first
+router.get('/pricing/versions', authenticateToken, requireRole(['ADMIN', 'MANAGER']), async (req, res) => {
+  try {
+    const [versions, active] = await Promise.all([
+      pricingSettingsService.listVersions(),
+      pricingSettingsService.getActiveVersion(),
+    ]);
+    res.json({ versions, activeVersion: active.version });
+  } catch (error) {
+    console.error('Error fetching pricing versions:', error);
+    res.status(500).json({ error: 'Failed to fetch pricing versions' });
+  }
+});
+
+// Compare the settings of two pricing versions
+router.get('/pricing/versions/diff', authenticateToken, requireRole(['ADMIN', 'MANAGER']), async (req, res) => {
+  try {
+    const from = Number(req.query.from);
+    const to = Number(req.query.to);
+
+    if (!Number.isInteger(from) || !Number.isInteger(to)) {
+      return res.status(400).json({ error: 'from and to must be version numbers' });
+    }
+
+    const changes = await pricingSettingsService.diffVersions(from, to);
+    if (!changes) {
+      return res.status(404).json({ error: 'Pricing version not found' });
+    }
+
+    return res.json({ from, to, changes });
+  } catch (error) {
+    console.error('Error comparing pricing versions:', error);
+    return res.status(500).json({ error: 'Failed to compare pricing versions' });
+  }
+});
+
+// Get pricing version
+router.get('/pricing/versions/:version', authenticateToken, requireRole(['ADMIN', 'MANAGER']), async (req, res) => {
+  try {
+    const version = await pricingSettingsService.getVersion(Number(req.params.version));
+
+    if (!version) {
+      return res.status(404).json({ error: 'Pricing version not found' });
+    }
+
+    return res.json(version);
+  } catch (error) {
+    console.error('Error fetching pricing version:', error);
+    return res.status(500).json({ error: 'Failed to fetch pricing version' });
+  }
+});
+
+// Create pricing version from changed settings
+router.post('/pricing/versions', authenticateToken, requireRole(['ADMIN']), async (req: AuthRequest, res) => {
+  try {
+    const { settings, effectiveFrom, note } = req.body;
+
+    if (!settings || typeof settings !== 'object' || Object.keys(settings).length === 0) {
+      return res.status(400).json({ error: 'Settings are required' });
+    }
+
+    const validationError = pricingSettingsService.validateSettings(settings);
+    if (validationError) {
+      return res.status(400).json({ error: validationError });
+    }
+
+    if (effectiveFrom !== undefined && isNaN(new Date(effectiveFrom).getTime())) {
+      return res.status(400).json({ error: 'Invalid effectiveFrom date' });
+    }
+
+    const version = await pricingSettingsService.createVersion(settings, {
+      effectiveFrom: effectiveFrom !== undefined ? new Date(effectiveFrom) : undefined,
+      note,
+      userId: req.user!.id,
+    });
+    return res.status(201).json(version);
+  } catch (error) {
+    console.error('Error creating pricing version:', error);
+    return res.status(500).json({ error: 'Failed to create pricing version' });
+  }
+});
+
+// Roll back to an earlier pricing version (saved as a new version)
+router.post('/pricing/versions/:version/rollback', authenticateToken, requireRole(['ADMIN']), async (req: AuthRequest, res) => {
+  try {
+    const version = await pricingSettingsService.rollbackToVersion(Number(req.params.version), {
+      note: req.body.note,
+      userId: req.user!.id,
+    });
+
+    if (!version) {
+      return res.status(404).json({ error: 'Pricing version not found' });
+    }
+
+    return res.status(201).json(version);
+  } catch (error) {
+    console.error('Error rolling back pricing version:', error);
+    return res.status(500).json({ error: 'Failed to roll back pricing version' });
+  }
+});
+
+// Get electricity tariffs
+router.get('/electricity-tariffs', authenticateToken, requireRole(['ADMIN', 'MANAGER']), async (req, res) => {
+  try {
+    const tariffs = await electricityTariffService.getTariffs(req.query.area as string | undefined);
+    res.json(tariffs);
+  } catch (error) {
+    console.error('Error fetching electricity tariffs:', error);
+    res.status(500).json({ error: 'Failed to fetch electricity tariffs' });
+  }
+});
+
+// Create electricity tariff; stored prices from today are re-priced with it
+router.post('/electricity-tariffs', authenticateToken, requireRole(['ADMIN']), async (req, res) => {
+  try {
+    const data = pickTariffFields(req.body);
+
+    if (!data.area || !data.name || !data.hourlyGridRates || !data.validFrom) {
+      return res.status(400).json({ error: 'Required fields missing' });
+    }
+
+    const validationError = validateTariffFields(data);
+    if (validationError) {
+      return res.status(400).json({ error: validationError });
+    }
+    // Electricity is converted to DKK when orders are priced
+    if (data.currency && !(await currencyService.getRate(data.currency))) {
+      return res.status(400).json({ error: `Add an exchange rate for ${data.currency} before using it for a tariff` });
+    }
+
+    const tariff = await electricityTariffService.createTariff(data as any);
+    await electricityPriceService.reapplyTariffs(tariff.area);
+
+    return res.status(201).json(tariff);
+  } catch (error) {
+    console.error('Error creating electricity tariff:', error);
+    return res.status(500).json({ error: 'Failed to create electricity tariff' });
+  }
+});
+
+// Update electricity tariff
+router.patch('/electricity-tariffs/:id', authenticateToken, requireRole(['ADMIN']), async (req, res) => {
+  try {
+    const data = pickTariffFields(req.body);
+
+    const validationError = validateTariffFields(data);
+    if (validationError) {
+      return res.status(400).json({ error: validationError });
+    }
+    // Electricity is converted to DKK when orders are priced
+    if (data.currency && !(await currencyService.getRate(data.currency))) {
+      return res.status(400).json({ error: `Add an exchange rate for ${data.currency} before using it for a tariff` });
+    }
+
+    const existing = await electricityTariffService.getTariff(req.params.id);
+    if (!existing) {
+      return res.status(404).json({ error: 'Electricity tariff not found' });
+    }
+
+    const tariff = await electricityTariffService.updateTariff(req.params.id, data);
+    await electricityPriceService.reapplyTariffs(existing.area);
+    if (tariff.area !== existing.area) {
+      await electricityPriceService.reapplyTariffs(tariff.area);
+    }
+
+    return res.json(tariff);
+  } catch (error) {
+    console.error('Error updating electricity tariff:', error);
+    return res.status(500).json({ error: 'Failed to update electricity tariff' });
+  }
+});
+
+// Get exchange rates: the ones in force and the full history
+router.get('/exchange-rates', authenticateToken, requireRole(['ADMIN', 'MANAGER']), async (req, res) => {
+  try {
+    const [current, history] = await Promise.all([
+      currencyService.getCurrentRates(),
+      currencyService.getRateHistory(req.query.currency as string | undefined),
+    ]);
+    res.json({ current, history });
+  } catch (error) {
+    console.error('Error fetching exchange rates:', error);
+    res.status(500).json({ error: 'Failed to fetch exchange rates' });
+  }
+});
+
+// Set an exchange rate; orders already placed keep the rate they were priced at
+router.post('/exchange-rates', authenticateToken, requireRole(['ADMIN']), async (req: AuthRequest, res) => {
+  try {
+    const { currency, dkkPerUnit, effectiveFrom } = req.body;
+
+    const validationError = currencyService.validateRate(currency, dkkPerUnit);
+    if (validationError) {
+      return res.status(400).json({ error: validationError });
+    }
+
+    if (effectiveFrom !== undefined && isNaN(new Date(effectiveFrom).getTime())) {
+      return res.status(400).json({ error: 'Invalid effectiveFrom date' });
+    }
+
+    const rate = await currencyService.setRate({
+      currency,
+      dkkPerUnit,
+      effectiveFrom: effectiveFrom !== undefined ? new Date(effectiveFrom) : undefined,
+      createdById: req.user!.id,
+    });
+    return res.status(201).json(rate);
+  } catch (error) {
+    console.error('Error setting exchange rate:', error);
+    return res.status(500).json({ error: 'Failed to set exchange rate' });
+  }
+});
+
+// Import exchange rates from CSV sent as { csv }, or from the rates file on the server
+router.post('/exchange-rates/import', authenticateToken, requireRole(['ADMIN']), async (req: AuthRequest, res) => {
+  try {
+    const { csv } = req.body;
+
+    if (csv !== undefined && typeof csv !== 'string') {
+      return res.status(400).json({ error: 'csv must be the file contents as text' });
+    }
+
+    const result = csv !== undefined
+      ? await currencyService.importRates(csv, 'upload', req.user!.id)
+      : await currencyService.importRatesFile(req.user!.id);
+
+    if (result.imported.length === 0) {
+      return res.status(400).json({ error: result.errors.join('; ') || 'No exchange rates found' });
+    }
+
+    return res.status(201).json(result);
+  } catch (error) {
+    console.error('Error importing exchange rates:', error);
+    return res.status(500).json({ error: 'Failed to import exchange rates' });
+  }
+});
+
+// Get shipping rates, including inactive ones
+router.get('/shipping-rates', authenticateToken, requireRole(['ADMIN', 'MANAGER']), async (req, res) => {
+  try {
+    const rates = await shippingService.getRates(true);
+    res.json(rates);
+  } catch (error) {
+    console.error('Error fetching shipping rates:', error);
+    res.status(500).json({ error: 'Failed to fetch shipping rates' });
+  }
+});
+
+// Create shipping rate
+router.post('/shipping-rates', authenticateToken, requireRole(['ADMIN']), async (req, res) => {
+  try {
+    const data = pickShippingRateFields(req.body);
+
+    if (!data.method || !data.name || data.maxWeight === undefined || data.price === undefined) {
+      return res.status(400).json({ error: 'Required fields missing' });
+    }
+
+    const validationError = validateShippingRateFields(data);
+    if (validationError) {
+      return res.status(400).json({ error: validationError });
+    }
+
+    const rate = await shippingService.createRate(data as any);
+    return res.status(201).json(rate);
+  } catch (error) {
+    console.error('Error creating shipping rate:', error);
+    return res.status(500).json({ error: 'Failed to create shipping rate' });
+  }
+});
+
+// Update shipping rate; orders already placed keep what they were charged
+router.patch('/shipping-rates/:id', authenticateToken, requireRole(['ADMIN']), async (req, res) => {
+  try {
+    const data = pickShippingRateFields(req.body);
+
+    const validationError = validateShippingRateFields(data);
+    if (validationError) {
+      return res.status(400).json({ error: validationError });
+    }
+
+    const existing = await shippingService.getRate(req.params.id);
+    if (!existing) {
+      return res.status(404).json({ error: 'Shipping rate not found' });
+    }
+
+    const rate = await shippingService.updateRate(req.params.id, data);
+    return res.json(rate);
+  } catch (error) {
+    console.error('Error updating shipping rate:', error);
+    return res.status(500).json({ error: 'Failed to update shipping rate' });
+  }
+});
+
+// Get organizations
+router.get('/organizations', authenticateToken, requireRole(['ADMIN', 'MANAGER']), async (req, res) => {
+  try {
+    const organizations = await organizationService.getOrganizations(req.query.includeInactive === 'true');
+    res.json(organizations);
+  } catch (error) {
+    console.error('Error fetching organizations:', error);
+    res.status(500).json({ error: 'Failed to fetch organizations' });
+  }
+});
+
+// Get organization with its members
+router.get('/organizations/:id', authenticateToken, requireRole(['ADMIN', 'MANAGER']), async (req, res) => {
+  try {
+    const organization = await organizationService.getOrganization(req.params.id);
+    if (!organization) {
+      return res.status(404).json({ error: 'Organization not found' });
+    }
+    return res.json(organization);
+  } catch (error) {
+    console.error('Error fetching organization:', error);
+    return res.status(500).json({ error: 'Failed to fetch organization' });
+  }
+});
+
+// Create organization
+router.post('/organizations', authenticateToken, requireRole(['ADMIN']), async (req, res) => {
+  try {
+    const data = pickOrganizationFields(req.body);
+
+    if (!data.name) {
+      return res.status(400).json({ error: 'Organization name is required' });
+    }
+
+    const validationError = validateOrganizationFields(data);
+    if (validationError) {
+      return res.status(400).json({ error: validationError });
+    }
+
+    const organization = await organizationService.createOrganization(data as any);
+    if (organization.vatNumber) {
+      await checkOrganizationVat(organization.id);
+    }
+    return res.status(201).json(await organizationService.getOrganization(organization.id));
+  } catch (error) {
+    console.error('Error creating organization:', error);
+    return res.status(500).json({ error: 'Failed to create organization' });
+  }
+});
+
+// Update organization, including its negotiated rates
+router.patch('/organizations/:id', authenticateToken, requireRole(['ADMIN']), async (req, res) => {
+  try {
+    const data = pickOrganizationFields(req.body);
+
+    const validationError = validateOrganizationFields(data);
+    if (validationError) {
+      return res.status(400).json({ error: validationError });
+    }
+
+    const existing = await organizationService.getOrganization(req.params.id);
+    if (!existing) {
+      return res.status(404).json({ error: 'Organization not found' });
+    }
+
+    // A new VAT number has to be validated before it grants the reverse charge
+    const vatNumberChanged = data.vatNumber !== undefined && data.vatNumber !== existing.vatNumber;
+    const organization = await organizationService.updateOrganization(req.params.id, {
+      ...data,
+      ...(vatNumberChanged && { vatNumberValidatedAt: null }),
+    });
+    if (vatNumberChanged && organization.vatNumber) {
+      await checkOrganizationVat(organization.id);
+    }
+    return res.json(await organizationService.getOrganization(organization.id));
+  } catch (error) {
+    console.error('Error updating organization:', error);
+    return res.status(500).json({ error: 'Failed to update organization' });
+  }
+});
+
+// Check the organization's VAT number in VIES again
+router.post('/organizations/:id/vat-validation', authenticateToken, requireRole(['ADMIN']), async (req, res) => {
+  try {
+    const organization = await organizationService.getOrganization(req.params.id);
+    if (!organization) {
+      return res.status(404).json({ error: 'Organization not found' });
+    }
+    if (!organization.vatNumber) {
+      return res.status(400).json({ error: 'Organization has no VAT number' });
+    }
+
+    const valid = await taxService.validateOrganizationVat(organization.id);
+    return res.json({ vatNumber: organization.vatNumber, valid });
+  } catch (error) {
+    console.error('Error validating VAT number:', error);
+    return res.status(502).json({ error: 'VAT number could not be checked, try again later' });
+  }
+});
+
+// Add a user to an organization; a user in another organization is moved
+router.put('/organizations/:id/members/:userId', authenticateToken, requireRole(['ADMIN']), async (req, res) => {
+  try {
+    const [organization, user] = await Promise.all([
+      organizationService.getOrganization(req.params.id),
+      prisma.user.findUnique({ where: { id: req.params.userId } }),
+    ]);
+    if (!organization || !user) {
+      return res.status(404).json({ error: 'Organization or user not found' });
+    }
+
+    await organizationService.setMembership(user.id, organization.id);
+    return res.json({ message: 'User added to organization' });
+  } catch (error) {
+    console.error('Error adding organization member:', error);
+    return res.status(500).json({ error: 'Failed to add organization member' });
+  }
+});
+
+// Remove a user from an organization
+router.delete('/organizations/:id/members/:userId', authenticateToken, requireRole(['ADMIN']), async (req, res) => {
+  try {
+    const user = await prisma.user.findUnique({ where: { id: req.params.userId } });
+    if (!user || user.organizationId !== req.params.id) {
+      return res.status(404).json({ error: 'User is not a member of this organization' });
+    }
+
+    await organizationService.setMembership(user.id, null);
+    return res.json({ message: 'User removed from organization' });
+  } catch (error) {
+    console.error('Error removing organization member:', error);
+    return res.status(500).json({ error: 'Failed to remove organization member' });
+  }
+});
+
+// Get promo codes with how often each has been redeemed
+router.get('/promo-codes', authenticateToken, requireRole(['ADMIN', 'MANAGER']), async (req, res) => {
+  try {
+    const promoCodes = await promoCodeService.getPromoCodes();
+    res.json(promoCodes);
+  } catch (error) {
+    console.error('Error fetching promo codes:', error);
+    res.status(500).json({ error: 'Failed to fetch promo codes' });
+  }
+});
+
+// Get promo code with the orders that redeemed it
+router.get('/promo-codes/:id', authenticateToken, requireRole(['ADMIN', 'MANAGER']), async (req, res) => {
+  try {
+    const promoCode = await promoCodeService.getPromoCode(req.params.id);
+    if (!promoCode) {
+      return res.status(404).json({ error: 'Promo code not found' });
+    }
+    const redemptions = await promoCodeService.getRedemptions(promoCode.id);
+    return res.json({ ...promoCode, redemptions });
+  } catch (error) {
+    console.error('Error fetching promo code:', error);
+    return res.status(500).json({ error: 'Failed to fetch promo code' });
+  }
+});
+
+// Create promo code
+router.post('/promo-codes', authenticateToken, requireRole(['ADMIN']), async (req, res) => {
+  try {
+    const data = pickPromoCodeFields(req.body);
+
+    if (!data.code || data.value === undefined || !data.discountType) {
+      return res.status(400).json({ error: 'code, discountType and value are required' });
+    }
+
+    const validationError = validatePromoCodeFields(data, data.discountType);
+    if (validationError) {
+      return res.status(400).json({ error: validationError });
+    }
+
+    if (await promoCodeService.getPromoCodeByCode(data.code)) {
+      return res.status(409).json({ error: 'A promo code with this code already exists' });
+    }
+
+    const promoCode = await promoCodeService.createPromoCode(data as any);
+    return res.status(201).json(promoCode);
+  } catch (error) {
+    console.error('Error creating promo code:', error);
+    return res.status(500).json({ error: 'Failed to create promo code' });
+  }
+});
+
+// Update promo code; deactivate it rather than delete, so past orders keep their code
+router.patch('/promo-codes/:id', authenticateToken, requireRole(['ADMIN']), async (req, res) => {
+  try {
+    const existing = await promoCodeService.getPromoCode(req.params.id);
+    if (!existing) {
+      return res.status(404).json({ error: 'Promo code not found' });
+    }
+
+    const data = pickPromoCodeFields(req.body);
+    // The fields sent must be valid, and so must the code they leave behind: switching a
+    // 500 DKK code to PERCENTAGE without a new value would otherwise save a 500% discount
+    const discountType = data.discountType ?? existing.discountType;
+    const validationError = validatePromoCodeFields(data, discountType)
+      || validatePromoCodeFields({ ...existing, ...data }, discountType);
+    if (validationError) {
+      return res.status(400).json({ error: validationError });
+    }
+    if (data.code) {
+      const clash = await promoCodeService.getPromoCodeByCode(data.code);
+      if (clash && clash.id !== existing.id) {
+        return res.status(409).json({ error: 'A promo code with this code already exists' });
+      }
+    }
+
+    const promoCode = await promoCodeService.updatePromoCode(req.params.id, data);
+    return res.json(promoCode);
+  } catch (error) {
+    console.error('Error updating promo code:', error);
+    return res.status(500).json({ error: 'Failed to update promo code' });
+  }
+});
+
 // Get user management data
 router.get('/users', authenticateToken, requireRole(['ADMIN']), async (req, res) => {
   try {
@@ -358,6 +1410,7 @@ router.get('/users', authenticateToken, requireRole(['ADMIN']), async (req, res)
           role: true,
           isActive: true,
           createdAt: true,
+          organization: { select: { id: true, name: true } },
           _count: {
             select: {
               orders: true,
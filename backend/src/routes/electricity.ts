@@ -1,6 +1,7 @@
 import express from 'express';
 import { PrismaClient } from '@prisma/client';
 import { authenticateToken, requireAdmin, AuthRequest } from '../middleware/auth';
+import electricityPriceService from '../services/electricityPriceService';
 
 const router = express.Router();
 const prisma = new PrismaClient();
@@ -8,7 +9,7 @@ const prisma = new PrismaClient();
 // Get current electricity prices
 router.get('/prices', async (req, res) => {
   try {
-    const { date, area = 'DK1' } = req.query;
+    const { date, area = electricityPriceService.getDefaultArea() } = req.query;
     
     const targetDate = date ? new Date(date as string) : new Date();
     targetDate.setHours(0, 0, 0, 0);
@@ -21,7 +22,7 @@ router.get('/prices', async (req, res) => {
         },
         area: area as string,
       },
-      orderBy: { hour: 'asc' },
+      orderBy: { timestamp: 'asc' },
     });
 
     res.json({ prices });
@@ -34,18 +35,17 @@ router.get('/prices', async (req, res) => {
 // Get current electricity price
 router.get('/current', async (req, res) => {
   try {
+    const area = (req.query.area as string) || electricityPriceService.getDefaultArea();
     const now = new Date();
     const currentHour = now.getHours();
 
-    const price = await prisma.electricityPrice.findFirst({
+    const price = await prisma.electricityPrice.findUnique({
       where: {
-        date: {
-          gte: new Date(now.getFullYear(), now.getMonth(), now.getDate()),
-          lt: new Date(now.getFullYear(), now.getMonth(), now.getDate() + 1),
+        timestamp_area: {
+          timestamp: new Date(Math.floor(now.getTime() / (60 * 60 * 1000)) * 60 * 60 * 1000),
+          area,
         },
-        hour: currentHour,
       },
-      orderBy: { createdAt: 'desc' },
     });
 
     if (!price) {
@@ -60,7 +60,7 @@ router.get('/current', async (req, res) => {
         price: defaultPrice,
         hour: currentHour,
         date: now.toISOString().split('T')[0],
-        area: 'DK1',
+        area,
         isDefault: true,
       });
       return;
@@ -71,6 +71,11 @@ router.get('/current', async (req, res) => {
       hour: price.hour,
       date: price.date.toISOString().split('T')[0],
       area: price.area,
+      currency: price.currency,
+      spotPrice: price.spotPrice,
+      gridTariff: price.gridTariff,
+      taxes: price.taxes,
+      vat: price.vat,
       isDefault: false,
     });
   } catch (error) {
@@ -79,6 +84,55 @@ router.get('/current', async (req, res) => {
   }
 });
 
+// Get the hourly day-ahead price curve for a delivery day
+router.get('/day-ahead', async (req, res) => {
+  try {
+    const { date, area } = req.query;
+
+    const targetDate = date ? new Date(date as string) : new Date();
+    if (isNaN(targetDate.getTime())) {
+      return res.status(400).json({ error: 'Invalid date' });
+    }
+
+    const prices = await electricityPriceService.getDayAheadCurve(targetDate, area as string | undefined);
+
+    return res.json({ prices });
+  } catch (error) {
+    console.error('Get day-ahead prices error:', error);
+    return res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Find the cheapest time to run a job of a given length and power draw
+router.get('/cheapest-window', async (req, res) => {
+  try {
+    const { durationHours, powerWatts = 200, earliestStart, latestEnd, area } = req.query;
+
+    const duration = Number(durationHours);
+    const power = Number(powerWatts);
+    if (!(duration > 0) || !(power > 0)) {
+      return res.status(400).json({ error: 'durationHours and powerWatts must be positive numbers' });
+    }
+
+    const start = earliestStart ? new Date(earliestStart as string) : new Date();
+    const end = latestEnd ? new Date(latestEnd as string) : undefined;
+    if (isNaN(start.getTime()) || (end && isNaN(end.getTime()))) {
+      return res.status(400).json({ error: 'Invalid earliestStart or latestEnd' });
+    }
+
+    const result = await electricityPriceService.findCheapestWindow(duration, power, start, end, area as string | undefined);
+
+    if (!result) {
+      return res.status(404).json({ error: 'No day-ahead prices cover a window of that length' });
+    }
+
+    return res.json(result);
+  } catch (error) {
+    console.error('Find cheapest window error:', error);
+    return res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
 // Update electricity prices (Admin only)
 router.post('/prices', authenticateToken, requireAdmin, async (req: AuthRequest, res) => {
   try {
@@ -91,20 +145,23 @@ router.post('/prices', authenticateToken, requireAdmin, async (req: AuthRequest,
     const createdPrices = [];
 
     for (const priceData of prices) {
-      const { date, hour, price, area = 'DK1' } = priceData;
+      const { date, hour, price, area = electricityPriceService.getDefaultArea() } = priceData;
+      const day = new Date(date);
+      day.setHours(0, 0, 0, 0);
+      const timestamp = new Date(day.getFullYear(), day.getMonth(), day.getDate(), hour);
 
       const priceRecord = await prisma.electricityPrice.upsert({
         where: {
-          date_hour_area: {
-            date: new Date(date),
-            hour,
+          timestamp_area: {
+            timestamp,
             area,
           },
         },
         update: { price },
         create: {
-          date: new Date(date),
+          date: day,
           hour,
+          timestamp,
           price,
           area,
         },
@@ -113,20 +170,20 @@ router.post('/prices', authenticateToken, requireAdmin, async (req: AuthRequest,
       createdPrices.push(priceRecord);
     }
 
-    res.json({
+    return res.json({
       message: 'Electricity prices updated successfully',
       prices: createdPrices,
     });
   } catch (error) {
     console.error('Update electricity prices error:', error);
-    res.status(500).json({ error: 'Internal server error' });
+    return res.status(500).json({ error: 'Internal server error' });
   }
 });
 
 // Get electricity price history
 router.get('/history', async (req, res) => {
   try {
-    const { days = 7, area = 'DK1' } = req.query;
+    const { days = 7, area = electricityPriceService.getDefaultArea() } = req.query;
     
     const startDate = new Date();
     startDate.setDate(startDate.getDate() - Number(days));
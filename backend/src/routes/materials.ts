@@ -96,6 +96,7 @@ router.post('/', authenticateToken, requireAdmin, async (req: AuthRequest, res)
       bedTempMax,
       printSpeed,
       shrinkageFactor,
+      overhangAngle,
     } = req.body;
 
     // Validate required fields
@@ -115,6 +116,7 @@ router.post('/', authenticateToken, requireAdmin, async (req: AuthRequest, res)
         bedTempMax,
         printSpeed,
         shrinkageFactor,
+        overhangAngle,
       },
     });
 
@@ -1,6 +1,19 @@
 import express from 'express';
-import { PrismaClient, OrderStatus } from '@prisma/client';
+import { PrismaClient, OrderStatus, Prisma, ShippingMethod } from '@prisma/client';
 import { authenticateToken, AuthRequest } from '../middleware/auth';
+import pricingService from '../services/pricingService';
+import quoteService from '../services/quoteService';
+import promoCodeService from '../services/promoCodeService';
+import currencyService from '../services/currencyService';
+import paymentService from '../services/paymentService';
+import invoiceService from '../services/invoiceService';
+import organizationService from '../services/organizationService';
+import taxService from '../services/taxService';
+import shippingService from '../services/shippingService';
+import orderProcessingService from '../services/orderProcessingService';
+import { createInvoicePdf } from '../utils/invoicePdf';
+import { roundToOre } from '../utils/pricingEngine';
+import { getTransitionError, StatusActor } from '../utils/orderStateMachine';
 
 const router = express.Router();
 const prisma = new PrismaClient();
@@ -76,10 +89,10 @@ router.get('/:id', authenticateToken, async (req: AuthRequest, res) => {
       return res.status(404).json({ error: 'Order not found' });
     }
 
-    res.json({ order });
+    return res.json({ order });
   } catch (error) {
     console.error('Get order error:', error);
-    res.status(500).json({ error: 'Internal server error' });
+    return res.status(500).json({ error: 'Internal server error' });
   }
 });
 
@@ -91,114 +104,385 @@ router.post('/', authenticateToken, async (req: AuthRequest, res) => {
       items,
       shippingAddressId,
       notes,
+      dueDate,
+      promoCode,
+      currency = 'DKK',
+      shippingMethod = shippingAddressId ? 'HOME_DELIVERY' : 'PICKUP',
+      parcelShopId,
     } = req.body;
 
     if (!items || !Array.isArray(items) || items.length === 0) {
       return res.status(400).json({ error: 'Order items are required' });
     }
 
+    if (dueDate !== undefined && isNaN(new Date(dueDate).getTime())) {
+      return res.status(400).json({ error: 'Invalid due date' });
+    }
+
+    if (!Object.values(ShippingMethod).includes(shippingMethod)) {
+      return res.status(400).json({ error: 'Invalid shipping method' });
+    }
+
+    // VAT follows the shipping country and whether the customer is a VAT-registered business;
+    // collected orders are sold where the workshop is
+    const shippingAddress = shippingAddressId
+      ? await prisma.address.findFirst({ where: { id: shippingAddressId, userId } })
+      : null;
+    if (shippingAddressId && !shippingAddress) {
+      return res.status(400).json({ error: 'Shipping address not found' });
+    }
+    if (shippingMethod !== 'PICKUP' && !shippingAddress) {
+      return res.status(400).json({ error: 'A shipping address is required for delivery' });
+    }
+    const vat = taxService.determineVat(
+      shippingMethod === 'PICKUP' ? null : shippingAddress!.country,
+      await organizationService.getOrganizationForUser(userId)
+    );
+    if (!vat) {
+      return res.status(400).json({ error: 'Shipping country not recognised; use its two-letter ISO code' });
+    }
+
+    // Every amount on the order is in the currency the customer chose, converted at today's rate
+    const exchangeRate = await currencyService.getRate(currency);
+    if (!exchangeRate) {
+      return res.status(400).json({ error: `Prices are not available in ${currency}` });
+    }
+
     // Generate order number
     const orderNumber = `3DP-${Date.now()}-${Math.random().toString(36).substr(2, 9).toUpperCase()}`;
 
     // Calculate totals
     let subtotal = 0;
-    const orderItems = [];
+    let materialGrams = 0;
+    const orderItems: Prisma.OrderItemUncheckedCreateWithoutOrderInput[] = [];
 
     for (const item of items) {
-      const { stlFileId, materialId, quantity, layerHeight, infillPercent, printQuality, supportRequired } = item;
-
-      // Get pricing for this item
-      const pricingResponse = await fetch(`${req.protocol}://${req.get('host')}/api/pricing/calculate`, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          volume: item.volume,
-          materialId,
-          layerHeight,
-          infillPercent,
-          printQuality,
-        }),
-      });
+      const { stlFileId, materialId, color, quantity = 1, layerHeight, infillPercent, printQuality, supportRequired, flexibleStart, quoteId } = item;
 
-      if (!pricingResponse.ok) {
-        return res.status(400).json({ error: 'Failed to calculate pricing for item' });
+      const printSettings = {
+        layerHeight,
+        infillPercentage: infillPercent,
+        printQuality,
+        flexibleStart,
+      };
+
+      let pricing;
+      if (quoteId) {
+        // A quote holds the price the customer accepted, as long as it is still valid
+        const quote = await quoteService.getQuote(quoteId);
+        if (!quote) {
+          return res.status(400).json({ error: 'Quote not found' });
+        }
+        const quoteError = quoteService.checkQuote(quote, { userId, stlFileId, materialId, quantity, currency, printSettings });
+        if (quoteError) {
+          return res.status(400).json({ error: quoteError });
+        }
+        pricing = quoteService.getCalculation(quote);
+      } else {
+        // Same calculation the pricing preview runs, so the stored costs match what the customer saw
+        pricing = await pricingService.calculateOrderPricing(stlFileId, materialId, printSettings, quantity, userId, currency)
+          .catch(() => null); // already logged
+        if (!pricing) {
+          return res.status(400).json({ error: 'Failed to calculate pricing for item' });
+        }
       }
 
-      const { pricing } = await pricingResponse.json();
-
-      const itemTotal = pricing.totalCost * quantity;
-      subtotal += itemTotal;
+      subtotal += pricing.totalCost;
+      materialGrams += pricing.breakdown.material.usage;
 
       orderItems.push({
         stlFileId,
         materialId,
+        color,
         quantity,
         layerHeight,
         infillPercent,
         printQuality,
         supportRequired,
         materialCost: pricing.materialCost,
-        timeCost: pricing.timeCost,
+        timeCost: 0, // print time is charged as labour
         electricityCost: pricing.electricityCost,
-        laborCost: pricing.laborMarkup,
+        laborCost: pricing.laborCost,
+        discount: pricing.discount,
         platformFee: pricing.platformFee,
-        totalCost: itemTotal,
+        totalCost: pricing.totalCost,
+        pricingVersionId: pricing.pricingVersion.id,
+        quoteId,
       });
     }
 
-    const taxAmount = subtotal * 0.25; // 25% VAT
-    const totalAmount = subtotal + taxAmount;
+    // Shipping is priced by parcel weight and taxed like the goods
+    const shipping = (await shippingService.getOptions(materialGrams, exchangeRate.dkkPerUnit))
+      .find(option => option.method === shippingMethod);
+    if (!shipping) {
+      return res.status(400).json({ error: 'Shipping method is not available for this order\'s weight' });
+    }
+
+    let parcelShop = null;
+    if (shippingMethod === 'PARCEL_SHOP') {
+      if (!parcelShopId) {
+        return res.status(400).json({ error: 'Choose a parcel shop' });
+      }
+      const parcelShops = await shippingService.findParcelShops(shippingAddress!.postalCode, vat.country)
+        .catch(() => []); // already logged
+      parcelShop = parcelShops.find(shop => shop.id === parcelShopId);
+      if (!parcelShop) {
+        return res.status(400).json({ error: 'Parcel shop not found near the shipping address' });
+      }
+    }
 
-    // Create order
-    const order = await prisma.order.create({
-      data: {
-        orderNumber,
-        userId,
-        subtotal,
-        taxAmount,
-        totalAmount,
-        shippingAddressId,
-        notes,
-        items: {
-          create: orderItems,
+    // The promo code's redemption limits are checked in the transaction that inserts
+    // the order, so concurrent checkouts cannot all take its last use
+    const placed = await promoCodeService.checkout(async tx => {
+      // A promo code comes off the items' total, before VAT
+      let promoCodeId: string | undefined;
+      let discountAmount = 0;
+      if (promoCode) {
+        const promo = await promoCodeService.evaluatePromoCode(String(promoCode), {
+          userId,
+          dkkPerUnit: exchangeRate.dkkPerUnit,
+          items: orderItems,
+        }, new Date(), tx);
+        if (promo.error) {
+          return { error: promo.error };
+        }
+        promoCodeId = promo.promoCode!.id;
+        discountAmount = promo.discount;
+      }
+
+      const discountedSubtotal = roundToOre(subtotal - discountAmount);
+      const taxAmount = roundToOre((discountedSubtotal + shipping.price) * (vat.rate / 100));
+      const totalAmount = roundToOre(discountedSubtotal + shipping.price + taxAmount);
+
+      const order = await tx.order.create({
+        data: {
+          orderNumber,
+          userId,
+          subtotal: discountedSubtotal,
+          discountAmount,
+          promoCodeId,
+          taxAmount,
+          vatRate: vat.rate,
+          vatRule: vat.rule,
+          vatCountry: vat.country,
+          customerVatNumber: vat.vatNumber,
+          totalAmount,
+          currency,
+          exchangeRate: exchangeRate.dkkPerUnit,
+          exchangeRateId: exchangeRate.id,
+          shippingAddressId,
+          shippingMethod,
+          shippingCost: shipping.price,
+          shippingWeight: shippingService.getParcelWeight(materialGrams),
+          ...(parcelShop && { parcelShop: parcelShop as unknown as Prisma.InputJsonValue }),
+          notes,
+          ...(dueDate !== undefined && { dueDate: new Date(dueDate) }),
+          items: {
+            create: orderItems,
+          },
+          statusHistory: {
+            create: { toStatus: OrderStatus.PENDING_PAYMENT, actorId: userId, actorRole: req.user!.role },
+          },
         },
-      },
-      include: {
-        items: {
-          include: {
-            stlFile: true,
-            material: true,
+        include: {
+          items: {
+            include: {
+              stlFile: true,
+              material: true,
+            },
           },
+          shippingAddress: true,
         },
-        shippingAddress: true,
-      },
+      });
+      return { order };
     });
 
-    res.status(201).json({
+    if ('error' in placed) {
+      return res.status(400).json({ error: placed.error });
+    }
+    const { order } = placed;
+
+    return res.status(201).json({
       message: 'Order created successfully',
       order,
     });
   } catch (error) {
     console.error('Create order error:', error);
-    res.status(500).json({ error: 'Internal server error' });
+    return res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Start checkout: returns the PaymentIntent client secret for Stripe Elements
+router.post('/:id/payment-intent', authenticateToken, async (req: AuthRequest, res) => {
+  try {
+    const { id } = req.params;
+    const userId = req.user!.id;
+
+    const order = await prisma.order.findFirst({
+      where: { id, userId, status: OrderStatus.PENDING_PAYMENT },
+    });
+
+    if (!order) {
+      return res.status(404).json({ error: 'Order not found or not awaiting payment' });
+    }
+
+    const payment = await paymentService.createPaymentIntent(id, userId);
+    return res.status(201).json({ payment });
+  } catch (error) {
+    console.error('Create payment intent error:', error);
+    return res.status(502).json({ error: 'Failed to start payment' });
+  }
+});
+
+// Confirm the open PaymentIntent with a payment method
+router.post('/:id/payment/confirm', authenticateToken, async (req: AuthRequest, res) => {
+  try {
+    const { id } = req.params;
+    const userId = req.user!.id;
+    const { paymentMethodId } = req.body;
+
+    if (!paymentMethodId || typeof paymentMethodId !== 'string') {
+      return res.status(400).json({ error: 'paymentMethodId is required' });
+    }
+
+    const order = await prisma.order.findFirst({
+      where: { id, userId },
+      include: { payments: { where: { status: { in: ['PENDING', 'PROCESSING'] } } } },
+    });
+
+    if (!order || order.payments.length === 0) {
+      return res.status(404).json({ error: 'No open payment for this order' });
+    }
+
+    const payment = await paymentService.confirmPayment(id, userId, paymentMethodId);
+    return res.json({ payment });
+  } catch (error: any) {
+    console.error('Confirm payment error:', error);
+    // Declines come back from Stripe as card errors the customer should see
+    if (error?.type === 'StripeCardError') {
+      return res.status(402).json({ error: error.message });
+    }
+    return res.status(502).json({ error: 'Failed to confirm payment' });
+  }
+});
+
+// Where the parcel is, from the carrier
+router.get('/:id/tracking', authenticateToken, async (req: AuthRequest, res) => {
+  try {
+    const { id } = req.params;
+    const userId = req.user!.id;
+
+    const order = await prisma.order.findFirst({ where: { id, userId } });
+    if (!order) {
+      return res.status(404).json({ error: 'Order not found' });
+    }
+    if (!order.trackingNumber) {
+      return res.status(404).json({ error: 'Order has not been shipped' });
+    }
+
+    const tracking = await shippingService.getTracking(order);
+    return res.json({ carrier: order.carrier, trackingUrl: order.trackingUrl, ...tracking });
+  } catch (error) {
+    console.error('Get tracking error:', error);
+    return res.status(502).json({ error: 'Failed to fetch tracking from the carrier' });
+  }
+});
+
+// Get the order's invoice and credit notes
+router.get('/:id/invoices', authenticateToken, async (req: AuthRequest, res) => {
+  try {
+    const { id } = req.params;
+    const userId = req.user!.id;
+
+    const order = await prisma.order.findFirst({ where: { id, userId } });
+    if (!order) {
+      return res.status(404).json({ error: 'Order not found' });
+    }
+
+    const invoices = await invoiceService.getInvoicesForOrder(id);
+    return res.json({
+      invoices: invoices.map(invoice => ({ ...invoice, displayNumber: invoiceService.formatNumber(invoice) })),
+    });
+  } catch (error) {
+    console.error('Get invoices error:', error);
+    return res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Download an invoice or credit note as PDF
+router.get('/:id/invoices/:invoiceId/pdf', authenticateToken, async (req: AuthRequest, res) => {
+  try {
+    const { id, invoiceId } = req.params;
+    const userId = req.user!.id;
+
+    const invoice = await invoiceService.getInvoice(invoiceId);
+    if (!invoice || invoice.orderId !== id || invoice.order.userId !== userId) {
+      return res.status(404).json({ error: 'Invoice not found' });
+    }
+
+    res.setHeader('Content-Type', 'application/pdf');
+    res.setHeader('Content-Disposition', `attachment; filename="${invoiceService.formatNumber(invoice)}.pdf"`);
+    return createInvoicePdf(invoiceService.toDocument(invoice)).pipe(res);
+  } catch (error) {
+    console.error('Download invoice error:', error);
+    return res.status(500).json({ error: 'Internal server error' });
   }
 });
 
-// Update order status (for admin/operator)
+// The order's status changes, oldest first, for the customer dashboard
+router.get('/:id/timeline', authenticateToken, async (req: AuthRequest, res) => {
+  try {
+    const { id } = req.params;
+    const userId = req.user!.id;
+
+    const order = await prisma.order.findFirst({ where: { id, userId }, select: { id: true, status: true } });
+    if (!order) {
+      return res.status(404).json({ error: 'Order not found' });
+    }
+
+    // Which member of staff made a change stays internal; the role is enough here
+    const timeline = await prisma.orderStatusHistory.findMany({
+      where: { orderId: id },
+      select: { fromStatus: true, toStatus: true, actorRole: true, note: true, createdAt: true },
+      orderBy: { createdAt: 'asc' },
+    });
+
+    return res.json({ status: order.status, timeline });
+  } catch (error) {
+    console.error('Get order timeline error:', error);
+    return res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Update order status; the order state machine decides which moves the user's role may make
 router.put('/:id/status', authenticateToken, async (req: AuthRequest, res) => {
   try {
     const { id } = req.params;
-    const { status } = req.body;
+    const { status, notes } = req.body;
+    const { id: userId, role } = req.user!;
 
     if (!Object.values(OrderStatus).includes(status)) {
       return res.status(400).json({ error: 'Invalid status' });
     }
 
-    const order = await prisma.order.update({
+    // Customers only see their own orders
+    const existing = await prisma.order.findFirst({
+      where: { id, ...(role === 'CUSTOMER' && { userId }) },
+      select: { status: true },
+    });
+    if (!existing) {
+      return res.status(404).json({ error: 'Order not found' });
+    }
+
+    const transitionError = getTransitionError(existing.status, status, role);
+    if (transitionError) {
+      return res.status(transitionError.status).json({ error: transitionError.error });
+    }
+
+    await orderProcessingService.updateOrderStatus(id, status, notes, { id: userId, role });
+
+    const order = await prisma.order.findUnique({
       where: { id },
-      data: { status },
       include: {
         items: {
           include: {
@@ -210,13 +494,13 @@ router.put('/:id/status', authenticateToken, async (req: AuthRequest, res) => {
       },
     });
 
-    res.json({
+    return res.json({
       message: 'Order status updated successfully',
       order,
     });
   } catch (error) {
     console.error('Update order status error:', error);
-    res.status(500).json({ error: 'Internal server error' });
+    return res.status(500).json({ error: 'Internal server error' });
   }
 });
 
@@ -226,32 +510,27 @@ router.put('/:id/cancel', authenticateToken, async (req: AuthRequest, res) => {
     const { id } = req.params;
     const userId = req.user!.id;
 
-    const order = await prisma.order.findFirst({
-      where: {
-        id,
-        userId,
-        status: {
-          in: [OrderStatus.PENDING_PAYMENT, OrderStatus.PAYMENT_CONFIRMED],
-        },
-      },
-    });
-
+    const order = await prisma.order.findFirst({ where: { id, userId } });
     if (!order) {
-      return res.status(404).json({ error: 'Order not found or cannot be cancelled' });
+      return res.status(404).json({ error: 'Order not found' });
     }
 
-    const updatedOrder = await prisma.order.update({
-      where: { id },
-      data: { status: OrderStatus.CANCELLED },
-    });
+    // Cancelling your own order is a customer's move, whatever else the user may do
+    const actor: StatusActor = { id: userId, role: 'CUSTOMER' };
+    const transitionError = getTransitionError(order.status, OrderStatus.CANCELLED, actor.role);
+    if (transitionError) {
+      return res.status(400).json({ error: `Order cannot be cancelled while ${order.status}` });
+    }
 
-    res.json({
+    const updatedOrder = await orderProcessingService.updateOrderStatus(id, OrderStatus.CANCELLED, undefined, actor);
+
+    return res.json({
       message: 'Order cancelled successfully',
       order: updatedOrder,
     });
   } catch (error) {
     console.error('Cancel order error:', error);
-    res.status(500).json({ error: 'Internal server error' });
+    return res.status(500).json({ error: 'Internal server error' });
   }
 });
 
@@ -1,72 +1,121 @@
 import express from 'express';
 import { PrismaClient } from '@prisma/client';
 import pricingService from '../services/pricingService';
-import { authenticateToken } from '../middleware/auth';
+import quoteService from '../services/quoteService';
+import currencyService from '../services/currencyService';
+import electricityPriceService from '../services/electricityPriceService';
+import { optionalAuth, AuthRequest } from '../middleware/auth';
+import type { PricingRequest, VolumePricingRequest } from '../../../shared/pricing';
 
 const router = express.Router();
 const prisma = new PrismaClient();
 
-// Calculate pricing for an order
-router.post('/calculate', async (req, res) => {
+// Calculate pricing for an order; the price is locked in a quote the order can refer to.
+// Signed-in customers of an organization get its negotiated rates.
+router.post('/calculate', optionalAuth, async (req: AuthRequest, res) => {
   try {
     const {
       stlFileId,
       materialId,
       printSettings,
       quantity = 1,
-    } = req.body;
+      currency = 'DKK',
+    }: PricingRequest = req.body;
 
     if (!stlFileId || !materialId) {
       return res.status(400).json({ error: 'STL file ID and material ID are required' });
     }
 
-    const pricing = await pricingService.calculateOrderPricing(
+    if (!(await currencyService.getRate(currency))) {
+      return res.status(400).json({ error: `Prices are not available in ${currency}` });
+    }
+
+    const pricing = await quoteService.createQuote({
       stlFileId,
       materialId,
-      printSettings,
-      quantity
-    );
+      printSettings: printSettings || {},
+      quantity,
+      currency,
+      userId: req.user?.id,
+    });
 
-    res.json(pricing);
+    return res.json(pricing);
   } catch (error) {
     console.error('Error calculating pricing:', error);
-    res.status(500).json({ error: 'Failed to calculate pricing' });
+    return res.status(500).json({ error: 'Failed to calculate pricing' });
+  }
+});
+
+// Get a quote's locked price
+router.get('/quotes/:id', optionalAuth, async (req: AuthRequest, res) => {
+  try {
+    const quote = await quoteService.getQuote(req.params.id);
+    if (!quote || (quote.userId && quote.userId !== req.user?.id)) {
+      return res.status(404).json({ error: 'Quote not found' });
+    }
+
+    return res.json({
+      ...quoteService.getCalculation(quote),
+      expired: quote.expiresAt <= new Date(),
+      used: quote.orderItem !== null,
+    });
+  } catch (error) {
+    console.error('Get quote error:', error);
+    return res.status(500).json({ error: 'Internal server error' });
   }
 });
 
 // Calculate pricing from volume (for calculator)
-router.post('/calculate-volume', async (req, res) => {
+router.post('/calculate-volume', optionalAuth, async (req: AuthRequest, res) => {
   try {
     const {
       volume,
       materialType,
       printSettings,
       quantity = 1,
-    } = req.body;
+      currency = 'DKK',
+    }: VolumePricingRequest = req.body;
 
     if (!volume || !materialType) {
       return res.status(400).json({ error: 'Volume and material type are required' });
     }
 
+    if (!(await currencyService.getRate(currency))) {
+      return res.status(400).json({ error: `Prices are not available in ${currency}` });
+    }
+
     const pricing = await pricingService.calculatePricingFromVolume(
       volume,
       materialType,
       printSettings,
-      quantity
+      quantity,
+      req.user?.id,
+      currency
     );
 
-    res.json(pricing);
+    return res.json(pricing);
   } catch (error) {
     console.error('Error calculating pricing from volume:', error);
-    res.status(500).json({ error: 'Failed to calculate pricing' });
+    return res.status(500).json({ error: 'Failed to calculate pricing' });
+  }
+});
+
+// Currencies prices can be shown in, with the current rates
+router.get('/currencies', async (req, res) => {
+  try {
+    res.json({ baseCurrency: 'DKK', rates: await currencyService.getCurrentRates() });
+  } catch (error) {
+    console.error('Get currencies error:', error);
+    res.status(500).json({ error: 'Failed to get currencies' });
   }
 });
 
 // Get current electricity price
 router.get('/electricity/current', async (req, res) => {
   try {
-    const price = await pricingService.getCurrentElectricityPrice();
-    res.json({ price, currency: 'DKK', area: 'DK2' });
+    const area = (req.query.area as string) || electricityPriceService.getDefaultArea();
+    const price = await pricingService.getCurrentElectricityPrice(area);
+    res.json({ price, currency: await electricityPriceService.getAreaCurrency(area), area });
   } catch (error) {
     console.error('Get current electricity price error:', error);
     res.status(500).json({ error: 'Failed to get current electricity price' });
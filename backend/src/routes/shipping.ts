@@ -0,0 +1,50 @@
+import express from 'express';
+import shippingService from '../services/shippingService';
+import currencyService from '../services/currencyService';
+import taxService from '../services/taxService';
+
+const router = express.Router();
+
+// Shipping methods and prices for an order with this much printed material
+// (the total of the calculations' breakdown.material.usage, in grams)
+router.get('/options', async (req, res) => {
+  try {
+    const weight = Number(req.query.weight);
+    const currency = (req.query.currency as string) || 'DKK';
+
+    if (!(weight >= 0)) {
+      return res.status(400).json({ error: 'weight must be the material weight in grams' });
+    }
+
+    const exchangeRate = await currencyService.getRate(currency);
+    if (!exchangeRate) {
+      return res.status(400).json({ error: `Prices are not available in ${currency}` });
+    }
+
+    const options = await shippingService.getOptions(weight, exchangeRate.dkkPerUnit);
+    return res.json({ parcelWeight: shippingService.getParcelWeight(weight), currency, options });
+  } catch (error) {
+    console.error('Get shipping options error:', error);
+    return res.status(500).json({ error: 'Failed to get shipping options' });
+  }
+});
+
+// Parcel shops near a postal code
+router.get('/parcel-shops', async (req, res) => {
+  try {
+    const postalCode = req.query.postalCode as string;
+    const country = taxService.toCountryCode((req.query.country as string) || 'DK');
+
+    if (!postalCode || !country) {
+      return res.status(400).json({ error: 'postalCode and a two-letter country code are required' });
+    }
+
+    const parcelShops = await shippingService.findParcelShops(postalCode, country);
+    return res.json({ parcelShops });
+  } catch (error) {
+    console.error('Get parcel shops error:', error);
+    return res.status(502).json({ error: 'Failed to get parcel shops from the carrier' });
+  }
+});
+
+export default router;
@@ -1,6 +1,7 @@
 import express from 'express';
 import { body, validationResult } from 'express-validator';
 import stlAnalysisService from '../services/stlAnalysisService';
+import { STANDARD_ORIENTATIONS, isRotationMatrix } from '../utils/meshOrientation';
 import { authenticateToken } from '../middleware/auth';
 import multer from 'multer';
 import path from 'path';
@@ -35,7 +36,27 @@ const validateRequest = (req: express.Request, res: express.Response, next: expr
       errors: errors.array(),
     });
   }
-  next();
+  return next();
+};
+
+// Orientation is a candidate id ("x+90") or a row-major rotation matrix; multipart
+// bodies carry the matrix as a JSON string
+const parseOrientation = (value: unknown): unknown => {
+  if (typeof value === 'string' && value.trim().startsWith('[')) {
+    try {
+      return JSON.parse(value);
+    } catch {
+      return undefined;
+    }
+  }
+  return value;
+};
+
+const isValidOrientation = (value: unknown): boolean => {
+  const orientation = parseOrientation(value);
+  return typeof orientation === 'string'
+    ? STANDARD_ORIENTATIONS.some(candidate => candidate.id === orientation)
+    : isRotationMatrix(orientation);
 };
 
 /**
@@ -64,6 +85,14 @@ router.post('/analyze', [
   body('printQuality')
     .isIn(['draft', 'normal', 'high'])
     .withMessage('Print quality must be one of: draft, normal, high'),
+  body('overhangAngle')
+    .optional()
+    .isFloat({ min: 0, max: 89 })
+    .withMessage('Overhang angle must be between 0 and 89 degrees'),
+  body('orientation')
+    .optional()
+    .custom(isValidOrientation)
+    .withMessage(`Orientation must be a 3×3 rotation matrix or one of: ${STANDARD_ORIENTATIONS.map(candidate => candidate.id).join(', ')}`),
 ], validateRequest, async (req: express.Request, res: express.Response) => {
   try {
     if (!req.file) {
@@ -80,6 +109,8 @@ router.post('/analyze', [
       supportDensity,
       materialType,
       printQuality,
+      overhangAngle,
+      orientation,
     } = req.body;
 
     const printSettings = {
@@ -89,15 +120,17 @@ router.post('/analyze', [
       supportDensity: parseInt(supportDensity),
       materialType,
       printQuality,
+      overhangAngle: overhangAngle !== undefined ? parseFloat(overhangAngle) : undefined,
+      orientation: orientation !== undefined ? parseOrientation(orientation) as string | number[] : undefined,
     };
 
     // Analyze the STL file
-    const analysis = await stlAnalysisService.analyzeSTLFile(req.file.path, printSettings);
+    const analysis = await stlAnalysisService.analyzeSTLFile(req.file.path, printSettings, req.file.originalname);
 
     // Clean up uploaded file
     fs.unlinkSync(req.file.path);
 
-    res.json({
+    return res.json({
       success: true,
       message: 'STL analysis completed successfully',
       data: {
@@ -122,7 +155,7 @@ router.post('/analyze', [
       }
     }
 
-    res.status(500).json({
+    return res.status(500).json({
       success: false,
       message: error instanceof Error ? error.message : 'STL analysis failed',
     });
@@ -157,6 +190,14 @@ router.post('/analyze-url', [
   body('printQuality')
     .isIn(['draft', 'normal', 'high'])
     .withMessage('Print quality must be one of: draft, normal, high'),
+  body('overhangAngle')
+    .optional()
+    .isFloat({ min: 0, max: 89 })
+    .withMessage('Overhang angle must be between 0 and 89 degrees'),
+  body('orientation')
+    .optional()
+    .custom(isValidOrientation)
+    .withMessage(`Orientation must be a 3×3 rotation matrix or one of: ${STANDARD_ORIENTATIONS.map(candidate => candidate.id).join(', ')}`),
 ], validateRequest, async (req: express.Request, res: express.Response) => {
   try {
     const {
@@ -167,6 +208,8 @@ router.post('/analyze-url', [
       supportDensity,
       materialType,
       printQuality,
+      overhangAngle,
+      orientation,
     } = req.body;
 
     const printSettings = {
@@ -176,6 +219,8 @@ router.post('/analyze-url', [
       supportDensity: parseInt(supportDensity),
       materialType,
       printQuality,
+      overhangAngle: overhangAngle !== undefined ? parseFloat(overhangAngle) : undefined,
+      orientation: orientation !== undefined ? parseOrientation(orientation) as string | number[] : undefined,
     };
 
     // Download file from URL
@@ -185,14 +230,15 @@ router.post('/analyze-url', [
     }
 
     const fileBuffer = Buffer.from(await response.arrayBuffer());
-    const tempFilePath = path.join('uploads/stl/', `temp_${Date.now()}.stl`);
+    const urlPath = new URL(fileUrl).pathname;
+    const tempFilePath = path.join('uploads/stl/', `temp_${Date.now()}${path.extname(urlPath).toLowerCase() || '.stl'}`);
     
     // Write buffer to temporary file
     fs.writeFileSync(tempFilePath, fileBuffer);
 
     try {
       // Analyze the STL file
-      const analysis = await stlAnalysisService.analyzeSTLFile(tempFilePath, printSettings);
+      const analysis = await stlAnalysisService.analyzeSTLFile(tempFilePath, printSettings, urlPath);
 
       res.json({
         success: true,
@@ -2,8 +2,10 @@ import express from 'express';
 import multer from 'multer';
 import path from 'path';
 import fs from 'fs';
-import { PrismaClient } from '@prisma/client';
+import { PrismaClient, STLFile } from '@prisma/client';
 import { authenticateToken, AuthRequest } from '../middleware/auth';
+import stlAnalysisService from '../services/stlAnalysisService';
+import { isGcodeFileName, readGcodeMetadata } from '../utils/gcodeMetadata';
 
 const router = express.Router();
 const prisma = new PrismaClient();
@@ -24,7 +26,7 @@ const storage = multer.diskStorage({
 });
 
 const fileFilter = (req: any, file: Express.Multer.File, cb: multer.FileFilterCallback) => {
-  const allowedTypes = (process.env.ALLOWED_FILE_TYPES || '.stl,.obj,.3mf').split(',');
+  const allowedTypes = (process.env.ALLOWED_FILE_TYPES || '.stl,.obj,.3mf,.gcode').split(',');
   const ext = path.extname(file.originalname).toLowerCase();
   
   if (allowedTypes.includes(ext)) {
@@ -42,7 +44,21 @@ const upload = multer({
   },
 });
 
-// Upload STL file
+const toFileResponse = (stlFile: STLFile) => ({
+  id: stlFile.id,
+  originalName: stlFile.originalName,
+  filename: stlFile.filename,
+  fileSize: stlFile.fileSize,
+  volume: stlFile.volume,
+  dimensions: stlFile.dimensions,
+  surfaceArea: stlFile.surfaceArea,
+  printTime: stlFile.printTime,
+  analysisData: stlFile.analysisData,
+  isPreSliced: stlFile.isPreSliced,
+  slicerMetadata: stlFile.slicerMetadata,
+});
+
+// Upload STL file (or pre-sliced .gcode / Bambu .gcode.3mf)
 router.post('/stl', authenticateToken, upload.single('file'), async (req: AuthRequest, res) => {
   try {
     if (!req.file) {
@@ -50,10 +66,40 @@ router.post('/stl', authenticateToken, upload.single('file'), async (req: AuthRe
     }
 
     const { originalname, filename, path: filePath, size, mimetype } = req.file;
-    const userId = req.user!.id;
 
-    // Basic STL file analysis (simplified)
-    const analysisData = await analyzeSTLFile(filePath);
+    // Sliced files already carry the slicer's estimates, which beat ours
+    if (isGcodeFileName(originalname)) {
+      const metadata = await readGcodeMetadata(filePath);
+      if (metadata.printTime === null || metadata.filamentGrams.length === 0) {
+        fs.unlinkSync(filePath);
+        return res.status(400).json({ error: 'G-code does not contain slicer estimates for print time and filament usage' });
+      }
+
+      const printTimeHours = metadata.printTime / 3600;
+      const stlFile = await prisma.sTLFile.create({
+        data: {
+          filename,
+          originalName: originalname,
+          filePath,
+          fileSize: size,
+          mimeType: mimetype,
+          estimatedPrintTime: printTimeHours,
+          materialUsage: metadata.filamentGrams.reduce((total, grams) => total + grams, 0),
+          layerCount: metadata.layerCount,
+          printTime: printTimeHours,
+          isPreSliced: true,
+          slicerMetadata: { ...metadata },
+        },
+      });
+
+      return res.status(201).json({
+        message: 'File uploaded successfully',
+        file: toFileResponse(stlFile),
+      });
+    }
+
+    // Analyze geometry with default print settings; quotes refine this per order
+    const analysis = await stlAnalysisService.analyzeSTLFile(filePath, {}, originalname);
 
     // Save file metadata to database
     const stlFile = await prisma.sTLFile.create({
@@ -63,29 +109,33 @@ router.post('/stl', authenticateToken, upload.single('file'), async (req: AuthRe
         filePath,
         fileSize: size,
         mimeType: mimetype,
-        volume: analysisData.volume,
-        dimensions: analysisData.dimensions,
-        surfaceArea: analysisData.surfaceArea,
-        layerCount: analysisData.layerCount,
-        printTime: analysisData.printTime,
+        volume: analysis.volume,
+        dimensions: analysis.dimensions,
+        surfaceArea: analysis.surfaceArea,
+        boundingBox: analysis.boundingBox,
+        estimatedPrintTime: analysis.estimatedPrintTime,
+        layerCount: analysis.layerCount,
+        materialUsage: analysis.materialUsage,
+        supportRequired: analysis.supportRequired,
+        printabilityScore: analysis.printabilityScore,
+        printTime: analysis.estimatedPrintTime,
         isAnalyzed: true,
-        analysisData: analysisData,
+        analysisData: {
+          meshHealth: analysis.meshHealth && { ...analysis.meshHealth },
+          support: { ...analysis.support },
+          orientation: {
+            id: analysis.orientation.id,
+            rotation: analysis.orientation.rotation,
+            selectedBy: analysis.orientation.selectedBy,
+          },
+          printTime: stlAnalysisService.toStoredPrintTime(analysis.printTimeEstimate),
+        },
       },
     });
 
-    res.status(201).json({
+    return res.status(201).json({
       message: 'File uploaded successfully',
-      file: {
-        id: stlFile.id,
-        originalName: stlFile.originalName,
-        filename: stlFile.filename,
-        fileSize: stlFile.fileSize,
-        volume: stlFile.volume,
-        dimensions: stlFile.dimensions,
-        surfaceArea: stlFile.surfaceArea,
-        printTime: stlFile.printTime,
-        analysisData: stlFile.analysisData,
-      },
+      file: toFileResponse(stlFile),
     });
   } catch (error) {
     console.error('Upload error:', error);
@@ -95,7 +145,7 @@ router.post('/stl', authenticateToken, upload.single('file'), async (req: AuthRe
       fs.unlinkSync(req.file.path);
     }
     
-    res.status(500).json({ error: 'File upload failed' });
+    return res.status(500).json({ error: 'File upload failed' });
   }
 });
 
@@ -182,48 +232,11 @@ router.delete('/:id', authenticateToken, async (req: AuthRequest, res) => {
       where: { id },
     });
 
-    res.json({ message: 'File deleted successfully' });
+    return res.json({ message: 'File deleted successfully' });
   } catch (error) {
     console.error('Delete file error:', error);
-    res.status(500).json({ error: 'Internal server error' });
+    return res.status(500).json({ error: 'Internal server error' });
   }
 });
 
-// Basic STL file analysis function
-async function analyzeSTLFile(filePath: string): Promise<any> {
-  // This is a simplified analysis - in production, you'd use a proper STL parser
-  const stats = fs.statSync(filePath);
-  const fileSize = stats.size;
-  
-  // Estimate volume based on file size (very rough approximation)
-  const estimatedVolume = Math.max(fileSize / 1000, 1); // cm³
-  
-  // Estimate dimensions (cube approximation)
-  const sideLength = Math.cbrt(estimatedVolume);
-  const dimensions = {
-    width: sideLength,
-    height: sideLength,
-    depth: sideLength,
-  };
-  
-  // Estimate surface area
-  const surfaceArea = 6 * sideLength * sideLength;
-  
-  // Estimate layer count (assuming 0.2mm layer height)
-  const layerHeight = 0.2;
-  const layerCount = Math.ceil(sideLength / layerHeight);
-  
-  // Estimate print time (very rough)
-  const printTime = Math.max(estimatedVolume / 100, 0.5); // hours
-  
-  return {
-    volume: estimatedVolume,
-    dimensions,
-    surfaceArea,
-    layerCount,
-    printTime,
-    fileSize,
-  };
-}
-
 export default router;
@@ -1,5 +1,7 @@
 import express from 'express';
+import Stripe from 'stripe';
 import chatService from '../services/chatService';
+import paymentService from '../services/paymentService';
 
 const router = express.Router();
 
@@ -23,8 +25,9 @@ router.post('/facebook', (req, res) => {
   chatService.handleWebhook(req, res);
 });
 
-// Stripe webhook handler
-router.post('/stripe', express.raw({ type: 'application/json' }), (req, res) => {
+// Stripe webhook handler. Each event id is applied once; Stripe redelivers
+// events, and an event that fails here gets a 500 so Stripe retries it.
+router.post('/stripe', express.raw({ type: 'application/json' }), async (req, res) => {
   const sig = req.headers['stripe-signature'];
   const endpointSecret = process.env.STRIPE_WEBHOOK_SECRET;
 
@@ -33,75 +36,51 @@ router.post('/stripe', express.raw({ type: 'application/json' }), (req, res) =>
     return res.status(400).send('Webhook secret not configured');
   }
 
-  let event;
+  let event: Stripe.Event;
 
   try {
     // Verify webhook signature
-    const stripe = require('stripe')(process.env.STRIPE_SECRET_KEY);
-    event = stripe.webhooks.constructEvent(req.body, sig, endpointSecret);
+    event = paymentService.constructWebhookEvent(req.body, sig, endpointSecret);
   } catch (err: any) {
     console.error('Webhook signature verification failed:', err.message);
     return res.status(400).send(`Webhook Error: ${err.message}`);
   }
 
-  // Handle the event
-  switch (event.type) {
-    case 'payment_intent.succeeded':
-      handlePaymentSucceeded(event.data.object);
-      break;
-    case 'payment_intent.payment_failed':
-      handlePaymentFailed(event.data.object);
-      break;
-    case 'invoice.payment_succeeded':
-      handleInvoicePaymentSucceeded(event.data.object);
-      break;
-    case 'invoice.payment_failed':
-      handleInvoicePaymentFailed(event.data.object);
-      break;
-    default:
-      console.log(`Unhandled event type ${event.type}`);
-  }
-
-  res.json({ received: true });
-});
-
-// Payment success handler
-async function handlePaymentSucceeded(paymentIntent: any) {
   try {
-    console.log('Payment succeeded:', paymentIntent.id);
-    
-    // Find the order by payment intent ID
-    const order = await require('../services/orderProcessingService').default.processNewOrder(
-      paymentIntent.metadata.orderId
-    );
-
-    if (order) {
-      console.log(`Order ${order.orderNumber} processed after successful payment`);
+    if (await paymentService.isEventProcessed(event.id)) {
+      return res.json({ received: true, duplicate: true });
     }
-  } catch (error) {
-    console.error('Error handling payment success:', error);
-  }
-}
 
-// Payment failure handler
-async function handlePaymentFailed(paymentIntent: any) {
-  try {
-    console.log('Payment failed:', paymentIntent.id);
-    
-    // Update order status to payment failed
-    const { PrismaClient } = require('@prisma/client');
-    const prisma = new PrismaClient();
-    
-    await prisma.order.update({
-      where: { id: paymentIntent.metadata.orderId },
-      data: { status: 'PAYMENT_FAILED' }
-    });
+    // Handle the event
+    switch (event.type) {
+      case 'payment_intent.succeeded':
+      case 'payment_intent.processing':
+      case 'payment_intent.payment_failed':
+      case 'payment_intent.canceled':
+        await paymentService.syncPaymentIntent(event.data.object);
+        break;
+      case 'refund.created':
+      case 'refund.updated':
+      case 'refund.failed':
+        await paymentService.syncStripeRefund(event.data.object);
+        break;
+      case 'invoice.payment_succeeded':
+        await handleInvoicePaymentSucceeded(event.data.object);
+        break;
+      case 'invoice.payment_failed':
+        await handleInvoicePaymentFailed(event.data.object);
+        break;
+      default:
+        console.log(`Unhandled event type ${event.type}`);
+    }
 
-    console.log(`Order ${paymentIntent.metadata.orderId} marked as payment failed`);
+    await paymentService.markEventProcessed(event);
+    return res.json({ received: true });
   } catch (error) {
-    console.error('Error handling payment failure:', error);
+    console.error(`Error handling Stripe event ${event.id}:`, error);
+    return res.status(500).json({ error: 'Failed to process webhook event' });
   }
-}
+});
 
 // Invoice payment success handler
 async function handleInvoicePaymentSucceeded(invoice: any) {
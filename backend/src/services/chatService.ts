@@ -3,17 +3,6 @@ import { PrismaClient, Order, OrderStatus, User } from '@prisma/client';
 
 const prisma = new PrismaClient();
 
-interface FacebookMessage {
-  recipient: { id: string };
-  message: { text: string };
-}
-
-interface FacebookQuickReply {
-  content_type: 'text';
-  title: string;
-  payload: string;
-}
-
 interface FacebookTemplate {
   template_type: 'generic';
   elements: Array<{
@@ -52,11 +41,9 @@ class ChatService {
   }
 
   private getOrderStatusMessage(status: OrderStatus, order: Order & { user: User }): string {
-    const baseUrl = process.env.FRONTEND_URL || 'http://localhost:3000';
-    
     switch (status) {
       case 'PAYMENT_CONFIRMED':
-        return `✅ Order Confirmed!\n\nYour order ${order.orderNumber} has been confirmed and payment received.\n\nTotal: €${order.totalAmount.toFixed(2)}\n\nWe'll start processing your order shortly!`;
+        return `✅ Order Confirmed!\n\nYour order ${order.orderNumber} has been confirmed and payment received.\n\nTotal: ${order.totalAmount.toFixed(2)} ${order.currency}\n\nWe'll start processing your order shortly!`;
       
       case 'IN_QUEUE':
         return `🔄 Order in Queue\n\nYour order ${order.orderNumber} is now in our print queue.\n\nEstimated start time: Within 24 hours\n\nWe'll notify you when printing begins!`;
@@ -83,7 +70,7 @@ class ChatService {
       elements: [
         {
           title: `Order ${order.orderNumber}`,
-          subtitle: `Status: ${order.status} • Total: €${order.totalAmount.toFixed(2)}`,
+          subtitle: `Status: ${order.status} • Total: ${order.totalAmount.toFixed(2)} ${order.currency}`,
           buttons: [
             {
               type: 'web_url',
@@ -167,7 +154,7 @@ class ChatService {
         return false;
       }
 
-      const message = `✅ Order Confirmation!\n\nOrder: ${order.orderNumber}\nTotal: €${order.totalAmount.toFixed(2)}\n\nThank you for your order! We'll start processing it shortly and keep you updated.`;
+      const message = `✅ Order Confirmation!\n\nOrder: ${order.orderNumber}\nTotal: ${order.totalAmount.toFixed(2)} ${order.currency}\n\nThank you for your order! We'll start processing it shortly and keep you updated.`;
       
       console.log(`Would send order confirmation to user ${order.user.id}: ${message}`);
       return true;
@@ -0,0 +1,163 @@
+import { ExchangeRate, PrismaClient } from '@prisma/client';
+import * as fs from 'fs';
+import * as path from 'path';
+import type { CurrencyRate, PricingCalculation } from '../../../shared/pricing';
+import { BASE_CURRENCY } from '../utils/pricingEngine';
+
+const prisma = new PrismaClient();
+
+type AppliedRate = PricingCalculation['exchangeRate'];
+
+// Currencies prices can be shown and charged in. All of them have two decimals,
+// so amounts round to the same hundredths as DKK does to øre.
+export const SUPPORTED_CURRENCIES = [BASE_CURRENCY, 'EUR', 'SEK', 'NOK', 'USD', 'GBP'];
+
+interface RateImport {
+  imported: ExchangeRate[];
+  errors: string[]; // one per line that was skipped
+}
+
+class CurrencyService {
+  private readonly ratesFile = path.resolve(
+    process.env.EXCHANGE_RATES_FILE || path.join(__dirname, '../../fixtures/exchange-rates.csv')
+  );
+
+  isSupported(currency: string): boolean {
+    return SUPPORTED_CURRENCIES.includes(currency);
+  }
+
+  // The rate in force at a given moment; DKK is always 1. Null when no rate has been
+  // stored for the currency yet.
+  async getRate(currency: string, at: Date = new Date()): Promise<AppliedRate | null> {
+    try {
+      if (currency === BASE_CURRENCY) {
+        return { id: null, currency, dkkPerUnit: 1 };
+      }
+      if (!this.isSupported(currency)) {
+        return null;
+      }
+
+      const rate = await prisma.exchangeRate.findFirst({
+        where: { currency, effectiveFrom: { lte: at } },
+        orderBy: [{ effectiveFrom: 'desc' }, { createdAt: 'desc' }],
+      });
+      return rate && { id: rate.id, currency, dkkPerUnit: rate.dkkPerUnit };
+    } catch (error) {
+      console.error('Error fetching exchange rate:', error);
+      throw error;
+    }
+  }
+
+  // Current rate of every supported currency that has one, DKK first
+  async getCurrentRates(at: Date = new Date()): Promise<CurrencyRate[]> {
+    try {
+      const rates: CurrencyRate[] = [{ currency: BASE_CURRENCY, dkkPerUnit: 1, effectiveFrom: null }];
+      for (const currency of SUPPORTED_CURRENCIES.filter(code => code !== BASE_CURRENCY)) {
+        const rate = await prisma.exchangeRate.findFirst({
+          where: { currency, effectiveFrom: { lte: at } },
+          orderBy: [{ effectiveFrom: 'desc' }, { createdAt: 'desc' }],
+        });
+        if (rate) {
+          rates.push({ currency, dkkPerUnit: rate.dkkPerUnit, effectiveFrom: rate.effectiveFrom.toISOString() });
+        }
+      }
+      return rates;
+    } catch (error) {
+      console.error('Error fetching exchange rates:', error);
+      throw error;
+    }
+  }
+
+  // Every stored rate, newest first, for the admin history
+  async getRateHistory(currency?: string): Promise<ExchangeRate[]> {
+    try {
+      return await prisma.exchangeRate.findMany({
+        where: currency ? { currency } : {},
+        orderBy: [{ currency: 'asc' }, { effectiveFrom: 'desc' }],
+      });
+    } catch (error) {
+      console.error('Error fetching exchange rate history:', error);
+      throw error;
+    }
+  }
+
+  // Rates are never changed in place; a new rate takes over from effectiveFrom
+  async setRate(data: {
+    currency: string;
+    dkkPerUnit: number;
+    effectiveFrom?: Date;
+    source?: string;
+    createdById?: string;
+  }): Promise<ExchangeRate> {
+    try {
+      return await prisma.exchangeRate.create({
+        data: {
+          currency: data.currency,
+          dkkPerUnit: data.dkkPerUnit,
+          effectiveFrom: data.effectiveFrom || new Date(),
+          source: data.source || 'manual',
+          createdById: data.createdById || null,
+        },
+      });
+    } catch (error) {
+      console.error('Error setting exchange rate:', error);
+      throw error;
+    }
+  }
+
+  // Returns why a rate cannot be stored, or null when it can
+  validateRate(currency: unknown, dkkPerUnit: unknown): string | null {
+    if (typeof currency !== 'string' || !this.isSupported(currency) || currency === BASE_CURRENCY) {
+      return `currency must be one of ${SUPPORTED_CURRENCIES.filter(code => code !== BASE_CURRENCY).join(', ')}`;
+    }
+    if (!(typeof dkkPerUnit === 'number' && isFinite(dkkPerUnit) && dkkPerUnit > 0)) {
+      return 'dkkPerUnit must be a positive number';
+    }
+    return null;
+  }
+
+  // Store the rates in a CSV with currency and dkkPerUnit columns (effectiveFrom is
+  // optional). Lines that do not hold a valid rate are skipped and reported.
+  async importRates(csv: string, source: string, createdById?: string): Promise<RateImport> {
+    try {
+      const [header = '', ...lines] = csv.split(/\r?\n/).filter(line => line.trim());
+      const columns = header.split(',').map(column => column.trim().toLowerCase());
+      const currencyColumn = columns.indexOf('currency');
+      const rateColumn = columns.indexOf('dkkperunit');
+      const effectiveColumn = columns.indexOf('effectivefrom');
+      if (currencyColumn < 0 || rateColumn < 0) {
+        throw new Error('Exchange rate file needs currency and dkkPerUnit columns');
+      }
+
+      const result: RateImport = { imported: [], errors: [] };
+      for (const [index, line] of lines.entries()) {
+        const values = line.split(',').map(value => value.trim());
+        const currency = values[currencyColumn]?.toUpperCase();
+        const dkkPerUnit = parseFloat(values[rateColumn]);
+        const effectiveFrom = effectiveColumn >= 0 && values[effectiveColumn]
+          ? new Date(values[effectiveColumn])
+          : new Date();
+
+        const validationError = this.validateRate(currency, dkkPerUnit) ||
+          (isNaN(effectiveFrom.getTime()) ? 'effectiveFrom must be a date' : null);
+        if (validationError) {
+          result.errors.push(`Line ${index + 2}: ${validationError}`);
+          continue;
+        }
+        result.imported.push(await this.setRate({ currency, dkkPerUnit, effectiveFrom, source, createdById }));
+      }
+      return result;
+    } catch (error) {
+      console.error('Error importing exchange rates:', error);
+      throw error;
+    }
+  }
+
+  // Import the rates file on the server (EXCHANGE_RATES_FILE), e.g. the bank's daily export
+  async importRatesFile(createdById?: string): Promise<RateImport> {
+    const csv = await fs.promises.readFile(this.ratesFile, 'utf8');
+    return this.importRates(csv, path.basename(this.ratesFile), createdById);
+  }
+}
+
+export default new CurrencyService();
@@ -0,0 +1,421 @@
+import { PrismaClient } from '@prisma/client';
+import electricityTariffService from './electricityTariffService';
+import { ElectricityPriceProvider, createPriceProvider } from '../utils/electricityPriceProviders';
+
+const prisma = new PrismaClient();
+
+interface StoredPrice {
+  timestamp: string;
+  price: number;
+  currency: string;
+  area: string;
+}
+
+interface HourlyPrice {
+  start: Date; // beginning of the hour
+  hour: number; // 0-23, local time
+  price: number; // all-in per kWh
+  spotPrice: number | null; // per kWh, null for manually entered prices
+}
+
+type PricedHour = HourlyPrice & {
+  gridTariff: number; // per kWh
+  taxes: number; // per kWh
+  vat: number; // per kWh
+};
+
+interface HourlyCost {
+  start: Date;
+  price: number; // per kWh
+  energy: number; // kWh used in this hour
+  cost: number;
+}
+
+interface PriceWindow {
+  start: Date;
+  end: Date;
+  energy: number; // kWh
+  cost: number;
+  averagePrice: number; // per kWh
+  hours: HourlyCost[];
+}
+
+interface CheapestWindowResult {
+  area: string;
+  currency: string;
+  cheapest: PriceWindow;
+  immediate: PriceWindow | null; // starting at the earliest start, null when prices are not known that far
+  savings: number; // compared to starting immediately
+}
+
+const HOUR = 60 * 60 * 1000; // ms
+
+// A day the provider had no prices for is not asked for again until this has passed,
+// so quotes made before tomorrow's curve is published do not each call the provider
+const EMPTY_DAY_RETRY_MS = 15 * 60 * 1000;
+
+class ElectricityPriceService {
+  private provider: ElectricityPriceProvider;
+  private area: string;
+  private currency: string;
+  private readonly emptyDays = new Map<string, number>(); // area and day → when the provider had nothing
+
+  constructor() {
+    this.provider = createPriceProvider();
+    this.area = process.env.ELECTRICITY_AREA || 'DK2'; // DK2 = Copenhagen
+    this.currency = process.env.ELECTRICITY_CURRENCY || 'DKK';
+  }
+
+  // Swap the price source, e.g. to replay fixtures
+  setProvider(provider: ElectricityPriceProvider): void {
+    this.provider = provider;
+    this.emptyDays.clear();
+  }
+
+  getDefaultArea(): string {
+    return this.area;
+  }
+
+  // Spot prices are requested in the currency the area's tariff is set in
+  async getAreaCurrency(area: string = this.area, at: Date = new Date()): Promise<string> {
+    const tariff = await electricityTariffService.getTariffFor(area, at);
+    return tariff?.currency || this.currency;
+  }
+
+  // Fetch and store the hourly day-ahead prices for a delivery day, with the area's
+  // grid tariff, taxes and VAT added. Tomorrow's prices are published around 13:00 CET,
+  // so earlier requests come back empty.
+  async fetchDayAheadPrices(date: Date = new Date(), area: string = this.area): Promise<HourlyPrice[]> {
+    const day = this.startOfDay(date);
+
+    try {
+      const currency = await this.getAreaCurrency(area, day);
+      const tariff = await electricityTariffService.getTariffFor(area, day);
+
+      const spotPrices = await this.provider.getDayAheadPrices(day, area, currency);
+      const prices: PricedHour[] = spotPrices.map(spot => {
+        const hour = spot.start.getHours();
+        return {
+          start: spot.start,
+          hour,
+          ...electricityTariffService.calculateAllInPrice(spot.price, hour, tariff),
+        };
+      });
+
+      await this.storeDayAheadPrices(day, area, currency, prices);
+
+      console.log(`Stored ${prices.length} day-ahead prices for ${area} on ${day.toDateString()} from ${this.provider.name}`);
+      return prices;
+    } catch (error) {
+      console.error(`Error fetching day-ahead prices from ${this.provider.name}:`, error);
+      return [];
+    }
+  }
+
+  // Price for the current hour from the stored curve, fetching today's curve when it is missing
+  async fetchCurrentElectricityPrice(area: string = this.area): Promise<number> {
+    try {
+      const curve = await this.getDayAheadCurve(new Date(), area);
+      const currentHour = Math.floor(Date.now() / HOUR) * HOUR;
+      const current = curve.find(price => price.start.getTime() === currentHour);
+
+      if (current) {
+        return current.price;
+      }
+    } catch (error) {
+      console.error('Error fetching current electricity price:', error);
+    }
+
+    return await this.getFallbackPrice(area);
+  }
+
+  // Without today's curve the last stored price applies, then the configured
+  // electricity_price; with neither there is nothing honest to charge
+  private async getFallbackPrice(area: string): Promise<number> {
+    const lastPrice = await this.getLastElectricityPrice(area);
+    if (lastPrice !== null) {
+      return lastPrice;
+    }
+
+    const config = await prisma.systemConfig.findUnique({
+      where: { key: 'electricity_price' },
+    });
+    const configuredPrice = config?.isActive ? parseFloat(config.value) : NaN;
+    if (!isNaN(configuredPrice)) {
+      return configuredPrice;
+    }
+
+    throw new Error(`No electricity price available for ${area}`);
+  }
+
+  // The stored curve for a delivery day, fetched from the provider the first time it is asked for
+  async getDayAheadCurve(date: Date = new Date(), area: string = this.area): Promise<HourlyPrice[]> {
+    const day = this.startOfDay(date);
+
+    const stored = (await prisma.electricityPrice.findMany({
+      where: { date: day, area },
+      orderBy: { timestamp: 'asc' },
+    })).map(price => ({ start: price.timestamp, hour: price.hour, price: price.price, spotPrice: price.spotPrice }));
+
+    // 23 or 25 hours on the days DST starts and ends
+    if (stored.length >= this.hoursInDay(day)) {
+      return stored;
+    }
+
+    const key = `${area}:${day.getTime()}`;
+    const emptyAt = this.emptyDays.get(key);
+    if (emptyAt !== undefined && Date.now() - emptyAt < EMPTY_DAY_RETRY_MS) {
+      return stored;
+    }
+
+    const fetched = await this.fetchDayAheadPrices(day, area);
+    if (fetched.length === 0) {
+      this.emptyDays.set(key, Date.now());
+      return stored;
+    }
+    this.emptyDays.delete(key);
+    return fetched;
+  }
+
+  // Today's and (once published) tomorrow's hourly prices
+  async getKnownPrices(area: string = this.area): Promise<HourlyPrice[]> {
+    const today = new Date();
+    const tomorrow = new Date(today.getFullYear(), today.getMonth(), today.getDate() + 1);
+
+    const [todayCurve, tomorrowCurve] = await Promise.all([
+      this.getDayAheadCurve(today, area),
+      this.getDayAheadCurve(tomorrow, area),
+    ]);
+    return [...todayCurve, ...tomorrowCurve];
+  }
+
+  // Cost of running `powerWatts` from `start` for `durationHours`, integrated hour by hour.
+  // Returns null when part of the window has no known price.
+  calculateWindowCost(prices: HourlyPrice[], start: Date, durationHours: number, powerWatts: number): PriceWindow | null {
+    const end = new Date(start.getTime() + durationHours * HOUR);
+    const hours: HourlyCost[] = [];
+
+    for (let slot = Math.floor(start.getTime() / HOUR) * HOUR; slot < end.getTime(); slot += HOUR) {
+      const price = prices.find(price => price.start.getTime() === slot);
+      if (!price) {
+        return null;
+      }
+
+      const overlap = (Math.min(slot + HOUR, end.getTime()) - Math.max(slot, start.getTime())) / HOUR; // hours
+      const energy = overlap * (powerWatts / 1000); // kWh
+      hours.push({ start: price.start, price: price.price, energy, cost: energy * price.price });
+    }
+
+    const energy = hours.reduce((sum, hour) => sum + hour.energy, 0);
+    const cost = hours.reduce((sum, hour) => sum + hour.cost, 0);
+    return { start, end, energy, cost, averagePrice: energy > 0 ? cost / energy : 0, hours };
+  }
+
+  // Cheapest start between `earliestStart` and `latestEnd` for a job of the given length and draw.
+  // With hourly prices the cost only changes slope when the start or the end crosses an hour
+  // boundary, so the optimum is always at one of those starts and only they are tried.
+  async findCheapestWindow(
+    durationHours: number,
+    powerWatts: number,
+    earliestStart: Date = new Date(),
+    latestEnd?: Date,
+    area: string = this.area
+  ): Promise<CheapestWindowResult | null> {
+    try {
+      const prices = await this.getKnownPrices(area);
+      if (prices.length === 0) {
+        return null;
+      }
+
+      const duration = durationHours * HOUR;
+      const knownUntil = Math.max(...prices.map(price => price.start.getTime())) + HOUR;
+      const lastStart = Math.min(knownUntil, latestEnd ? latestEnd.getTime() : Infinity) - duration;
+
+      const candidates = new Set<number>([earliestStart.getTime()]);
+      for (const price of prices) {
+        candidates.add(price.start.getTime()); // start on an hour boundary
+        candidates.add(price.start.getTime() + HOUR - duration); // end on an hour boundary
+      }
+
+      let cheapest: PriceWindow | null = null;
+      for (const candidate of candidates) {
+        if (candidate < earliestStart.getTime() || candidate > lastStart) continue;
+
+        const window = this.calculateWindowCost(prices, new Date(candidate), durationHours, powerWatts);
+        if (window && (!cheapest || window.cost < cheapest.cost - 1e-9 ||
+            (Math.abs(window.cost - cheapest.cost) <= 1e-9 && window.start < cheapest.start))) {
+          cheapest = window;
+        }
+      }
+
+      if (!cheapest) {
+        return null;
+      }
+
+      const immediate = this.calculateWindowCost(prices, earliestStart, durationHours, powerWatts);
+      return {
+        area,
+        currency: await this.getAreaCurrency(area, cheapest.start),
+        cheapest,
+        immediate,
+        savings: immediate ? immediate.cost - cheapest.cost : 0,
+      };
+    } catch (error) {
+      console.error('Error finding cheapest electricity window:', error);
+      throw error;
+    }
+  }
+
+  // Re-price stored spot prices from `from` onwards after an area's tariff changed
+  async reapplyTariffs(area: string, from: Date = new Date()): Promise<number> {
+    try {
+      const stored = await prisma.electricityPrice.findMany({
+        where: { area, date: { gte: this.startOfDay(from) }, spotPrice: { not: null } },
+      });
+
+      for (const row of stored) {
+        const tariff = await electricityTariffService.getTariffFor(area, row.timestamp);
+        const { spotPrice, ...components } = electricityTariffService.calculateAllInPrice(row.spotPrice!, row.hour, tariff);
+        await prisma.electricityPrice.update({
+          where: { id: row.id },
+          data: components,
+        });
+      }
+
+      return stored.length;
+    } catch (error) {
+      console.error('Error re-applying electricity tariffs:', error);
+      throw error;
+    }
+  }
+
+  private async storeDayAheadPrices(
+    day: Date,
+    area: string,
+    currency: string,
+    prices: PricedHour[]
+  ): Promise<void> {
+    try {
+      for (const price of prices) {
+        const components = {
+          price: price.price,
+          spotPrice: price.spotPrice,
+          gridTariff: price.gridTariff,
+          taxes: price.taxes,
+          vat: price.vat,
+        };
+        await prisma.electricityPrice.upsert({
+          where: {
+            timestamp_area: {
+              timestamp: price.start,
+              area,
+            },
+          },
+          update: { ...components, currency },
+          create: {
+            date: day,
+            hour: price.hour,
+            timestamp: price.start,
+            ...components,
+            currency,
+            area,
+          },
+        });
+      }
+    } catch (error) {
+      console.error('Error storing electricity prices:', error);
+    }
+  }
+
+  private startOfDay(date: Date): Date {
+    return new Date(date.getFullYear(), date.getMonth(), date.getDate());
+  }
+
+  private hoursInDay(day: Date): number {
+    const nextDay = new Date(day.getFullYear(), day.getMonth(), day.getDate() + 1);
+    return Math.round((nextDay.getTime() - day.getTime()) / HOUR);
+  }
+
+  private async getLastElectricityPrice(area: string = this.area): Promise<number | null> {
+    try {
+      const lastPrice = await prisma.electricityPrice.findFirst({
+        where: { area, timestamp: { lte: new Date() } },
+        orderBy: { timestamp: 'desc' },
+      });
+
+      return lastPrice ? lastPrice.price : null;
+    } catch (error) {
+      console.error('Error fetching last electricity price:', error);
+      return null;
+    }
+  }
+
+  async getElectricityPriceHistory(days: number = 7): Promise<StoredPrice[]> {
+    try {
+      const startDate = new Date();
+      startDate.setDate(startDate.getDate() - days);
+
+      const prices = await prisma.electricityPrice.findMany({
+        where: {
+          area: this.area,
+          timestamp: {
+            gte: startDate,
+          },
+        },
+        orderBy: { timestamp: 'desc' },
+      });
+
+      return prices.map(price => ({
+        timestamp: price.timestamp.toISOString(),
+        price: price.price,
+        currency: price.currency,
+        area: price.area,
+      }));
+    } catch (error) {
+      console.error('Error fetching electricity price history:', error);
+      return [];
+    }
+  }
+
+  async getAverageElectricityPrice(hours: number = 24): Promise<number> {
+    try {
+      const startTime = new Date();
+      startTime.setHours(startTime.getHours() - hours);
+
+      const prices = await prisma.electricityPrice.findMany({
+        where: {
+          area: this.area,
+          timestamp: {
+            gte: startTime,
+          },
+        },
+        orderBy: { timestamp: 'desc' },
+      });
+
+      if (prices.length === 0) {
+        return await this.fetchCurrentElectricityPrice();
+      }
+
+      const averagePrice = prices.reduce((sum, price) => sum + price.price, 0) / prices.length;
+      return averagePrice;
+    } catch (error) {
+      console.error('Error calculating average electricity price:', error);
+      return await this.fetchCurrentElectricityPrice();
+    }
+  }
+
+  // Start background job to fetch prices regularly
+  startPriceUpdateJob(): void {
+    // Fetch today's and tomorrow's curves immediately
+    this.getKnownPrices().catch(() => undefined);
+
+    // Check hourly so tomorrow's curve is picked up soon after it is published
+    setInterval(() => {
+      this.getKnownPrices().catch(() => undefined);
+    }, 60 * 60 * 1000); // 1 hour
+
+    console.log(`Electricity price update job started (${this.provider.name})`);
+  }
+}
+
+export default new ElectricityPriceService();
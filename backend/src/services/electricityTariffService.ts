@@ -0,0 +1,95 @@
+import { ElectricityTariff, Prisma, PrismaClient } from '@prisma/client';
+
+const prisma = new PrismaClient();
+
+interface PriceComponents {
+  spotPrice: number; // per kWh
+  gridTariff: number; // per kWh
+  taxes: number; // per kWh
+  vat: number; // per kWh
+  price: number; // all-in per kWh
+}
+
+class ElectricityTariffService {
+  async getTariffs(area?: string): Promise<ElectricityTariff[]> {
+    try {
+      return await prisma.electricityTariff.findMany({
+        where: area ? { area } : {},
+        orderBy: [{ area: 'asc' }, { validFrom: 'desc' }],
+      });
+    } catch (error) {
+      console.error('Error fetching electricity tariffs:', error);
+      throw error;
+    }
+  }
+
+  async getTariff(id: string): Promise<ElectricityTariff | null> {
+    try {
+      return await prisma.electricityTariff.findUnique({ where: { id } });
+    } catch (error) {
+      console.error('Error fetching electricity tariff:', error);
+      throw error;
+    }
+  }
+
+  async createTariff(data: Prisma.ElectricityTariffCreateInput): Promise<ElectricityTariff> {
+    try {
+      return await prisma.electricityTariff.create({ data });
+    } catch (error) {
+      console.error('Error creating electricity tariff:', error);
+      throw error;
+    }
+  }
+
+  async updateTariff(id: string, data: Prisma.ElectricityTariffUpdateInput): Promise<ElectricityTariff> {
+    try {
+      return await prisma.electricityTariff.update({ where: { id }, data });
+    } catch (error) {
+      console.error('Error updating electricity tariff:', error);
+      throw error;
+    }
+  }
+
+  // The tariff in force in an area at a given moment. Seasonal tariffs only match in their
+  // months; when several overlap the most recently started one wins.
+  async getTariffFor(area: string, at: Date): Promise<ElectricityTariff | null> {
+    try {
+      const tariffs = await prisma.electricityTariff.findMany({
+        where: {
+          area,
+          isActive: true,
+          validFrom: { lte: at },
+          OR: [{ validTo: null }, { validTo: { gt: at } }],
+        },
+        orderBy: { validFrom: 'desc' },
+      });
+
+      return tariffs.find(tariff => tariff.months.length === 0 || tariff.months.includes(at.getMonth() + 1)) || null;
+    } catch (error) {
+      console.error('Error fetching electricity tariff:', error);
+      throw error;
+    }
+  }
+
+  // Spot price plus the hour's grid tariff, transmission and electricity tax, with VAT on the lot.
+  // Without a tariff the spot price is all there is.
+  calculateAllInPrice(spotPrice: number, hour: number, tariff: ElectricityTariff | null): PriceComponents {
+    if (!tariff) {
+      return { spotPrice, gridTariff: 0, taxes: 0, vat: 0, price: spotPrice };
+    }
+
+    const gridTariff = tariff.hourlyGridRates[hour] ?? 0;
+    const taxes = tariff.transmissionRate + tariff.electricityTax;
+    const vat = (spotPrice + gridTariff + taxes) * (tariff.vatRate / 100);
+
+    return {
+      spotPrice,
+      gridTariff,
+      taxes,
+      vat,
+      price: spotPrice + gridTariff + taxes + vat,
+    };
+  }
+}
+
+export default new ElectricityTariffService();
@@ -39,7 +39,7 @@ class EmailService {
               <p><strong>Order Details:</strong></p>
               <ul>
                 <li>Order Number: ${order.orderNumber}</li>
-                <li>Total Amount: €${order.totalAmount.toFixed(2)}</li>
+                <li>Total Amount: ${order.totalAmount.toFixed(2)} ${order.currency}</li>
                 <li>Status: Payment Confirmed</li>
               </ul>
               <p>We'll start processing your order shortly. You'll receive updates as we progress.</p>
@@ -101,6 +101,21 @@ class EmailService {
           text: `Your order ${order.orderNumber} is ready for pickup!`
         };
 
+      case 'SHIPPED':
+        return {
+          subject: `Order Shipped - ${order.orderNumber}`,
+          html: `
+            <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
+              <h2 style="color: #10b981;">Order Shipped!</h2>
+              <p>Hello ${order.user.firstName},</p>
+              <p>Your order <strong>${order.orderNumber}</strong> is on its way${order.shippingMethod === 'PARCEL_SHOP' ? ' to your parcel shop' : ''}.</p>
+              ${order.trackingNumber ? `<p><strong>Tracking number:</strong> ${order.trackingNumber}</p>` : ''}
+              <a href="${order.trackingUrl || `${baseUrl}/dashboard`}" style="background: #6366f1; color: white; padding: 10px 20px; text-decoration: none; border-radius: 5px;">Track Parcel</a>
+            </div>
+          `,
+          text: `Your order ${order.orderNumber} has shipped.${order.trackingNumber ? ` Tracking number: ${order.trackingNumber}${order.trackingUrl ? ` (${order.trackingUrl})` : ''}` : ''}`
+        };
+
       case 'COMPLETED':
         return {
           subject: `Order Completed - ${order.orderNumber}`,
@@ -229,7 +244,7 @@ class EmailService {
             <div style="background: #f8f9fa; padding: 20px; border-radius: 5px; margin: 20px 0;">
               <h3>Order Details</h3>
               <p><strong>Order Number:</strong> ${order.orderNumber}</p>
-              <p><strong>Total Amount:</strong> €${order.totalAmount.toFixed(2)}</p>
+              <p><strong>Total Amount:</strong> ${order.totalAmount.toFixed(2)} ${order.currency}</p>
               <p><strong>Order Date:</strong> ${new Date(order.createdAt).toLocaleDateString()}</p>
             </div>
 
@@ -240,7 +255,7 @@ class EmailService {
                   <p><strong>File:</strong> ${item.stlFile.originalName}</p>
                   <p><strong>Material:</strong> ${item.material.name}</p>
                   <p><strong>Quantity:</strong> ${item.quantity}</p>
-                  <p><strong>Price:</strong> €${item.totalCost.toFixed(2)}</p>
+                  <p><strong>Price:</strong> ${item.totalCost.toFixed(2)} ${order.currency}</p>
                 </div>
               `).join('')}
             </div>
@@ -251,7 +266,7 @@ class EmailService {
             <p>Thank you for choosing 3D Print Pro!</p>
           </div>
         `,
-        text: `Order Confirmation - ${order.orderNumber}. Total: €${order.totalAmount.toFixed(2)}`
+        text: `Order Confirmation - ${order.orderNumber}. Total: ${order.totalAmount.toFixed(2)} ${order.currency}`
       };
 
       const mailOptions = {
@@ -270,6 +285,58 @@ class EmailService {
       return false;
     }
   }
+
+  async sendRefundNotification(refundId: string): Promise<boolean> {
+    try {
+      const refund = await prisma.refund.findUnique({
+        where: { id: refundId },
+        include: {
+          order: { include: { user: true } },
+          orderItem: { include: { stlFile: true } },
+        },
+      });
+
+      if (!refund) {
+        console.error('Refund not found:', refundId);
+        return false;
+      }
+
+      const { order } = refund;
+      const amount = `${refund.amount.toFixed(2)} ${order.currency}`;
+      const refundOf = refund.orderItem ? `${refund.orderItem.stlFile.originalName} in your order` : 'your order';
+
+      const template = {
+        subject: `Refund Issued - ${order.orderNumber}`,
+        html: `
+          <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
+            <h2 style="color: #6366f1;">Refund Issued</h2>
+            <p>Hello ${order.user.firstName},</p>
+            <p>We have refunded <strong>${amount}</strong> for ${refundOf} <strong>${order.orderNumber}</strong>.</p>
+            <p><strong>Reason:</strong> ${refund.reason}</p>
+            <p>The money is returned to the payment method you used and usually shows up within 5-10 business days.</p>
+            <a href="${process.env.FRONTEND_URL || 'http://localhost:3000'}/dashboard" style="background: #6366f1; color: white; padding: 10px 20px; text-decoration: none; border-radius: 5px;">View Order</a>
+            <p>Thank you for choosing 3D Print Pro!</p>
+          </div>
+        `,
+        text: `We have refunded ${amount} for ${refundOf} ${order.orderNumber}. Reason: ${refund.reason}`
+      };
+
+      const mailOptions = {
+        from: process.env.FROM_EMAIL || 'noreply@3dprintpro.com',
+        to: order.user.email,
+        subject: template.subject,
+        html: template.html,
+        text: template.text,
+      };
+
+      await this.transporter.sendMail(mailOptions);
+      console.log(`Refund email sent to ${order.user.email} for order ${order.orderNumber}`);
+      return true;
+    } catch (error) {
+      console.error('Error sending refund email:', error);
+      return false;
+    }
+  }
 }
 
 export default new EmailService();
@@ -0,0 +1,285 @@
+import { Invoice, InvoiceType, Prisma, PrismaClient, ShippingMethod, VatRule } from '@prisma/client';
+import { InvoiceDocument, InvoiceLine, InvoiceParty } from '../utils/invoicePdf';
+import { roundToOre } from '../utils/pricingEngine';
+
+const prisma = new PrismaClient();
+
+type InvoiceWithOrder = Invoice & {
+  order: { orderNumber: string; userId: string };
+  creditedInvoice: Invoice | null;
+};
+
+const NUMBER_PREFIX: Record<InvoiceType, string> = {
+  INVOICE: 'F',
+  CREDIT_NOTE: 'K',
+};
+
+const formatAmount = (amount: number): string =>
+  new Intl.NumberFormat('da-DK', { minimumFractionDigits: 2, maximumFractionDigits: 2 }).format(amount);
+
+// Printed under the totals when no VAT or foreign VAT is charged
+const VAT_NOTES: Record<VatRule, string | null> = {
+  DOMESTIC: null,
+  EU_DISTANCE_SALE: 'VAT charged at the rate of the country of delivery.',
+  REVERSE_CHARGE: 'Reverse charge: VAT to be accounted for by the recipient (Article 196, Council Directive 2006/112/EC).',
+  EXPORT: 'Export outside the EU, exempt from VAT.',
+};
+
+const SHIPPING_DESCRIPTIONS: Record<ShippingMethod, string> = {
+  PICKUP: 'Pickup',
+  PARCEL_SHOP: 'Shipping to parcel shop',
+  HOME_DELIVERY: 'Home delivery',
+};
+
+// The selling company as printed on every document
+const getSeller = (): InvoiceParty => ({
+  name: process.env.COMPANY_NAME || '3D Print Pro ApS',
+  cvr: process.env.COMPANY_CVR || null,
+  address: (process.env.COMPANY_ADDRESS || '').split(',').map(line => line.trim()).filter(Boolean),
+  vatNumber: process.env.COMPANY_CVR ? `${process.env.COMPANY_COUNTRY || 'DK'}${process.env.COMPANY_CVR}` : null,
+  email: process.env.COMPANY_EMAIL || null,
+});
+
+class InvoiceService {
+  // F-000042 for invoices, K-000007 for credit notes
+  formatNumber(invoice: Pick<Invoice, 'type' | 'number'>): string {
+    return `${NUMBER_PREFIX[invoice.type]}-${String(invoice.number).padStart(6, '0')}`;
+  }
+
+  async getInvoice(id: string): Promise<InvoiceWithOrder | null> {
+    try {
+      return await prisma.invoice.findUnique({
+        where: { id },
+        include: { order: { select: { orderNumber: true, userId: true } }, creditedInvoice: true },
+      });
+    } catch (error) {
+      console.error('Error fetching invoice:', error);
+      throw error;
+    }
+  }
+
+  // The order's invoice followed by its credit notes
+  async getInvoicesForOrder(orderId: string): Promise<Invoice[]> {
+    try {
+      return await prisma.invoice.findMany({
+        where: { orderId },
+        orderBy: [{ type: 'asc' }, { number: 'asc' }],
+      });
+    } catch (error) {
+      console.error('Error fetching order invoices:', error);
+      throw error;
+    }
+  }
+
+  // For the bookkeeper: every document issued in a period, in number order
+  async listInvoices(filters: { type?: InvoiceType; from?: Date; to?: Date }): Promise<Invoice[]> {
+    try {
+      return await prisma.invoice.findMany({
+        where: {
+          ...(filters.type && { type: filters.type }),
+          ...((filters.from || filters.to) && {
+            issuedAt: {
+              ...(filters.from && { gte: filters.from }),
+              ...(filters.to && { lt: filters.to }),
+            },
+          }),
+        },
+        include: { order: { select: { orderNumber: true } } },
+        orderBy: [{ type: 'asc' }, { number: 'asc' }],
+      });
+    } catch (error) {
+      console.error('Error listing invoices:', error);
+      throw error;
+    }
+  }
+
+  // Invoice a paid order. An order has one invoice; asking again returns it.
+  async issueInvoice(orderId: string): Promise<Invoice> {
+    try {
+      const existing = await prisma.invoice.findUnique({ where: { invoicedOrderId: orderId } });
+      if (existing) {
+        return existing;
+      }
+
+      const order = await prisma.order.findUniqueOrThrow({
+        where: { id: orderId },
+        include: {
+          items: { include: { stlFile: true, material: true } },
+          promoCode: true,
+          shippingAddress: true,
+          user: { include: { organization: true, addresses: true } },
+        },
+      });
+
+      const lines: InvoiceLine[] = order.items.map(item => ({
+        description: `${item.stlFile.originalName} - ${item.material.name}${item.color ? ` (${item.color})` : ''}`,
+        details: [
+          `Material ${formatAmount(item.materialCost)}`,
+          `Electricity ${formatAmount(item.electricityCost)}`,
+          `Labour ${formatAmount(item.laborCost)}`,
+          ...(item.discount > 0 ? [`Quantity discount -${formatAmount(item.discount)}`] : []),
+          `Platform fee ${formatAmount(item.platformFee)}`,
+        ],
+        quantity: item.quantity,
+        unitPrice: roundToOre(item.totalCost / item.quantity),
+        amount: item.totalCost,
+      }));
+      if (order.discountAmount > 0) {
+        lines.push({
+          description: `Promo code ${order.promoCode?.code || ''}`.trim(),
+          quantity: 1,
+          unitPrice: -order.discountAmount,
+          amount: -order.discountAmount,
+        });
+      }
+      if (order.shippingMethod !== 'PICKUP') {
+        lines.push({
+          description: SHIPPING_DESCRIPTIONS[order.shippingMethod],
+          details: order.shippingWeight ? [`Parcel ${(order.shippingWeight / 1000).toFixed(2)} kg`] : [],
+          quantity: 1,
+          unitPrice: order.shippingCost,
+          amount: order.shippingCost,
+        });
+      }
+
+      const billing = order.user.addresses.find(address => address.type === 'BILLING' && address.isDefault) ||
+        order.user.addresses.find(address => address.type === 'BILLING') ||
+        order.shippingAddress;
+      const person = `${order.user.firstName} ${order.user.lastName}`;
+      const buyer: InvoiceParty = {
+        name: order.user.organization?.name || person,
+        attention: order.user.organization ? person : null,
+        vatNumber: order.customerVatNumber, // the number the order was charged VAT under
+        address: billing
+          ? [billing.street, `${billing.postalCode} ${billing.city}`, billing.country]
+          : [],
+        email: order.user.email,
+      };
+
+      return await this.createDocument({
+        type: 'INVOICE',
+        orderId,
+        currency: order.currency,
+        buyer,
+        lines,
+        subtotal: roundToOre(order.subtotal + order.shippingCost),
+        vatRate: order.vatRate,
+        vatRule: order.vatRule,
+        vatAmount: order.taxAmount,
+        total: order.totalAmount,
+      });
+    } catch (error) {
+      console.error('Error issuing invoice:', error);
+      throw error;
+    }
+  }
+
+  // Credit note for a succeeded refund, referencing the order's invoice. The refunded
+  // amount includes VAT, which is split out at the invoice's rate.
+  async issueCreditNote(refundId: string): Promise<Invoice> {
+    try {
+      const existing = await prisma.invoice.findUnique({ where: { refundId } });
+      if (existing) {
+        return existing;
+      }
+
+      const refund = await prisma.refund.findUniqueOrThrow({
+        where: { id: refundId },
+        include: { orderItem: { include: { stlFile: true, material: true } } },
+      });
+      const invoice = await this.issueInvoice(refund.orderId);
+
+      const subtotal = roundToOre(refund.amount / (1 + invoice.vatRate / 100));
+      const description = refund.orderItem
+        ? `Refund: ${refund.orderItem.stlFile.originalName} - ${refund.orderItem.material.name}`
+        : 'Refund of order';
+
+      return await this.createDocument({
+        type: 'CREDIT_NOTE',
+        orderId: refund.orderId,
+        refundId: refund.id,
+        creditedInvoiceId: invoice.id,
+        currency: invoice.currency,
+        buyer: invoice.buyer as unknown as InvoiceParty,
+        lines: [{ description: `${description} (${refund.reason})`, quantity: 1, unitPrice: subtotal, amount: subtotal }],
+        subtotal,
+        vatRate: invoice.vatRate,
+        vatRule: invoice.vatRule,
+        vatAmount: roundToOre(refund.amount - subtotal),
+        total: refund.amount,
+      });
+    } catch (error) {
+      console.error('Error issuing credit note:', error);
+      throw error;
+    }
+  }
+
+  // What the PDF prints
+  toDocument(invoice: InvoiceWithOrder): InvoiceDocument {
+    return {
+      type: invoice.type,
+      displayNumber: this.formatNumber(invoice),
+      issuedAt: invoice.issuedAt,
+      orderNumber: invoice.order.orderNumber,
+      creditedInvoiceNumber: invoice.creditedInvoice ? this.formatNumber(invoice.creditedInvoice) : null,
+      currency: invoice.currency,
+      seller: invoice.seller as unknown as InvoiceParty,
+      buyer: invoice.buyer as unknown as InvoiceParty,
+      lines: invoice.lines as unknown as InvoiceLine[],
+      subtotal: invoice.subtotal,
+      vatRate: invoice.vatRate,
+      vatAmount: invoice.vatAmount,
+      total: invoice.total,
+      vatNote: VAT_NOTES[invoice.vatRule],
+      note: invoice.type === 'INVOICE' ? 'Paid by card at checkout.' : 'The amount is returned to the original payment method.',
+    };
+  }
+
+  // The number is taken from the series in the same transaction that stores the
+  // document, so numbers are only used by documents that exist. An order has one
+  // invoice and a refund one credit note; when the document already exists it is
+  // returned instead.
+  private async createDocument(data: Omit<Prisma.InvoiceUncheckedCreateInput, 'number' | 'invoicedOrderId' | 'seller' | 'buyer' | 'lines'> & {
+    buyer: InvoiceParty;
+    lines: InvoiceLine[];
+  }): Promise<Invoice> {
+    const key: Prisma.InvoiceWhereUniqueInput = data.type === 'INVOICE'
+      ? { invoicedOrderId: data.orderId }
+      : { refundId: data.refundId! };
+
+    try {
+      return await prisma.$transaction(async tx => {
+        const existing = await tx.invoice.findUnique({ where: key });
+        if (existing) {
+          return existing;
+        }
+
+        const sequence = await tx.invoiceSequence.upsert({
+          where: { type: data.type },
+          create: { type: data.type, nextNumber: 2 },
+          update: { nextNumber: { increment: 1 } },
+        });
+
+        return tx.invoice.create({
+          data: {
+            ...data,
+            number: sequence.nextNumber - 1,
+            invoicedOrderId: data.type === 'INVOICE' ? data.orderId : null,
+            seller: getSeller() as unknown as Prisma.InputJsonValue,
+            buyer: data.buyer as unknown as Prisma.InputJsonValue,
+            lines: data.lines as unknown as Prisma.InputJsonValue,
+          },
+        });
+      });
+    } catch (error) {
+      // A concurrent issue of the same document committed first; rolling back this
+      // transaction also gave its number back to the series
+      if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+        return prisma.invoice.findUniqueOrThrow({ where: key });
+      }
+      throw error;
+    }
+  }
+}
+
+export default new InvoiceService();
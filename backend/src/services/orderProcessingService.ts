@@ -1,28 +1,70 @@
-import { PrismaClient, Order, OrderStatus, PrintStatus } from '@prisma/client';
+import { PrismaClient, Order, OrderStatus, PrintStatus, Prisma } from '@prisma/client';
 import emailService from './emailService';
 import chatService from './chatService';
+import printerService from './printerService';
+import schedulerService from './schedulerService';
+import { mayTransition, StatusActor, SYSTEM_ACTOR } from '../utils/orderStateMachine';
 
 const prisma = new PrismaClient();
 
 class OrderProcessingService {
-  async updateOrderStatus(orderId: string, newStatus: OrderStatus, notes?: string): Promise<Order | null> {
+  // Move the order along the transition table and record the change in its history.
+  // Throws when the actor may not make the move; callers check first with the state machine.
+  // `changes` are other order fields that belong to the move (e.g. tracking for SHIPPED)
+  // and are only written if the status is.
+  async updateOrderStatus(
+    orderId: string,
+    newStatus: OrderStatus,
+    notes?: string,
+    actor: StatusActor = SYSTEM_ACTOR,
+    changes: Prisma.OrderUpdateManyMutationInput = {}
+  ): Promise<Order | null> {
     try {
-      const order = await prisma.order.update({
-        where: { id: orderId },
-        data: { 
-          status: newStatus,
-          ...(notes && { notes }),
-          ...(newStatus === 'COMPLETED' && { completedAt: new Date() }),
-        },
-        include: {
-          user: true,
-          items: {
-            include: {
-              stlFile: true,
-              material: true,
+      const current = await prisma.order.findUnique({ where: { id: orderId }, select: { status: true } });
+      if (!current) {
+        return null;
+      }
+      if (!mayTransition(current.status, newStatus, actor.role)) {
+        throw new Error(`${actor.role} cannot move order from ${current.status} to ${newStatus}`);
+      }
+
+      // Only from the status that was checked, so two changes at once cannot both pass
+      const order = await prisma.$transaction(async tx => {
+        const { count } = await tx.order.updateMany({
+          where: { id: orderId, status: current.status },
+          data: {
+            ...changes,
+            status: newStatus,
+            ...(newStatus === 'COMPLETED' && { completedAt: new Date() }),
+          },
+        });
+        if (count === 0) {
+          throw new Error('Order status changed while updating it');
+        }
+
+        await tx.orderStatusHistory.create({
+          data: {
+            orderId,
+            fromStatus: current.status,
+            toStatus: newStatus,
+            actorId: actor.id || null,
+            actorRole: actor.role,
+            note: notes || null,
+          },
+        });
+
+        return tx.order.findUniqueOrThrow({
+          where: { id: orderId },
+          include: {
+            user: true,
+            items: {
+              include: {
+                stlFile: true,
+                material: true,
+              }
             }
           }
-        }
+        });
       });
 
       // Send notifications
@@ -42,6 +84,11 @@ class OrderProcessingService {
   }
 
   private async sendOrderNotifications(order: Order & { user: any }, status: OrderStatus): Promise<void> {
+    // Refunds send their own email with the amount
+    if (status === 'REFUNDED') {
+      return;
+    }
+
     try {
       // Send email notification
       await emailService.sendOrderStatusUpdate(order.id, status);
@@ -83,7 +130,7 @@ class OrderProcessingService {
           create: {
             orderItemId: item.id,
             status: printJobStatus,
-            printerId: 'bamboo-x1-carbon-1',
+            ...(await this.getPrinterAssignment(item.id)),
             ...(status === 'PRINTING' && { startedAt: new Date() }),
             ...(status === 'COMPLETED' && { completedAt: new Date() }),
           }
@@ -94,6 +141,24 @@ class OrderProcessingService {
     }
   }
 
+  // Jobs only go to printers that fit the part and run the material; without one
+  // the job stays unassigned for an operator to resolve
+  private async getPrinterAssignment(orderItemId: string): Promise<{ printerId: string | null; errorMessage?: string }> {
+    const printer = await printerService.selectPrinterForOrderItem(orderItemId);
+    return printer
+      ? { printerId: printer.id }
+      : { printerId: null, errorMessage: 'No compatible printer available' };
+  }
+
+  // A failed re-plan leaves the previous schedule in place; the periodic re-plan retries it
+  private async replanSchedule(): Promise<void> {
+    try {
+      await schedulerService.replan();
+    } catch (error) {
+      // Already logged by the scheduler
+    }
+  }
+
   private mapOrderStatusToPrintStatus(orderStatus: OrderStatus): PrintStatus {
     switch (orderStatus) {
       case 'IN_QUEUE':
@@ -143,11 +208,14 @@ class OrderProcessingService {
           data: {
             orderItemId: item.id,
             status: 'QUEUED',
-            printerId: 'bamboo-x1-carbon-1',
+            ...(await this.getPrinterAssignment(item.id)),
           }
         });
       }
 
+      // Give the new jobs a printer and a slot on its timeline
+      await this.replanSchedule();
+
       // Update order status to payment confirmed
       const updatedOrder = await this.updateOrderStatus(orderId, 'PAYMENT_CONFIRMED');
 
@@ -168,6 +236,7 @@ class OrderProcessingService {
         completedOrders,
         averageProcessingTime,
         lowStockMaterials,
+        promoRedemptions,
       ] = await Promise.all([
         prisma.order.count(),
         prisma.order.count({
@@ -181,6 +250,12 @@ class OrderProcessingService {
         }),
         this.calculateAverageProcessingTime(),
         this.getLowStockMaterials(),
+        prisma.order.groupBy({
+          by: ['exchangeRate'],
+          where: { promoCodeId: { not: null }, status: { notIn: ['CANCELLED', 'REFUNDED'] } },
+          _count: { _all: true },
+          _sum: { discountAmount: true },
+        }),
       ]);
 
       return {
@@ -190,6 +265,9 @@ class OrderProcessingService {
         completedOrders,
         averageProcessingTime,
         lowStockMaterials,
+        promoRedemptions: promoRedemptions.reduce((sum, row) => sum + row._count._all, 0),
+        // In DKK, at the rate each order was placed at
+        promoDiscountTotal: promoRedemptions.reduce((sum, row) => sum + (row._sum.discountAmount || 0) * row.exchangeRate, 0),
         processingRate: totalOrders > 0 ? (completedOrders / totalOrders) * 100 : 0,
       };
     } catch (error) {
@@ -319,10 +397,12 @@ class OrderProcessingService {
               stlFile: true,
               material: true,
             }
-          }
+          },
+          printer: true,
         },
         orderBy: [
           { status: 'asc' },
+          { scheduledStart: 'asc' },
           { createdAt: 'asc' }
         ]
       });
@@ -354,12 +434,31 @@ class OrderProcessingService {
         }
       });
 
-      // Update corresponding order status if needed
+      // The spool of a started job is what the printer holds from now on
+      if (status === 'PRINTING' && printJob.printerId) {
+        await prisma.printer.update({
+          where: { id: printJob.printerId },
+          data: {
+            loadedMaterialId: printJob.orderItem.materialId,
+            loadedColor: printJob.orderItem.color,
+          },
+        });
+      }
+
+      // Update corresponding order status if needed. The order only moves on once all its
+      // jobs are done, and a job update that does not fit where the order is leaves it alone.
+      const order = printJob.orderItem.order;
       const orderStatus = this.mapPrintStatusToOrderStatus(status);
-      if (orderStatus) {
-        await this.updateOrderStatus(printJob.orderItem.order.id, orderStatus, notes);
+      const jobsDone = status !== 'COMPLETED' || await prisma.printJob.count({
+        where: { orderItem: { orderId: order.id }, status: { notIn: ['COMPLETED', 'CANCELLED'] } },
+      }) === 0;
+      if (orderStatus && jobsDone && mayTransition(order.status, orderStatus, 'SYSTEM')) {
+        await this.updateOrderStatus(order.id, orderStatus, notes);
       }
 
+      // A finished, failed or paused job frees or blocks its printer earlier or later than planned
+      await this.replanSchedule();
+
       return printJob;
     } catch (error) {
       console.error('Error updating print job status:', error);
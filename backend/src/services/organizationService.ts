@@ -0,0 +1,105 @@
+import { Organization, Prisma, PrismaClient } from '@prisma/client';
+import { PricingSettings } from './pricingSettingsService';
+
+const prisma = new PrismaClient();
+
+// Negotiated rates an organization can override in the active pricing version
+const NEGOTIABLE_SETTINGS = [
+  'laborRatePerHour',
+  'materialMarkup',
+  'platformFeePercentage',
+  'minimumOrderValue',
+] as const;
+
+class OrganizationService {
+  async getOrganizations(includeInactive: boolean = false): Promise<Organization[]> {
+    try {
+      return await prisma.organization.findMany({
+        where: includeInactive ? {} : { isActive: true },
+        include: { _count: { select: { users: true } } },
+        orderBy: { name: 'asc' },
+      });
+    } catch (error) {
+      console.error('Error fetching organizations:', error);
+      throw error;
+    }
+  }
+
+  async getOrganization(id: string): Promise<Organization | null> {
+    try {
+      return await prisma.organization.findUnique({
+        where: { id },
+        include: {
+          users: { select: { id: true, email: true, firstName: true, lastName: true, role: true } },
+        },
+      });
+    } catch (error) {
+      console.error('Error fetching organization:', error);
+      throw error;
+    }
+  }
+
+  async createOrganization(data: Prisma.OrganizationCreateInput): Promise<Organization> {
+    try {
+      return await prisma.organization.create({ data });
+    } catch (error) {
+      console.error('Error creating organization:', error);
+      throw error;
+    }
+  }
+
+  async updateOrganization(id: string, data: Prisma.OrganizationUpdateInput): Promise<Organization> {
+    try {
+      return await prisma.organization.update({ where: { id }, data });
+    } catch (error) {
+      console.error('Error updating organization:', error);
+      throw error;
+    }
+  }
+
+  // A user belongs to at most one organization; null takes them out of it
+  async setMembership(userId: string, organizationId: string | null): Promise<void> {
+    try {
+      await prisma.user.update({ where: { id: userId }, data: { organizationId } });
+    } catch (error) {
+      console.error('Error updating organization membership:', error);
+      throw error;
+    }
+  }
+
+  // The user's active organization, if they belong to one
+  async getOrganizationForUser(userId?: string): Promise<Organization | null> {
+    if (!userId) {
+      return null;
+    }
+
+    try {
+      const user = await prisma.user.findUnique({
+        where: { id: userId },
+        include: { organization: true },
+      });
+      return user?.organization?.isActive ? user.organization : null;
+    } catch (error) {
+      console.error('Error fetching organization for user:', error);
+      throw error;
+    }
+  }
+
+  // Negotiated rates replace the price list's; everything else stays as it is
+  applyNegotiatedRates(settings: PricingSettings, organization: Organization | null): PricingSettings {
+    if (!organization) {
+      return settings;
+    }
+
+    const rates = { ...settings };
+    for (const key of NEGOTIABLE_SETTINGS) {
+      const value = organization[key];
+      if (value !== null) {
+        rates[key] = value;
+      }
+    }
+    return rates;
+  }
+}
+
+export default new OrganizationService();
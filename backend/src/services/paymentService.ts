@@ -0,0 +1,579 @@
+import { Payment, PaymentMethod, PaymentStatus, Prisma, PrismaClient, Refund, RefundStatus } from '@prisma/client';
+import Stripe from 'stripe';
+import orderProcessingService from './orderProcessingService';
+import emailService from './emailService';
+import invoiceService from './invoiceService';
+import { roundToOre } from '../utils/pricingEngine';
+import { mayTransition } from '../utils/orderStateMachine';
+
+const prisma = new PrismaClient();
+
+interface CheckoutSession {
+  paymentId: string;
+  paymentIntentId: string;
+  clientSecret: string | null;
+  amount: number;
+  currency: string;
+  status: PaymentStatus;
+  publishableKey?: string;
+}
+
+interface RefundRequest {
+  amount?: number; // the whole refundable amount of the order or item when left out
+  reason: string;
+  orderItemId?: string; // refund of a single item
+  createdById?: string;
+}
+
+interface RefundSummary {
+  payment: Payment | null; // completed payment refunds go against
+  refundable: number; // not yet refunded or being refunded
+  items: {
+    orderItemId: string;
+    refundable: number; // the item's share of the payment, less its refunds
+  }[];
+  refunds: Refund[];
+}
+
+// Why a refund could not be made, with the HTTP status to answer
+interface RefundRejection {
+  error: string;
+  status: 400 | 404;
+}
+
+type RefundOutcome = { refund: Refund } | RefundRejection;
+
+// Refunds that count against what can still be refunded
+const OPEN_REFUND_STATUSES: RefundStatus[] = ['PENDING', 'SUCCEEDED'];
+
+// A payment in one of these has been settled (and possibly refunded since); a late or
+// replayed PaymentIntent event must not move it back
+const SETTLED_PAYMENT_STATUSES: PaymentStatus[] = ['COMPLETED', 'CANCELLED', 'REFUNDED', 'PARTIALLY_REFUNDED'];
+
+// Print jobs that can still be stopped when their item is refunded
+const UNSTARTED_PRINT_STATUSES = ['QUEUED', 'PREPARING', 'PAUSED'] as const;
+
+const REFUND_RESERVE_ATTEMPTS = 3;
+
+// Stripe amounts are in the currency's minor unit (øre, cents)
+const toMinorUnits = (amount: number): number => Math.round(amount * 100);
+const fromMinorUnits = (amount: number): number => amount / 100;
+
+class PaymentService {
+  // STRIPE_API_HOST/PORT/PROTOCOL point the client at a local stripe-mock in development and tests
+  private readonly stripe = new Stripe(process.env.STRIPE_SECRET_KEY || 'sk_test_123', {
+    ...(process.env.STRIPE_API_HOST && {
+      host: process.env.STRIPE_API_HOST,
+      port: parseInt(process.env.STRIPE_API_PORT || '12111'),
+      protocol: (process.env.STRIPE_API_PROTOCOL || 'http') as 'http' | 'https',
+    }),
+  });
+
+  // Start paying for an order. An attempt that has not failed is reused, so
+  // reloading the checkout page does not create a second PaymentIntent.
+  async createPaymentIntent(orderId: string, userId: string): Promise<CheckoutSession> {
+    try {
+      const order = await prisma.order.findFirst({
+        where: { id: orderId, userId },
+        include: { payments: { orderBy: { createdAt: 'desc' } } },
+      });
+      if (!order) {
+        throw new Error('Order not found');
+      }
+      if (order.status !== 'PENDING_PAYMENT') {
+        throw new Error('Order is not awaiting payment');
+      }
+
+      const open = order.payments.find(payment =>
+        ['PENDING', 'PROCESSING'].includes(payment.status) && payment.stripePaymentId
+      );
+      if (open && open.amount === order.totalAmount) {
+        const intent = await this.stripe.paymentIntents.retrieve(open.stripePaymentId!);
+        return this.toCheckoutSession(open, intent);
+      }
+      if (open) {
+        // The order total changed since the intent was created
+        await this.stripe.paymentIntents.cancel(open.stripePaymentId!);
+        await prisma.payment.update({ where: { id: open.id }, data: { status: 'CANCELLED' } });
+      }
+
+      const intent = await this.stripe.paymentIntents.create({
+        amount: toMinorUnits(order.totalAmount),
+        currency: order.currency.toLowerCase(),
+        automatic_payment_methods: { enabled: true },
+        metadata: { orderId: order.id, orderNumber: order.orderNumber },
+      }, {
+        idempotencyKey: `order-${order.id}-attempt-${order.payments.length + 1}`,
+      });
+
+      const payment = await prisma.payment.create({
+        data: {
+          orderId: order.id,
+          amount: order.totalAmount,
+          currency: order.currency,
+          status: 'PENDING',
+          method: 'CARD',
+          stripePaymentId: intent.id,
+        },
+      });
+      await prisma.order.update({
+        where: { id: order.id },
+        data: { paymentIntentId: intent.id, paymentStatus: 'PENDING' },
+      });
+
+      return this.toCheckoutSession(payment, intent);
+    } catch (error) {
+      console.error('Error creating payment intent:', error);
+      throw error;
+    }
+  }
+
+  // Confirm the order's open PaymentIntent server side with a payment method
+  // collected by Stripe Elements (or a test method such as pm_card_visa)
+  async confirmPayment(orderId: string, userId: string, paymentMethodId: string): Promise<CheckoutSession> {
+    try {
+      const payment = await prisma.payment.findFirst({
+        where: {
+          orderId,
+          order: { userId },
+          status: { in: ['PENDING', 'PROCESSING'] },
+          stripePaymentId: { not: null },
+        },
+        orderBy: { createdAt: 'desc' },
+      });
+      if (!payment) {
+        throw new Error('No open payment for this order');
+      }
+
+      const confirmed = await this.stripe.paymentIntents.confirm(payment.stripePaymentId!, {
+        payment_method: paymentMethodId,
+        return_url: `${process.env.FRONTEND_URL || 'http://localhost:3000'}/orders/${orderId}`,
+      });
+      const intent = await this.syncPaymentIntent(confirmed) || confirmed;
+
+      const updated = await prisma.payment.findUnique({ where: { id: payment.id } });
+      return this.toCheckoutSession(updated || payment, intent);
+    } catch (error) {
+      console.error('Error confirming payment:', error);
+      throw error;
+    }
+  }
+
+  async getPayments(orderId: string): Promise<Payment[]> {
+    try {
+      return await prisma.payment.findMany({
+        where: { orderId },
+        orderBy: { createdAt: 'desc' },
+      });
+    } catch (error) {
+      console.error('Error fetching payments:', error);
+      throw error;
+    }
+  }
+
+  // Throws when the signature does not match the raw request body
+  constructWebhookEvent(payload: Buffer, signature: string | string[] | undefined, secret: string): Stripe.Event {
+    return this.stripe.webhooks.constructEvent(payload, signature as string, secret);
+  }
+
+  async isEventProcessed(eventId: string): Promise<boolean> {
+    try {
+      return (await prisma.stripeEvent.count({ where: { id: eventId } })) > 0;
+    } catch (error) {
+      console.error('Error checking Stripe event:', error);
+      throw error;
+    }
+  }
+
+  // Only recorded once the event has been applied, so a failed attempt is retried by Stripe
+  async markEventProcessed(event: Stripe.Event): Promise<void> {
+    try {
+      await prisma.stripeEvent.upsert({
+        where: { id: event.id },
+        create: { id: event.id, type: event.type },
+        update: {},
+      });
+    } catch (error) {
+      console.error('Error recording Stripe event:', error);
+      throw error;
+    }
+  }
+
+  // Bring the Payment row and its order in line with the PaymentIntent. The intent is
+  // fetched again so events arriving out of order cannot move a payment backwards.
+  async syncPaymentIntent(eventIntent: Stripe.PaymentIntent): Promise<Stripe.PaymentIntent | null> {
+    try {
+      const payment = await prisma.payment.findUnique({ where: { stripePaymentId: eventIntent.id } });
+      if (!payment) {
+        console.warn(`No payment recorded for PaymentIntent ${eventIntent.id}`);
+        return null;
+      }
+
+      const intent = await this.stripe.paymentIntents.retrieve(eventIntent.id, {
+        expand: ['payment_method', 'latest_charge'],
+      });
+      const status = this.toPaymentStatus(intent);
+      if (SETTLED_PAYMENT_STATUSES.includes(payment.status) || payment.status === status) {
+        return intent; // nothing new
+      }
+
+      // Guarded on the status so the webhook and a server-side confirm racing each other
+      // only complete the order once
+      const charge = intent.latest_charge as Stripe.Charge | null;
+      const { count } = await prisma.payment.updateMany({
+        where: { id: payment.id, status: { notIn: SETTLED_PAYMENT_STATUSES } },
+        data: {
+          status,
+          amountReceived: fromMinorUnits(intent.amount_received),
+          stripeChargeId: charge?.id || null,
+          failureMessage: status === 'FAILED' ? intent.last_payment_error?.message || 'Payment failed' : null,
+          ...(intent.payment_method && { method: this.toPaymentMethod(intent.payment_method as Stripe.PaymentMethod) }),
+          ...(status === 'COMPLETED' && { processedAt: new Date() }),
+        },
+      });
+      if (count === 0) {
+        return intent;
+      }
+
+      // A failed attempt leaves the order awaiting payment so the customer can try again
+      await prisma.order.update({
+        where: { id: payment.orderId },
+        data: { paymentStatus: status },
+      });
+
+      if (status === 'COMPLETED') {
+        const order = await prisma.order.findUnique({ where: { id: payment.orderId } });
+        if (order?.status === 'PENDING_PAYMENT') {
+          await orderProcessingService.processNewOrder(order.id);
+        }
+        await this.issueDocument(() => invoiceService.issueInvoice(payment.orderId));
+      }
+      return intent;
+    } catch (error) {
+      console.error('Error syncing payment intent:', error);
+      throw error;
+    }
+  }
+
+  // What is left to refund on the order and on each item. An item's share includes
+  // VAT and its part of any promo discount, in proportion to its price.
+  async getRefundSummary(orderId: string, db: Prisma.TransactionClient = prisma): Promise<RefundSummary | null> {
+    try {
+      const order = await db.order.findUnique({
+        where: { id: orderId },
+        include: {
+          items: true,
+          payments: {
+            where: { status: { in: ['COMPLETED', 'PARTIALLY_REFUNDED', 'REFUNDED'] } },
+            orderBy: { createdAt: 'desc' },
+          },
+          refunds: { orderBy: { createdAt: 'desc' } },
+        },
+      });
+      if (!order) {
+        return null;
+      }
+
+      const payment = order.payments[0] || null;
+      const paid = payment ? payment.amountReceived || payment.amount : 0;
+      const reserved = (refunds: Refund[]) => refunds
+        .filter(refund => refund.paymentId === payment?.id && OPEN_REFUND_STATUSES.includes(refund.status))
+        .reduce((sum, refund) => sum + refund.amount, 0);
+
+      const refundable = roundToOre(Math.max(0, paid - reserved(order.refunds)));
+      const itemsTotal = order.items.reduce((sum, item) => sum + item.totalCost, 0);
+      const items = order.items.map(item => {
+        const share = this.itemShare(paid, item.totalCost, itemsTotal);
+        const itemRefunds = order.refunds.filter(refund => refund.orderItemId === item.id);
+        return {
+          orderItemId: item.id,
+          refundable: roundToOre(Math.max(0, Math.min(share - reserved(itemRefunds), refundable))),
+        };
+      });
+
+      return { payment, refundable, items, refunds: order.refunds };
+    } catch (error) {
+      console.error('Error fetching refund summary:', error);
+      throw error;
+    }
+  }
+
+  // Refund an order, or one of its items, in Stripe. The refund is first reserved as
+  // PENDING so concurrent refunds count it; a refund Stripe rejects is kept as FAILED.
+  async refundPayment(orderId: string, request: RefundRequest): Promise<RefundOutcome> {
+    const reservation = await this.reserveRefund(orderId, request);
+    if (!('refund' in reservation)) {
+      return reservation;
+    }
+    const { payment, refund } = reservation;
+
+    try {
+      const stripeRefund = await this.stripe.refunds.create({
+        payment_intent: payment.stripePaymentId!,
+        amount: toMinorUnits(refund.amount),
+        metadata: {
+          refundId: refund.id,
+          orderId: payment.orderId,
+          ...(request.orderItemId && { orderItemId: request.orderItemId }),
+          reason: request.reason.slice(0, 500),
+        },
+      }, {
+        idempotencyKey: `refund-${refund.id}`,
+      });
+
+      await prisma.refund.update({ where: { id: refund.id }, data: { stripeRefundId: stripeRefund.id } });
+      return { refund: await this.applyRefundStatus(refund.id, stripeRefund) };
+    } catch (error: any) {
+      console.error('Error issuing refund:', error);
+      await prisma.refund.update({
+        where: { id: refund.id },
+        data: { status: 'FAILED', failureReason: error?.message || 'Refund failed' },
+      });
+      throw error;
+    }
+  }
+
+  // Check the amount against what is left to refund and insert the PENDING refund in
+  // one serializable transaction, so two refunds cannot both count the same remainder.
+  // When they do Postgres aborts one (P2034); it is run again and then sees the other.
+  private async reserveRefund(
+    orderId: string,
+    request: RefundRequest
+  ): Promise<{ payment: Payment; refund: Refund } | RefundRejection> {
+    const reject = (error: string, status: 400 | 404 = 400): RefundRejection => ({ error, status });
+    const reserve = async (tx: Prisma.TransactionClient) => {
+      const summary = await this.getRefundSummary(orderId, tx);
+      if (!summary) {
+        return reject('Order not found', 404);
+      }
+      const payment = summary.payment;
+      if (!payment?.stripePaymentId) {
+        return reject('Order has no completed payment to refund');
+      }
+
+      let refundable = summary.refundable;
+      if (request.orderItemId) {
+        const item = summary.items.find(item => item.orderItemId === request.orderItemId);
+        if (!item) {
+          return reject('Order item not found', 404);
+        }
+        refundable = item.refundable;
+      }
+
+      if (refundable <= 0) {
+        return reject('Nothing left to refund');
+      }
+      if (request.amount !== undefined && request.amount > refundable) {
+        return reject(`At most ${refundable.toFixed(2)} can be refunded`);
+      }
+
+      const refund = await tx.refund.create({
+        data: {
+          paymentId: payment.id,
+          orderId,
+          orderItemId: request.orderItemId || null,
+          amount: request.amount ?? refundable,
+          reason: request.reason,
+          createdById: request.createdById || null,
+        },
+      });
+      return { payment, refund };
+    };
+
+    for (let attempt = 1; ; attempt++) {
+      try {
+        return await prisma.$transaction(reserve, { isolationLevel: Prisma.TransactionIsolationLevel.Serializable });
+      } catch (error) {
+        const conflict = error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2034';
+        if (!conflict || attempt >= REFUND_RESERVE_ATTEMPTS) {
+          console.error('Error reserving refund:', error);
+          throw error;
+        }
+      }
+    }
+  }
+
+  // Refund webhooks. A refund made in the Stripe dashboard has no row yet and is
+  // recorded against the payment it belongs to.
+  async syncStripeRefund(stripeRefund: Stripe.Refund): Promise<Refund | null> {
+    try {
+      let refund = await prisma.refund.findFirst({
+        where: {
+          OR: [
+            { stripeRefundId: stripeRefund.id },
+            ...(stripeRefund.metadata?.refundId ? [{ id: stripeRefund.metadata.refundId }] : []),
+          ],
+        },
+      });
+
+      if (!refund) {
+        const paymentIntentId = typeof stripeRefund.payment_intent === 'string'
+          ? stripeRefund.payment_intent
+          : stripeRefund.payment_intent?.id;
+        const payment = paymentIntentId
+          ? await prisma.payment.findUnique({ where: { stripePaymentId: paymentIntentId } })
+          : null;
+        if (!payment) {
+          console.warn(`No payment recorded for refund ${stripeRefund.id}`);
+          return null;
+        }
+
+        refund = await prisma.refund.create({
+          data: {
+            paymentId: payment.id,
+            orderId: payment.orderId,
+            amount: fromMinorUnits(stripeRefund.amount),
+            reason: stripeRefund.reason || 'Refunded in Stripe',
+            stripeRefundId: stripeRefund.id,
+          },
+        });
+      }
+
+      return await this.applyRefundStatus(refund.id, stripeRefund);
+    } catch (error) {
+      console.error('Error syncing refund:', error);
+      throw error;
+    }
+  }
+
+  // Record Stripe's outcome for a refund, then bring the payment, the order and its
+  // print jobs in line. Guarded on the status so a redelivered outcome is applied once.
+  private async applyRefundStatus(refundId: string, stripeRefund: Stripe.Refund): Promise<Refund> {
+    const status = this.toRefundStatus(stripeRefund);
+    const { count } = await prisma.refund.updateMany({
+      where: { id: refundId, status: { not: status } },
+      data: {
+        status,
+        stripeRefundId: stripeRefund.id,
+        failureReason: status === 'FAILED' ? stripeRefund.failure_reason || 'Refund failed' : null,
+      },
+    });
+    const refund = await prisma.refund.findUniqueOrThrow({ where: { id: refundId } });
+    if (count === 0) {
+      return refund;
+    }
+
+    await this.settleRefunds(refund.paymentId);
+    if (status === 'SUCCEEDED') {
+      await this.issueDocument(() => invoiceService.issueCreditNote(refund.id));
+      await emailService.sendRefundNotification(refund.id);
+    }
+    return refund;
+  }
+
+  // The payment stands even if its paperwork fails; an admin can issue it again
+  private async issueDocument(issue: () => Promise<unknown>): Promise<void> {
+    try {
+      await issue();
+    } catch (error) {
+      // Already logged by the invoice service
+    }
+  }
+
+  // Totals on the payment and the order follow from the succeeded refunds
+  private async settleRefunds(paymentId: string): Promise<void> {
+    const payment = await prisma.payment.findUniqueOrThrow({
+      where: { id: paymentId },
+      include: {
+        refunds: { where: { status: 'SUCCEEDED' }, orderBy: { createdAt: 'desc' } },
+        order: { include: { items: true } },
+      },
+    });
+
+    const refunded = roundToOre(payment.refunds.reduce((sum, refund) => sum + refund.amount, 0));
+    const fullyRefunded = refunded >= (payment.amountReceived || payment.amount);
+    const status: PaymentStatus = refunded === 0 ? 'COMPLETED' : fullyRefunded ? 'REFUNDED' : 'PARTIALLY_REFUNDED';
+
+    await prisma.payment.update({
+      where: { id: payment.id },
+      data: { refundAmount: refunded, refundReason: payment.refunds[0]?.reason || null, status },
+    });
+
+    // Nothing left to make once the money is all back; otherwise stop the refunded items
+    const paid = payment.amountReceived || payment.amount;
+    const itemsTotal = payment.order.items.reduce((sum, item) => sum + item.totalCost, 0);
+    const refundedItemIds = payment.order.items
+      .filter(item => fullyRefunded || roundToOre(payment.refunds
+        .filter(refund => refund.orderItemId === item.id)
+        .reduce((sum, refund) => sum + refund.amount, 0)) >= this.itemShare(paid, item.totalCost, itemsTotal))
+      .map(item => item.id);
+    if (refundedItemIds.length > 0) {
+      await prisma.printJob.updateMany({
+        where: { orderItemId: { in: refundedItemIds }, status: { in: [...UNSTARTED_PRINT_STATUSES] } },
+        data: { status: 'CANCELLED' },
+      });
+    }
+
+    await prisma.order.update({
+      where: { id: payment.orderId },
+      data: { paymentStatus: status },
+    });
+    if (fullyRefunded && mayTransition(payment.order.status, 'REFUNDED', 'SYSTEM')) {
+      await orderProcessingService.updateOrderStatus(payment.orderId, 'REFUNDED', 'Refunded in full');
+    }
+  }
+
+  private itemShare(paid: number, itemCost: number, itemsTotal: number): number {
+    return itemsTotal > 0 ? roundToOre(paid * (itemCost / itemsTotal)) : 0;
+  }
+
+  private toRefundStatus(refund: Stripe.Refund): RefundStatus {
+    switch (refund.status) {
+      case 'succeeded':
+        return 'SUCCEEDED';
+      case 'failed':
+        return 'FAILED';
+      case 'canceled':
+        return 'CANCELLED';
+      default:
+        return 'PENDING';
+    }
+  }
+
+  private toPaymentStatus(intent: Stripe.PaymentIntent): PaymentStatus {
+    switch (intent.status) {
+      case 'succeeded':
+        return 'COMPLETED';
+      case 'processing':
+        return 'PROCESSING';
+      case 'canceled':
+        return 'CANCELLED';
+      case 'requires_payment_method':
+        // Back to square one after a declined attempt
+        return intent.last_payment_error ? 'FAILED' : 'PENDING';
+      default:
+        return 'PENDING';
+    }
+  }
+
+  private toPaymentMethod(method: Stripe.PaymentMethod): PaymentMethod {
+    switch (method.type) {
+      case 'card':
+        if (method.card?.wallet?.type === 'apple_pay') return 'APPLE_PAY';
+        if (method.card?.wallet?.type === 'google_pay') return 'GOOGLE_PAY';
+        return 'CARD';
+      case 'sepa_debit':
+        return 'SEPA';
+      case 'klarna':
+        return 'KLARNA';
+      case 'afterpay_clearpay':
+        return 'AFTERPAY';
+      default:
+        return 'CARD';
+    }
+  }
+
+  private toCheckoutSession(payment: Payment, intent: Stripe.PaymentIntent): CheckoutSession {
+    return {
+      paymentId: payment.id,
+      paymentIntentId: intent.id,
+      clientSecret: intent.client_secret,
+      amount: payment.amount,
+      currency: payment.currency,
+      status: payment.status,
+      publishableKey: process.env.STRIPE_PUBLISHABLE_KEY,
+    };
+  }
+}
+
+export default new PaymentService();
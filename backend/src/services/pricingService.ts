@@ -1,60 +1,24 @@
-import { PrismaClient } from '@prisma/client';
-import nordpoolService from './nordpoolService';
-import stlAnalysisService from './stlAnalysisService';
+import { Printer, PrismaClient } from '@prisma/client';
+import type { PricingCalculation, PrintSettings } from '../../../shared/pricing';
+import { BASE_CURRENCY, calculatePricing, convertPricing } from '../utils/pricingEngine';
+import currencyService from './currencyService';
+import electricityPriceService from './electricityPriceService';
+import organizationService from './organizationService';
+import printerService from './printerService';
+import pricingSettingsService, { PricingSettings } from './pricingSettingsService';
 
 const prisma = new PrismaClient();
 
-interface PricingCalculation {
-  materialCost: number;
-  electricityCost: number;
-  laborCost: number;
-  platformFee: number;
-  totalCost: number;
-  breakdown: {
-    material: {
-      cost: number;
-      usage: number; // grams
-      pricePerGram: number;
-    };
-    electricity: {
-      cost: number;
-      consumption: number; // kWh
-      pricePerKwh: number;
-    };
-    labor: {
-      cost: number;
-      hours: number;
-      ratePerHour: number;
-    };
-    platform: {
-      fee: number;
-      percentage: number;
-    };
-  };
-}
-
-interface PricingSettings {
-  laborRatePerHour: number; // DKK per hour
-  platformFeePercentage: number; // 0-100
-  printerPowerConsumption: number; // Watts
-  materialMarkup: number; // 0-100 (percentage markup on material cost)
-  minimumOrderValue: number; // DKK
-}
+type ElectricityBreakdown = PricingCalculation['breakdown']['electricity'];
 
 class PricingService {
-  private readonly DEFAULT_SETTINGS: PricingSettings = {
-    laborRatePerHour: 150, // 150 DKK per hour
-    platformFeePercentage: 15, // 15% platform fee
-    printerPowerConsumption: 200, // 200W average power consumption
-    materialMarkup: 30, // 30% markup on material cost
-    minimumOrderValue: 50, // 50 DKK minimum order
-  };
-
   async calculateOrderPricing(
     stlFileId: string,
     materialId: string,
-    printSettings: any,
-    quantity: number = 1
+    printSettings: PrintSettings = {},
+    quantity: number = 1,
+    userId?: string, // customer whose organization's negotiated rates apply
+    currency: string = 'DKK'
   ): Promise<PricingCalculation> {
     try {
       // Get STL file analysis
@@ -75,57 +39,46 @@ class PricingService {
         throw new Error('Material not found');
       }
 
-      // Get current electricity price
-      const electricityPrice = await nordpoolService.fetchCurrentElectricityPrice();
-
-      // Calculate material usage and cost
-      const materialUsage = stlFile.materialUsage || 0; // grams
-      const materialCostPerGram = material.price / 1000; // Convert DKK/kg to DKK/g
-      const materialCost = (materialUsage * materialCostPerGram * (1 + this.DEFAULT_SETTINGS.materialMarkup / 100)) * quantity;
-
-      // Calculate electricity cost
-      const printTimeHours = stlFile.estimatedPrintTime || 1;
-      const electricityConsumption = (printTimeHours * this.DEFAULT_SETTINGS.printerPowerConsumption) / 1000; // kWh
-      const electricityCost = electricityConsumption * electricityPrice * quantity;
-
-      // Calculate labor cost
-      const laborHours = printTimeHours * 1.2; // Add 20% for setup and post-processing
-      const laborCost = laborHours * this.DEFAULT_SETTINGS.laborRatePerHour * quantity;
-
-      // Calculate platform fee
-      const subtotal = materialCost + electricityCost + laborCost;
-      const platformFee = subtotal * (this.DEFAULT_SETTINGS.platformFeePercentage / 100);
+      const exchangeRate = await currencyService.getRate(currency);
+      if (!exchangeRate) {
+        throw new Error('Currency not supported');
+      }
 
-      // Calculate total cost
-      const totalCost = Math.max(subtotal + platformFee, this.DEFAULT_SETTINGS.minimumOrderValue);
+      const { settings: priceList, ...pricingVersion } = await pricingSettingsService.getActiveVersion();
+      const organization = await organizationService.getOrganizationForUser(userId);
+      const settings = organizationService.applyNegotiatedRates(priceList, organization);
+
+      // Pre-sliced uploads carry the slicer's own numbers; our estimates are the fallback
+      const sliced = this.getPreSlicedValues(stlFile);
+      const printTimeHours = sliced ? sliced.printTimeHours : this.getPrintTimeHours(stlFile);
+      const printers = await printerService.findCompatiblePrinters(stlFile, material.type);
+      const electricity = await this.calculateElectricityForPrinters(
+        printers,
+        printTimeHours * quantity,
+        printSettings.flexibleStart === true,
+        settings
+      );
 
       return {
-        materialCost,
-        electricityCost,
-        laborCost,
-        platformFee,
-        totalCost,
-        breakdown: {
-          material: {
-            cost: materialCost,
-            usage: materialUsage * quantity,
-            pricePerGram: materialCostPerGram,
-          },
-          electricity: {
-            cost: electricityCost,
-            consumption: electricityConsumption * quantity,
-            pricePerKwh: electricityPrice,
-          },
-          labor: {
-            cost: laborCost,
-            hours: laborHours * quantity,
-            ratePerHour: this.DEFAULT_SETTINGS.laborRatePerHour,
-          },
-          platform: {
-            fee: platformFee,
-            percentage: this.DEFAULT_SETTINGS.platformFeePercentage,
-          },
-        },
+        ...convertPricing(calculatePricing({
+          materialUsage: sliced ? sliced.materialUsage : stlFile.materialUsage || 0,
+          materialPricePerKg: material.price,
+          printTimeHours,
+          layerCount: stlFile.layerCount,
+          electricity,
+          quantity,
+          // Like electricity, packing assumes the printer with the smallest bed
+          copiesPerRun: printers.length > 0
+            ? Math.min(...printers.map(printer => printerService.copiesPerPlate(printer, stlFile)))
+            : 1,
+          settings,
+        }), exchangeRate),
+        pricingVersion,
+        organization: organization && { id: organization.id, name: organization.name },
+        warnings: [
+          ...this.getMeshWarnings(stlFile.analysisData),
+          ...this.getSlicerWarnings(stlFile, material.type, printSettings),
+        ],
       };
     } catch (error) {
       console.error('Error calculating order pricing:', error);
@@ -136,8 +89,10 @@ class PricingService {
   async calculatePricingFromVolume(
     volume: number, // cm³
     materialType: string,
-    printSettings: any,
-    quantity: number = 1
+    printSettings: PrintSettings = {},
+    quantity: number = 1,
+    userId?: string, // customer whose organization's negotiated rates apply
+    currency: string = 'DKK'
   ): Promise<PricingCalculation> {
     try {
       // Get material information
@@ -149,63 +104,45 @@ class PricingService {
         throw new Error('Material not found');
       }
 
-      // Get current electricity price
-      const electricityPrice = await nordpoolService.fetchCurrentElectricityPrice();
+      const exchangeRate = await currencyService.getRate(currency);
+      if (!exchangeRate) {
+        throw new Error('Currency not supported');
+      }
+
+      const { settings: priceList, ...pricingVersion } = await pricingSettingsService.getActiveVersion();
+      const organization = await organizationService.getOrganizationForUser(userId);
+      const settings = organizationService.applyNegotiatedRates(priceList, organization);
 
       // Estimate material usage based on volume and settings
       const materialDensity = this.getMaterialDensity(materialType);
       const infillPercentage = printSettings.infillPercentage || 20;
       const estimatedMaterialUsage = (volume * materialDensity * (infillPercentage / 100)) * 1000; // Convert to grams
 
-      // Calculate material cost
-      const materialCostPerGram = material.price / 1000; // Convert DKK/kg to DKK/g
-      const materialCost = (estimatedMaterialUsage * materialCostPerGram * (1 + this.DEFAULT_SETTINGS.materialMarkup / 100)) * quantity;
-
       // Estimate print time based on volume
       const estimatedPrintTime = this.estimatePrintTimeFromVolume(volume, printSettings);
 
-      // Calculate electricity cost
-      const electricityConsumption = (estimatedPrintTime * this.DEFAULT_SETTINGS.printerPowerConsumption) / 1000; // kWh
-      const electricityCost = electricityConsumption * electricityPrice * quantity;
-
-      // Calculate labor cost
-      const laborHours = estimatedPrintTime * 1.2; // Add 20% for setup and post-processing
-      const laborCost = laborHours * this.DEFAULT_SETTINGS.laborRatePerHour * quantity;
-
-      // Calculate platform fee
-      const subtotal = materialCost + electricityCost + laborCost;
-      const platformFee = subtotal * (this.DEFAULT_SETTINGS.platformFeePercentage / 100);
-
-      // Calculate total cost
-      const totalCost = Math.max(subtotal + platformFee, this.DEFAULT_SETTINGS.minimumOrderValue);
+      const printers = await printerService.getPrinters();
+      const electricity = await this.calculateElectricityForPrinters(
+        printers.filter(printer => printer.supportedMaterials.includes(material.type)),
+        estimatedPrintTime * quantity,
+        printSettings.flexibleStart === true,
+        settings
+      );
 
       return {
-        materialCost,
-        electricityCost,
-        laborCost,
-        platformFee,
-        totalCost,
-        breakdown: {
-          material: {
-            cost: materialCost,
-            usage: estimatedMaterialUsage * quantity,
-            pricePerGram: materialCostPerGram,
-          },
-          electricity: {
-            cost: electricityCost,
-            consumption: electricityConsumption * quantity,
-            pricePerKwh: electricityPrice,
-          },
-          labor: {
-            cost: laborCost,
-            hours: laborHours * quantity,
-            ratePerHour: this.DEFAULT_SETTINGS.laborRatePerHour,
-          },
-          platform: {
-            fee: platformFee,
-            percentage: this.DEFAULT_SETTINGS.platformFeePercentage,
-          },
-        },
+        ...convertPricing(calculatePricing({
+          materialUsage: estimatedMaterialUsage,
+          materialPricePerKg: material.price,
+          printTimeHours: estimatedPrintTime,
+          layerCount: null,
+          electricity,
+          quantity,
+          copiesPerRun: 1, // no footprint without a file
+          settings,
+        }), exchangeRate),
+        pricingVersion,
+        organization: organization && { id: organization.id, name: organization.name },
+        warnings: [],
       };
     } catch (error) {
       console.error('Error calculating pricing from volume:', error);
@@ -213,6 +150,142 @@ class PricingService {
     }
   }
 
+  // Copies print back to back, so the order draws power for the whole run. Day-ahead prices
+  // are integrated hour by hour from now, or from the cheapest window when the customer
+  // accepts a flexible start; beyond the published curve the current price applies.
+  // Areas are priced in their tariff's currency; the result is converted to DKK like
+  // every other line of the calculation.
+  private async calculateElectricity(
+    printTimeHours: number,
+    flexibleStart: boolean,
+    area: string,
+    powerWatts: number
+  ): Promise<ElectricityBreakdown> {
+    const consumption = (printTimeHours * powerWatts) / 1000; // kWh
+    const currency = await electricityPriceService.getAreaCurrency(area);
+    const exchangeRate = await currencyService.getRate(currency);
+    if (!exchangeRate) {
+      throw new Error(`No exchange rate for ${currency}, the currency of electricity in ${area}`);
+    }
+
+    const inDkk = (cost: number, pricePerKwh: number, window: ElectricityBreakdown['window']): ElectricityBreakdown => ({
+      cost: cost * exchangeRate.dkkPerUnit,
+      consumption,
+      pricePerKwh: pricePerKwh * exchangeRate.dkkPerUnit,
+      area,
+      currency: BASE_CURRENCY,
+      window,
+    });
+
+    if (flexibleStart) {
+      const result = await electricityPriceService.findCheapestWindow(printTimeHours, powerWatts, new Date(), undefined, area);
+      if (result) {
+        const { cheapest } = result;
+        return inDkk(cheapest.cost, cheapest.averagePrice, {
+          start: cheapest.start.toISOString(),
+          end: cheapest.end.toISOString(),
+          flexibleStart: true,
+        });
+      }
+    }
+
+    const prices = await electricityPriceService.getKnownPrices(area);
+    const window = electricityPriceService.calculateWindowCost(prices, new Date(), printTimeHours, powerWatts);
+    if (window) {
+      return inDkk(window.cost, window.averagePrice, {
+        start: window.start.toISOString(),
+        end: window.end.toISOString(),
+        flexibleStart: false,
+      });
+    }
+
+    const electricityPrice = await electricityPriceService.fetchCurrentElectricityPrice(area);
+    return inDkk(consumption * electricityPrice, electricityPrice, null);
+  }
+
+  // The quote has to hold whichever workshop ends up printing the order, so electricity is
+  // priced for every printer that can take it (its area and power draw) and the highest is
+  // kept. All quotes are in DKK, so they compare directly.
+  private async calculateElectricityForPrinters(
+    printers: Printer[],
+    printTimeHours: number,
+    flexibleStart: boolean,
+    settings: PricingSettings
+  ): Promise<ElectricityBreakdown> {
+    if (printers.length === 0) {
+      return this.calculateElectricity(
+        printTimeHours,
+        flexibleStart,
+        electricityPriceService.getDefaultArea(),
+        settings.printerPowerConsumption
+      );
+    }
+
+    const setups = new Map(printers.map(printer => [`${printer.priceArea}:${printer.powerConsumption}`, printer]));
+    const quotes = await Promise.all(
+      Array.from(setups.values()).map(printer =>
+        this.calculateElectricity(printTimeHours, flexibleStart, printer.priceArea, printer.powerConsumption)
+      )
+    );
+    return quotes.reduce((highest, quote) => (quote.cost > highest.cost ? quote : highest));
+  }
+
+  private getPreSlicedValues(stlFile: {
+    isPreSliced: boolean;
+    slicerMetadata: any;
+  }): { materialUsage: number; printTimeHours: number } | null {
+    const metadata = stlFile.slicerMetadata;
+    if (!stlFile.isPreSliced || !metadata || metadata.printTime == null || !Array.isArray(metadata.filamentGrams)) {
+      return null;
+    }
+    return {
+      materialUsage: metadata.filamentGrams.reduce((total: number, grams: number) => total + grams, 0),
+      printTimeHours: metadata.printTime / 3600,
+    };
+  }
+
+  // The G-code fixes material and layer height; point out orders that ask for something else
+  private getSlicerWarnings(
+    stlFile: { isPreSliced: boolean; slicerMetadata: any },
+    materialType: string,
+    printSettings: PrintSettings
+  ): string[] {
+    const metadata = stlFile.slicerMetadata;
+    if (!stlFile.isPreSliced || !metadata) {
+      return [];
+    }
+
+    const warnings: string[] = [];
+    const usedTypes: string[] = (metadata.filamentTypes || []).filter(
+      (type: string, index: number) => (metadata.filamentGrams?.[index] || 0) > 0
+    );
+    if (usedTypes.length > 0 && !usedTypes.includes(materialType)) {
+      warnings.push(`G-code was sliced for ${usedTypes.join(', ')} but ${materialType} was selected`);
+    }
+    if (printSettings.layerHeight && metadata.layerHeight && Math.abs(printSettings.layerHeight - metadata.layerHeight) > 1e-6) {
+      warnings.push(`G-code was sliced at ${metadata.layerHeight} mm layers; the requested ${printSettings.layerHeight} mm is ignored`);
+    }
+    return warnings;
+  }
+
+  // Sum the sliced per-layer timings when the file has them; older analyses only stored a total
+  private getPrintTimeHours(stlFile: { estimatedPrintTime: number | null; analysisData: any }): number {
+    const layers = stlFile.analysisData?.printTime?.layers;
+    if (Array.isArray(layers) && layers.length > 0) {
+      return layers.reduce((sum: number, time: number) => sum + time, 0) / 3600;
+    }
+    return stlFile.estimatedPrintTime || 1;
+  }
+
+  // Flag quotes whose geometry came from a broken mesh instead of silently trusting it
+  private getMeshWarnings(analysisData: any): string[] {
+    const meshHealth = analysisData?.meshHealth;
+    if (!meshHealth || meshHealth.isPrintReady) {
+      return [];
+    }
+    return ['Model has mesh errors; volume and print time may be inaccurate', ...(meshHealth.issues || [])];
+  }
+
   private getMaterialDensity(materialType: string): number {
     const densities: { [key: string]: number } = {
       PLA: 1.24,
@@ -224,11 +297,10 @@ class PricingService {
     return densities[materialType] || 1.24; // Default to PLA density
   }
 
-  private estimatePrintTimeFromVolume(volume: number, printSettings: any): number {
+  private estimatePrintTimeFromVolume(volume: number, printSettings: PrintSettings): number {
     // Simple estimation based on volume and settings
     const layerHeight = printSettings.layerHeight || 0.2; // mm
     const infillPercentage = printSettings.infillPercentage || 20;
-    const printSpeed = 60; // mm/s average
 
     // Estimate based on volume and complexity
     const baseTime = Math.sqrt(volume) * 0.1; // Base time in hours
@@ -238,50 +310,6 @@ class PricingService {
     return baseTime * infillMultiplier * layerHeightMultiplier;
   }
 
-  async updatePricingSettings(settings: Partial<PricingSettings>): Promise<void> {
-    try {
-      // Store pricing settings in configuration table
-      for (const [key, value] of Object.entries(settings)) {
-        await prisma.configuration.upsert({
-          where: { key: `pricing.${key}` },
-          update: { value: value.toString() },
-          create: { key: `pricing.${key}`, value: value.toString() },
-        });
-      }
-    } catch (error) {
-      console.error('Error updating pricing settings:', error);
-      throw error;
-    }
-  }
-
-  async getPricingSettings(): Promise<PricingSettings> {
-    try {
-      const configs = await prisma.configuration.findMany({
-        where: {
-          key: {
-            startsWith: 'pricing.',
-          },
-        },
-      });
-
-      const settings = { ...this.DEFAULT_SETTINGS };
-
-      for (const config of configs) {
-        const key = config.key.replace('pricing.', '');
-        const value = parseFloat(config.value);
-        
-        if (!isNaN(value)) {
-          (settings as any)[key] = value;
-        }
-      }
-
-      return settings;
-    } catch (error) {
-      console.error('Error fetching pricing settings:', error);
-      return this.DEFAULT_SETTINGS;
-    }
-  }
-
   async getPricingBreakdown(orderId: string): Promise<PricingCalculation | null> {
     try {
       const order = await prisma.order.findUnique({
@@ -318,13 +346,13 @@ class PricingService {
   }
 
   // Get current electricity price for display
-  async getCurrentElectricityPrice(): Promise<number> {
-    return await nordpoolService.fetchCurrentElectricityPrice();
+  async getCurrentElectricityPrice(area?: string): Promise<number> {
+    return await electricityPriceService.fetchCurrentElectricityPrice(area);
   }
 
   // Get electricity price history
   async getElectricityPriceHistory(days: number = 7): Promise<any[]> {
-    return await nordpoolService.getElectricityPriceHistory(days);
+    return await electricityPriceService.getElectricityPriceHistory(days);
   }
 }
 
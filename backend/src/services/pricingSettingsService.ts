@@ -0,0 +1,231 @@
+import { PricingVersion, Prisma, PrismaClient } from '@prisma/client';
+
+const prisma = new PrismaClient();
+
+export interface QuantityDiscountTier {
+  minQuantity: number; // copies in the order item
+  percentage: number; // 0-100, off material and labour
+}
+
+export interface PricingSettings {
+  laborRatePerHour: number; // DKK per hour
+  platformFeePercentage: number; // 0-100
+  printerPowerConsumption: number; // Watts, when no printer is known
+  materialMarkup: number; // 0-100 (percentage markup on material cost)
+  minimumOrderValue: number; // DKK
+  setupHoursPerRun: number; // bed preparation, start and part removal, once per plate
+  quantityDiscounts: QuantityDiscountTier[];
+}
+
+interface ActivePricing {
+  id: string;
+  version: number;
+  settings: PricingSettings;
+}
+
+interface SettingChange {
+  key: keyof PricingSettings;
+  from: PricingSettings[keyof PricingSettings];
+  to: PricingSettings[keyof PricingSettings];
+}
+
+interface VersionOptions {
+  effectiveFrom?: Date;
+  note?: string;
+  userId?: string;
+}
+
+class PricingSettingsService {
+  readonly DEFAULT_SETTINGS: PricingSettings = {
+    laborRatePerHour: 150, // 150 DKK per hour
+    platformFeePercentage: 15, // 15% platform fee
+    printerPowerConsumption: 200, // 200W average power consumption
+    materialMarkup: 30, // 30% markup on material cost
+    minimumOrderValue: 50, // 50 DKK minimum order
+    setupHoursPerRun: 0.25, // 15 minutes per plate
+    quantityDiscounts: [
+      { minQuantity: 10, percentage: 5 },
+      { minQuantity: 50, percentage: 10 },
+      { minQuantity: 100, percentage: 15 },
+    ],
+  };
+
+  // The version in force at `at`: the latest one that has taken effect. Version 1 is in
+  // effect from the start, so there always is one; nothing is priced without it.
+  async getActiveVersion(at: Date = new Date()): Promise<ActivePricing> {
+    try {
+      await this.ensureInitialVersion();
+
+      const active = await prisma.pricingVersion.findFirstOrThrow({
+        where: { effectiveFrom: { lte: at } },
+        orderBy: [{ effectiveFrom: 'desc' }, { version: 'desc' }],
+      });
+
+      return { id: active.id, version: active.version, settings: this.toSettings(active.settings) };
+    } catch (error) {
+      console.error('Error fetching pricing version:', error);
+      throw error;
+    }
+  }
+
+  async listVersions(): Promise<PricingVersion[]> {
+    try {
+      return await prisma.pricingVersion.findMany({
+        include: { createdBy: { select: { id: true, email: true, firstName: true, lastName: true } } },
+        orderBy: { version: 'desc' },
+      });
+    } catch (error) {
+      console.error('Error fetching pricing versions:', error);
+      throw error;
+    }
+  }
+
+  async getVersion(version: number): Promise<PricingVersion | null> {
+    try {
+      return await prisma.pricingVersion.findUnique({ where: { version } });
+    } catch (error) {
+      console.error('Error fetching pricing version:', error);
+      throw error;
+    }
+  }
+
+  // Changes are applied on top of the version that is in force when the new one takes effect
+  async createVersion(changes: Partial<PricingSettings>, options: VersionOptions = {}): Promise<PricingVersion> {
+    try {
+      const effectiveFrom = options.effectiveFrom || new Date();
+      const base = await this.getActiveVersion(effectiveFrom);
+
+      return await this.saveVersion({ ...base.settings, ...changes }, effectiveFrom, options);
+    } catch (error) {
+      console.error('Error creating pricing version:', error);
+      throw error;
+    }
+  }
+
+  // Rolling back adds a new version with the old settings, so the history stays intact
+  async rollbackToVersion(version: number, options: VersionOptions = {}): Promise<PricingVersion | null> {
+    try {
+      const target = await this.getVersion(version);
+      if (!target) {
+        return null;
+      }
+
+      return await this.saveVersion(this.toSettings(target.settings), options.effectiveFrom || new Date(), {
+        ...options,
+        note: options.note || `Rollback to version ${version}`,
+      }, version);
+    } catch (error) {
+      console.error('Error rolling back pricing version:', error);
+      throw error;
+    }
+  }
+
+  async diffVersions(fromVersion: number, toVersion: number): Promise<SettingChange[] | null> {
+    try {
+      const [from, to] = await Promise.all([this.getVersion(fromVersion), this.getVersion(toVersion)]);
+      if (!from || !to) {
+        return null;
+      }
+
+      const fromSettings = this.toSettings(from.settings);
+      const toSettings = this.toSettings(to.settings);
+      return (Object.keys(this.DEFAULT_SETTINGS) as (keyof PricingSettings)[])
+        .filter(key => JSON.stringify(fromSettings[key]) !== JSON.stringify(toSettings[key]))
+        .map(key => ({ key, from: fromSettings[key], to: toSettings[key] }));
+    } catch (error) {
+      console.error('Error comparing pricing versions:', error);
+      throw error;
+    }
+  }
+
+  // Returns what is wrong with the first invalid setting, or null
+  validateSettings(settings: any): string | null {
+    for (const [key, value] of Object.entries(settings)) {
+      if (!(key in this.DEFAULT_SETTINGS)) {
+        return `Unknown pricing setting: ${key}`;
+      }
+      if (key === 'quantityDiscounts') {
+        const tierError = this.validateDiscountTiers(value);
+        if (tierError) {
+          return tierError;
+        }
+        continue;
+      }
+      if (typeof value !== 'number' || !Number.isFinite(value) || value < 0) {
+        return `${key} must be a non-negative number`;
+      }
+      if (key.endsWith('Percentage') || key === 'materialMarkup') {
+        if (value > 100) {
+          return `${key} must be between 0 and 100`;
+        }
+      }
+    }
+    return null;
+  }
+
+  private validateDiscountTiers(tiers: any): string | null {
+    if (!Array.isArray(tiers)) {
+      return 'quantityDiscounts must be a list of tiers';
+    }
+    for (const tier of tiers) {
+      if (!Number.isInteger(tier?.minQuantity) || tier.minQuantity < 2) {
+        return 'Discount tier minQuantity must be a whole number of at least 2';
+      }
+      if (typeof tier.percentage !== 'number' || tier.percentage < 0 || tier.percentage > 100) {
+        return 'Discount tier percentage must be between 0 and 100';
+      }
+    }
+    if (new Set(tiers.map((tier: QuantityDiscountTier) => tier.minQuantity)).size !== tiers.length) {
+      return 'Discount tiers must have different minQuantity values';
+    }
+    return null;
+  }
+
+  private async saveVersion(
+    settings: PricingSettings,
+    effectiveFrom: Date,
+    options: VersionOptions,
+    restoredFrom?: number
+  ): Promise<PricingVersion> {
+    const latest = await prisma.pricingVersion.findFirst({ orderBy: { version: 'desc' } });
+
+    return await prisma.pricingVersion.create({
+      data: {
+        version: (latest?.version || 0) + 1,
+        settings: settings as unknown as Prisma.InputJsonValue,
+        effectiveFrom,
+        note: options.note,
+        restoredFrom,
+        createdById: options.userId,
+      },
+    });
+  }
+
+  // Version 1 carries over whatever was saved as pricing.* configuration before versioning
+  private async ensureInitialVersion(): Promise<void> {
+    if ((await prisma.pricingVersion.count()) > 0) {
+      return;
+    }
+
+    const configs = await prisma.configuration.findMany({
+      where: { key: { startsWith: 'pricing.' } },
+    });
+    const settings = { ...this.DEFAULT_SETTINGS };
+    for (const config of configs) {
+      const key = config.key.replace('pricing.', '');
+      const value = parseFloat(config.value);
+      if (key in settings && !isNaN(value)) {
+        (settings as any)[key] = value;
+      }
+    }
+
+    await this.saveVersion(settings, new Date(0), { note: 'Initial pricing settings' });
+  }
+
+  // Stored settings are filled up with defaults so a setting added later has a value in old versions
+  private toSettings(value: Prisma.JsonValue): PricingSettings {
+    return { ...this.DEFAULT_SETTINGS, ...(value as Partial<PricingSettings>) };
+  }
+}
+
+export default new PricingSettingsService();
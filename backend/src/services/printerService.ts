@@ -0,0 +1,217 @@
+import { MaterialType, Prisma, PrintJob, Printer, PrinterStatus, PrismaClient, STLFile } from '@prisma/client';
+
+const prisma = new PrismaClient();
+
+interface CompatibilityResult {
+  compatible: boolean;
+  reasons: string[]; // why the printer cannot take the job; empty when compatible
+}
+
+class PrinterService {
+  // Printers in these states cannot be given new work
+  private readonly UNAVAILABLE_STATUSES: PrinterStatus[] = [PrinterStatus.MAINTENANCE, PrinterStatus.OFFLINE];
+
+  private readonly PLATE_SPACING_MM = 10; // gap between copies printed on the same plate
+
+  async getPrinters(includeInactive: boolean = false): Promise<Printer[]> {
+    try {
+      return await prisma.printer.findMany({
+        where: includeInactive ? {} : { isActive: true },
+        orderBy: { name: 'asc' },
+      });
+    } catch (error) {
+      console.error('Error fetching printers:', error);
+      throw error;
+    }
+  }
+
+  async getPrinter(id: string): Promise<Printer | null> {
+    try {
+      return await prisma.printer.findUnique({ where: { id } });
+    } catch (error) {
+      console.error('Error fetching printer:', error);
+      throw error;
+    }
+  }
+
+  async createPrinter(data: Prisma.PrinterUncheckedCreateInput): Promise<Printer> {
+    try {
+      return await prisma.printer.create({ data });
+    } catch (error) {
+      console.error('Error creating printer:', error);
+      throw error;
+    }
+  }
+
+  async updatePrinter(id: string, data: Prisma.PrinterUncheckedUpdateInput): Promise<Printer> {
+    try {
+      return await prisma.printer.update({ where: { id }, data });
+    } catch (error) {
+      console.error('Error updating printer:', error);
+      throw error;
+    }
+  }
+
+  // Printers with job history are retired instead of deleted so old jobs keep their printer
+  async deletePrinter(id: string): Promise<{ deleted: boolean; printer: Printer }> {
+    try {
+      const jobCount = await prisma.printJob.count({ where: { printerId: id } });
+      if (jobCount > 0) {
+        const printer = await prisma.printer.update({
+          where: { id },
+          data: { isActive: false, status: PrinterStatus.OFFLINE },
+        });
+        return { deleted: false, printer };
+      }
+
+      const printer = await prisma.printer.delete({ where: { id } });
+      return { deleted: true, printer };
+    } catch (error) {
+      console.error('Error deleting printer:', error);
+      throw error;
+    }
+  }
+
+  checkCompatibility(printer: Printer, stlFile: STLFile, materialType: MaterialType): CompatibilityResult {
+    const reasons: string[] = [];
+
+    if (!printer.isActive) {
+      reasons.push('Printer is retired');
+    } else if (this.UNAVAILABLE_STATUSES.includes(printer.status)) {
+      reasons.push(printer.status === PrinterStatus.MAINTENANCE ? 'Printer is under maintenance' : 'Printer is offline');
+    }
+
+    if (!printer.supportedMaterials.includes(materialType)) {
+      reasons.push(`Printer does not support ${materialType}`);
+    }
+
+    // Dimensions are stored in cm in the print orientation (depth is the build height);
+    // the part may be turned on the bed, so width and height can swap
+    const dimensions = this.parseDimensions(stlFile.dimensions);
+    if (dimensions) {
+      const footprint = [dimensions.width * 10, dimensions.height * 10].sort((a, b) => a - b);
+      const bed = [printer.buildVolumeX, printer.buildVolumeY].sort((a, b) => a - b);
+      if (footprint[0] > bed[0] || footprint[1] > bed[1] || dimensions.depth * 10 > printer.buildVolumeZ) {
+        reasons.push(
+          `Part (${(dimensions.width * 10).toFixed(0)}×${(dimensions.height * 10).toFixed(0)}×${(dimensions.depth * 10).toFixed(0)} mm) ` +
+          `exceeds build volume ${printer.buildVolumeX}×${printer.buildVolumeY}×${printer.buildVolumeZ} mm`
+        );
+      }
+    }
+
+    // Pre-sliced G-code is tied to the nozzle it was sliced for and to the number of spools it uses
+    const slicer = stlFile.isPreSliced ? (stlFile.slicerMetadata as any) : null;
+    if (slicer) {
+      const nozzle = slicer.nozzleDiameters?.[0];
+      if (nozzle && Math.abs(nozzle - printer.nozzleDiameter) > 1e-6) {
+        reasons.push(`G-code was sliced for a ${nozzle} mm nozzle, printer has ${printer.nozzleDiameter} mm`);
+      }
+
+      const filamentsUsed = (slicer.filamentGrams || []).filter((grams: number) => grams > 0).length;
+      if (filamentsUsed > 1 && filamentsUsed > printer.amsSlots) {
+        reasons.push(`G-code uses ${filamentsUsed} filaments, printer has ${printer.amsSlots} AMS slots`);
+      }
+    }
+
+    return { compatible: reasons.length === 0, reasons };
+  }
+
+  // How many copies of a part fit side by side on the bed, in a grid with PLATE_SPACING_MM
+  // between them. Pre-sliced G-code prints exactly what was sliced, so it is always one.
+  copiesPerPlate(printer: Printer, stlFile: STLFile): number {
+    const dimensions = this.parseDimensions(stlFile.dimensions);
+    if (!dimensions || stlFile.isPreSliced) {
+      return 1;
+    }
+
+    const fit = (bed: number, part: number) => Math.floor((bed + this.PLATE_SPACING_MM) / (part * 10 + this.PLATE_SPACING_MM));
+    const copies = Math.max(
+      fit(printer.buildVolumeX, dimensions.width) * fit(printer.buildVolumeY, dimensions.height),
+      fit(printer.buildVolumeX, dimensions.height) * fit(printer.buildVolumeY, dimensions.width)
+    );
+    return Math.max(copies, 1);
+  }
+
+  async findCompatiblePrinters(stlFile: STLFile, materialType: MaterialType): Promise<Printer[]> {
+    const printers = await this.getPrinters();
+    return printers.filter(printer => this.checkCompatibility(printer, stlFile, materialType).compatible);
+  }
+
+  // Pick the compatible printer with the shortest queue; null when no printer can take the part
+  async selectPrinterForOrderItem(orderItemId: string): Promise<Printer | null> {
+    try {
+      const item = await prisma.orderItem.findUnique({
+        where: { id: orderItemId },
+        include: { stlFile: true, material: true },
+      });
+      if (!item) {
+        throw new Error('Order item not found');
+      }
+
+      const candidates = await this.findCompatiblePrinters(item.stlFile, item.material.type);
+      if (candidates.length === 0) {
+        return null;
+      }
+
+      const queueLengths = await prisma.printJob.groupBy({
+        by: ['printerId'],
+        where: {
+          printerId: { in: candidates.map(printer => printer.id) },
+          status: { in: ['QUEUED', 'PREPARING', 'PRINTING', 'PAUSED'] },
+        },
+        _count: { _all: true },
+      });
+      const queueLength = (printerId: string) =>
+        queueLengths.find(entry => entry.printerId === printerId)?._count._all || 0;
+
+      return candidates.reduce((best, printer) => (queueLength(printer.id) < queueLength(best.id) ? printer : best));
+    } catch (error) {
+      console.error('Error selecting printer:', error);
+      throw error;
+    }
+  }
+
+  async getJobCompatibility(printerId: string, printJobId: string): Promise<CompatibilityResult | null> {
+    try {
+      const [printer, printJob] = await Promise.all([
+        prisma.printer.findUnique({ where: { id: printerId } }),
+        prisma.printJob.findUnique({
+          where: { id: printJobId },
+          include: { orderItem: { include: { stlFile: true, material: true } } },
+        }),
+      ]);
+      if (!printer || !printJob) {
+        return null;
+      }
+
+      return this.checkCompatibility(printer, printJob.orderItem.stlFile, printJob.orderItem.material.type);
+    } catch (error) {
+      console.error('Error checking printer compatibility:', error);
+      throw error;
+    }
+  }
+
+  async assignPrinter(printJobId: string, printerId: string): Promise<PrintJob> {
+    try {
+      return await prisma.printJob.update({
+        where: { id: printJobId },
+        data: { printerId, errorMessage: null },
+        include: { printer: true },
+      });
+    } catch (error) {
+      console.error('Error assigning printer:', error);
+      throw error;
+    }
+  }
+
+  // Older rows store dimensions as a JSON string, newer ones as an object
+  private parseDimensions(value: Prisma.JsonValue | null): { width: number; height: number; depth: number } | null {
+    const dimensions = typeof value === 'string' ? JSON.parse(value) : value;
+    if (!dimensions || typeof dimensions.width !== 'number') {
+      return null;
+    }
+    return dimensions;
+  }
+}
+
+export default new PrinterService();
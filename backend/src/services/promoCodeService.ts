@@ -0,0 +1,210 @@
+import { OrderStatus, Prisma, PrismaClient, PromoCode } from '@prisma/client';
+import { roundToOre } from '../utils/pricingEngine';
+
+const prisma = new PrismaClient();
+
+interface PromoOrder {
+  userId: string;
+  dkkPerUnit: number; // exchange rate of the order's currency
+  items: {
+    materialId: string;
+    totalCost: number;
+  }[];
+}
+
+interface PromoEvaluation {
+  promoCode: PromoCode | null;
+  discount: number;
+  error: string | null; // why the code cannot be used on this order
+}
+
+interface PromoCodeReport {
+  promoCode: PromoCode;
+  redemptions: number;
+  discountTotal: number; // DKK
+}
+
+// Orders in these states gave their redemption back
+const VOIDED_STATUSES: OrderStatus[] = ['CANCELLED', 'REFUNDED'];
+
+// An order still in this state is an abandoned or open cart, not a previous order
+const UNPAID_STATUSES: OrderStatus[] = ['PENDING_PAYMENT'];
+
+const CHECKOUT_ATTEMPTS = 3;
+
+class PromoCodeService {
+  async getPromoCodes(): Promise<PromoCodeReport[]> {
+    try {
+      const [promoCodes, usage] = await Promise.all([
+        prisma.promoCode.findMany({ orderBy: { createdAt: 'desc' } }),
+        // Orders in other currencies are counted in DKK at the rate they were placed at
+        prisma.order.groupBy({
+          by: ['promoCodeId', 'exchangeRate'],
+          where: { promoCodeId: { not: null }, status: { notIn: VOIDED_STATUSES } },
+          _count: { _all: true },
+          _sum: { discountAmount: true },
+        }),
+      ]);
+
+      return promoCodes.map(promoCode => {
+        const used = usage.filter(row => row.promoCodeId === promoCode.id);
+        return {
+          promoCode,
+          redemptions: used.reduce((sum, row) => sum + row._count._all, 0),
+          discountTotal: roundToOre(used.reduce((sum, row) => sum + (row._sum.discountAmount || 0) * row.exchangeRate, 0)),
+        };
+      });
+    } catch (error) {
+      console.error('Error fetching promo codes:', error);
+      throw error;
+    }
+  }
+
+  async getPromoCode(id: string): Promise<PromoCode | null> {
+    try {
+      return await prisma.promoCode.findUnique({ where: { id } });
+    } catch (error) {
+      console.error('Error fetching promo code:', error);
+      throw error;
+    }
+  }
+
+  async getPromoCodeByCode(code: string): Promise<PromoCode | null> {
+    try {
+      return await prisma.promoCode.findUnique({ where: { code: this.normalizeCode(code) } });
+    } catch (error) {
+      console.error('Error fetching promo code:', error);
+      throw error;
+    }
+  }
+
+  // Orders that redeemed the code, newest first
+  async getRedemptions(id: string) {
+    try {
+      return await prisma.order.findMany({
+        where: { promoCodeId: id },
+        select: {
+          id: true,
+          orderNumber: true,
+          status: true,
+          discountAmount: true,
+          subtotal: true,
+          currency: true,
+          createdAt: true,
+          user: { select: { id: true, email: true } },
+        },
+        orderBy: { createdAt: 'desc' },
+      });
+    } catch (error) {
+      console.error('Error fetching promo code redemptions:', error);
+      throw error;
+    }
+  }
+
+  async createPromoCode(data: Prisma.PromoCodeCreateInput): Promise<PromoCode> {
+    try {
+      return await prisma.promoCode.create({ data: { ...data, code: this.normalizeCode(data.code) } });
+    } catch (error) {
+      console.error('Error creating promo code:', error);
+      throw error;
+    }
+  }
+
+  async updatePromoCode(id: string, data: Prisma.PromoCodeUpdateInput): Promise<PromoCode> {
+    try {
+      if (typeof data.code === 'string') {
+        data.code = this.normalizeCode(data.code);
+      }
+      return await prisma.promoCode.update({ where: { id }, data });
+    } catch (error) {
+      console.error('Error updating promo code:', error);
+      throw error;
+    }
+  }
+
+  // Run a checkout in a serializable transaction, so the redemptions counted by
+  // evaluatePromoCode cannot change before the order is inserted. When two checkouts
+  // count the same redemptions Postgres aborts one (P2034); it is run again and then
+  // sees the other's order.
+  async checkout<T>(placeOrder: (tx: Prisma.TransactionClient) => Promise<T>): Promise<T> {
+    for (let attempt = 1; ; attempt++) {
+      try {
+        return await prisma.$transaction(placeOrder, { isolationLevel: Prisma.TransactionIsolationLevel.Serializable });
+      } catch (error) {
+        const conflict = error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2034';
+        if (!conflict || attempt >= CHECKOUT_ATTEMPTS) {
+          console.error('Error placing order:', error);
+          throw error;
+        }
+      }
+    }
+  }
+
+  // Check every condition of the code against the order and work out the discount.
+  // A code limited to some materials only discounts the items in those materials.
+  // Amounts on the code are DKK and are converted for orders in other currencies.
+  // Pass the checkout transaction so the redemption limits hold until the order is in.
+  async evaluatePromoCode(
+    code: string,
+    order: PromoOrder,
+    now: Date = new Date(),
+    db: Prisma.TransactionClient = prisma
+  ): Promise<PromoEvaluation> {
+    try {
+      const promoCode = await db.promoCode.findUnique({ where: { code: this.normalizeCode(code) } });
+      const reject = (error: string): PromoEvaluation => ({ promoCode, discount: 0, error });
+
+      if (!promoCode || !promoCode.isActive) {
+        return reject('Invalid promo code');
+      }
+      if (promoCode.validFrom && promoCode.validFrom > now) {
+        return reject('Promo code is not valid yet');
+      }
+      if (promoCode.validTo && promoCode.validTo <= now) {
+        return reject('Promo code has expired');
+      }
+
+      const subtotal = order.items.reduce((sum, item) => sum + item.totalCost, 0);
+      if (promoCode.minimumSpend !== null && subtotal < promoCode.minimumSpend / order.dkkPerUnit) {
+        return reject(`Promo code requires a minimum spend of ${promoCode.minimumSpend} DKK`);
+      }
+
+      const eligibleSubtotal = order.items
+        .filter(item => promoCode.materialIds.length === 0 || promoCode.materialIds.includes(item.materialId))
+        .reduce((sum, item) => sum + item.totalCost, 0);
+      if (eligibleSubtotal === 0) {
+        return reject('Promo code does not apply to the selected materials');
+      }
+
+      const [redemptions, userRedemptions, previousOrders] = await Promise.all([
+        db.order.count({ where: { promoCodeId: promoCode.id, status: { notIn: VOIDED_STATUSES } } }),
+        db.order.count({ where: { promoCodeId: promoCode.id, userId: order.userId, status: { notIn: VOIDED_STATUSES } } }),
+        db.order.count({ where: { userId: order.userId, status: { notIn: [...VOIDED_STATUSES, ...UNPAID_STATUSES] } } }),
+      ]);
+      if (promoCode.maxRedemptions !== null && redemptions >= promoCode.maxRedemptions) {
+        return reject('Promo code has been fully redeemed');
+      }
+      if (promoCode.maxRedemptionsPerUser !== null && userRedemptions >= promoCode.maxRedemptionsPerUser) {
+        return reject('You have already used this promo code');
+      }
+      if (promoCode.firstOrderOnly && previousOrders > 0) {
+        return reject('Promo code is only valid on your first order');
+      }
+
+      const discount = promoCode.discountType === 'PERCENTAGE'
+        ? roundToOre(eligibleSubtotal * (promoCode.value / 100))
+        : roundToOre(Math.min(promoCode.value / order.dkkPerUnit, eligibleSubtotal));
+
+      return { promoCode, discount, error: null };
+    } catch (error) {
+      console.error('Error evaluating promo code:', error);
+      throw error;
+    }
+  }
+
+  private normalizeCode(code: string): string {
+    return code.trim().toUpperCase();
+  }
+}
+
+export default new PromoCodeService();
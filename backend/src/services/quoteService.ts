@@ -0,0 +1,155 @@
+import { Prisma, PrismaClient, Quote } from '@prisma/client';
+import * as crypto from 'crypto';
+import type { PricingCalculation, PrintSettings } from '../../../shared/pricing';
+import pricingService from './pricingService';
+
+const prisma = new PrismaClient();
+
+interface QuotedItem {
+  userId?: string; // signed-in customer
+  stlFileId: string;
+  materialId: string;
+  quantity: number;
+  currency: string;
+  printSettings: PrintSettings;
+}
+
+type QuoteWithUsage = Quote & {
+  orderItem: { id: string } | null;
+};
+
+// JSON with sorted keys, so a calculation signs the same after a round trip through jsonb
+const canonicalJson = (value: unknown): string =>
+  JSON.stringify(value, (_key, field) =>
+    field && typeof field === 'object' && !Array.isArray(field)
+      ? Object.fromEntries(Object.keys(field).sort().map(key => [key, field[key]]))
+      : field
+  );
+
+class QuoteService {
+  private readonly VALIDITY_MINUTES = parseInt(process.env.QUOTE_VALIDITY_MINUTES || '60');
+  private readonly secret = process.env.QUOTE_SECRET || process.env.JWT_SECRET || 'your-secret-key';
+
+  // Price an uploaded file and lock the result
+  async createQuote(item: QuotedItem, now: Date = new Date()): Promise<PricingCalculation> {
+    try {
+      const calculation = await pricingService.calculateOrderPricing(
+        item.stlFileId,
+        item.materialId,
+        item.printSettings,
+        item.quantity,
+        item.userId,
+        item.currency
+      );
+
+      const fields = {
+        userId: item.userId || null,
+        stlFileId: item.stlFileId,
+        materialId: item.materialId,
+        quantity: item.quantity,
+        currency: calculation.currency,
+        printSettings: this.normalizeSettings(item.printSettings),
+        calculation,
+        totalCost: calculation.totalCost,
+        pricingVersionId: calculation.pricingVersion.id,
+        expiresAt: new Date(now.getTime() + this.VALIDITY_MINUTES * 60 * 1000),
+      };
+      const quote = await prisma.quote.create({
+        data: {
+          ...fields,
+          printSettings: fields.printSettings as Prisma.InputJsonValue,
+          calculation: calculation as unknown as Prisma.InputJsonValue,
+          signature: this.sign(fields),
+        },
+      });
+
+      return { ...calculation, quote: { id: quote.id, expiresAt: quote.expiresAt.toISOString() } };
+    } catch (error) {
+      console.error('Error creating quote:', error);
+      throw error;
+    }
+  }
+
+  async getQuote(id: string): Promise<QuoteWithUsage | null> {
+    try {
+      return await prisma.quote.findUnique({
+        where: { id },
+        include: { orderItem: { select: { id: true } } },
+      });
+    } catch (error) {
+      console.error('Error fetching quote:', error);
+      throw error;
+    }
+  }
+
+  // Returns why the quote cannot price this order item, or null when it can
+  checkQuote(quote: QuoteWithUsage, item: QuotedItem, now: Date = new Date()): string | null {
+    if (!this.hasValidSignature(quote)) {
+      return 'Quote has been tampered with';
+    }
+    if (quote.expiresAt <= now) {
+      return 'Quote has expired';
+    }
+    if (quote.orderItem) {
+      return 'Quote has already been used';
+    }
+    if (quote.userId && quote.userId !== item.userId) {
+      return 'Quote was issued to another customer';
+    }
+
+    const matches = quote.stlFileId === item.stlFileId &&
+      quote.materialId === item.materialId &&
+      quote.quantity === item.quantity &&
+      quote.currency === item.currency &&
+      canonicalJson(quote.printSettings) === canonicalJson(this.normalizeSettings(item.printSettings));
+    if (!matches) {
+      return 'Order item does not match the quote';
+    }
+    return null;
+  }
+
+  // The calculation as the customer saw it
+  getCalculation(quote: Quote): PricingCalculation {
+    return {
+      ...(quote.calculation as unknown as PricingCalculation),
+      quote: { id: quote.id, expiresAt: quote.expiresAt.toISOString() },
+    };
+  }
+
+  // Unset settings are stored as null so a quote and an order item compare equal
+  private normalizeSettings(settings: PrintSettings = {}): Record<string, string | number | boolean | null> {
+    return {
+      layerHeight: settings.layerHeight ?? null,
+      infillPercentage: settings.infillPercentage ?? null,
+      printQuality: settings.printQuality ?? null,
+      flexibleStart: settings.flexibleStart === true,
+    };
+  }
+
+  private sign(fields: Omit<Quote, 'id' | 'signature' | 'createdAt' | 'printSettings' | 'calculation'> & {
+    printSettings: unknown;
+    calculation: unknown;
+  }): string {
+    const payload = canonicalJson({
+      userId: fields.userId,
+      stlFileId: fields.stlFileId,
+      materialId: fields.materialId,
+      quantity: fields.quantity,
+      currency: fields.currency,
+      printSettings: fields.printSettings,
+      calculation: fields.calculation,
+      totalCost: fields.totalCost,
+      pricingVersionId: fields.pricingVersionId,
+      expiresAt: fields.expiresAt,
+    });
+    return crypto.createHmac('sha256', this.secret).update(payload).digest('hex');
+  }
+
+  private hasValidSignature(quote: Quote): boolean {
+    const expected = Buffer.from(this.sign(quote), 'hex');
+    const actual = Buffer.from(quote.signature, 'hex');
+    return expected.length === actual.length && crypto.timingSafeEqual(expected, actual);
+  }
+}
+
+export default new QuoteService();
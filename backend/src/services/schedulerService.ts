@@ -0,0 +1,268 @@
+import { PrintJob, PrintStatus, Printer, PrismaClient } from '@prisma/client';
+import printerService from './printerService';
+
+const prisma = new PrismaClient();
+
+interface ScheduledJob {
+  printJobId: string;
+  orderId: string;
+  orderNumber: string;
+  status: PrintStatus;
+  materialId: string;
+  materialName: string;
+  color: string | null;
+  start: Date;
+  end: Date;
+  durationHours: number;
+  materialChange: boolean; // spool has to be swapped before this job
+  dueDate: Date | null;
+  late: boolean;
+  runningLong: boolean; // printing past its estimated end
+}
+
+interface PrinterTimeline {
+  printerId: string;
+  printerName: string;
+  jobs: ScheduledJob[];
+}
+
+interface SchedulePlan {
+  generatedAt: Date;
+  printers: PrinterTimeline[];
+  unscheduled: {
+    printJobId: string;
+    orderNumber: string;
+    reasons: string[];
+  }[];
+}
+
+type JobWithDetails = PrintJob & {
+  orderItem: any; // includes order, stlFile and material
+};
+
+class SchedulerService {
+  private readonly SHIFT_START = this.parseTime(process.env.OPERATOR_SHIFT_START || '08:00'); // minutes after midnight
+  private readonly SHIFT_END = this.parseTime(process.env.OPERATOR_SHIFT_END || '17:00');
+  private readonly SHIFT_DAYS = (process.env.OPERATOR_SHIFT_DAYS || '1,2,3,4,5').split(',').map(Number); // 0 = Sunday
+
+  private readonly MATERIAL_CHANGE_MINUTES = parseInt(process.env.MATERIAL_CHANGE_MINUTES || '15');
+  private readonly DEFAULT_JOB_HOURS = 1; // when a file was never analysed
+
+  // A job that outlives its estimate is assumed to need this much longer
+  private readonly RUNNING_LONG_GRACE_MINUTES = 15;
+
+  private readonly ACTIVE_STATUSES: PrintStatus[] = ['PREPARING', 'PRINTING', 'PAUSED'];
+
+  // Build the plan without saving it
+  async getSchedule(now: Date = new Date()): Promise<SchedulePlan> {
+    try {
+      return await this.buildPlan(now);
+    } catch (error) {
+      console.error('Error building print schedule:', error);
+      throw error;
+    }
+  }
+
+  // Build the plan and write printer assignments and predicted times to the queued jobs
+  async replan(now: Date = new Date()): Promise<SchedulePlan> {
+    try {
+      const plan = await this.buildPlan(now);
+
+      const updates = plan.printers.flatMap(timeline =>
+        timeline.jobs
+          .filter(job => job.status === 'QUEUED')
+          .map(job => prisma.printJob.update({
+            where: { id: job.printJobId },
+            data: {
+              printerId: timeline.printerId,
+              scheduledStart: job.start,
+              scheduledEnd: job.end,
+              errorMessage: null,
+            },
+          }))
+      );
+      const unscheduled = plan.unscheduled.map(job => prisma.printJob.update({
+        where: { id: job.printJobId },
+        data: {
+          printerId: null,
+          scheduledStart: null,
+          scheduledEnd: null,
+          errorMessage: 'No compatible printer available',
+        },
+      }));
+      await prisma.$transaction([...updates, ...unscheduled]);
+
+      return plan;
+    } catch (error) {
+      console.error('Error re-planning print schedule:', error);
+      throw error;
+    }
+  }
+
+  private async buildPlan(now: Date): Promise<SchedulePlan> {
+    const printers = await printerService.getPrinters();
+    const jobs: JobWithDetails[] = await prisma.printJob.findMany({
+      where: { status: { in: ['QUEUED', ...this.ACTIVE_STATUSES] } },
+      include: {
+        orderItem: {
+          include: {
+            order: true,
+            stlFile: true,
+            material: true,
+          },
+        },
+      },
+      orderBy: { createdAt: 'asc' },
+    });
+
+    // Each printer is free once its current job ends, with whatever spool that job used
+    const state = new Map<string, { availableAt: Date; materialId: string | null; color: string | null }>();
+    const timelines = new Map<string, PrinterTimeline>();
+    for (const printer of printers) {
+      state.set(printer.id, { availableAt: now, materialId: printer.loadedMaterialId, color: printer.loadedColor });
+      timelines.set(printer.id, { printerId: printer.id, printerName: printer.name, jobs: [] });
+    }
+
+    for (const job of jobs.filter(job => this.ACTIVE_STATUSES.includes(job.status))) {
+      const timeline = job.printerId ? timelines.get(job.printerId) : undefined;
+      if (!timeline) continue;
+
+      const start = job.startedAt || job.scheduledStart || now;
+      const estimatedEnd = new Date(start.getTime() + this.getJobHours(job) * 3600 * 1000);
+      const runningLong = estimatedEnd <= now;
+      const end = runningLong ? new Date(now.getTime() + this.RUNNING_LONG_GRACE_MINUTES * 60 * 1000) : estimatedEnd;
+
+      timeline.jobs.push(this.toScheduledJob(job, start, end, false, runningLong));
+      state.set(timeline.printerId, { availableAt: end, materialId: job.orderItem.materialId, color: job.orderItem.color });
+    }
+
+    // Earliest due date first; jobs without one keep their queue order
+    const queued = jobs
+      .filter(job => job.status === 'QUEUED')
+      .sort((a, b) => {
+        const dueA = a.orderItem.order.dueDate?.getTime() ?? Infinity;
+        const dueB = b.orderItem.order.dueDate?.getTime() ?? Infinity;
+        return dueA - dueB || a.createdAt.getTime() - b.createdAt.getTime();
+      });
+
+    const unscheduled: SchedulePlan['unscheduled'] = [];
+
+    for (const job of queued) {
+      const compatible = printers.filter(printer =>
+        printerService.checkCompatibility(printer, job.orderItem.stlFile, job.orderItem.material.type).compatible
+      );
+      if (compatible.length === 0) {
+        unscheduled.push({
+          printJobId: job.id,
+          orderNumber: job.orderItem.order.orderNumber,
+          reasons: printers.length === 0
+            ? ['No printers configured']
+            : printers.flatMap(printer =>
+              printerService.checkCompatibility(printer, job.orderItem.stlFile, job.orderItem.material.type).reasons
+                .map(reason => `${printer.name}: ${reason}`)
+            ),
+        });
+        continue;
+      }
+
+      // Place the job where it finishes first; a spool swap costs operator time
+      let best: { printer: Printer; start: Date; end: Date; materialChange: boolean } | null = null;
+      for (const printer of compatible) {
+        const slot = this.planSlot(state.get(printer.id)!, job);
+        if (!best || slot.end < best.end || (slot.end.getTime() === best.end.getTime() && !slot.materialChange)) {
+          best = { printer, ...slot };
+        }
+      }
+
+      const { printer, start, end, materialChange } = best!;
+      timelines.get(printer.id)!.jobs.push(this.toScheduledJob(job, start, end, materialChange, false));
+      state.set(printer.id, { availableAt: end, materialId: job.orderItem.materialId, color: job.orderItem.color });
+    }
+
+    return {
+      generatedAt: now,
+      printers: Array.from(timelines.values()),
+      unscheduled,
+    };
+  }
+
+  // An operator has to clear the bed and start the print, so jobs only start in shift hours
+  private planSlot(
+    printer: { availableAt: Date; materialId: string | null; color: string | null },
+    job: JobWithDetails
+  ): { start: Date; end: Date; materialChange: boolean } {
+    const materialChange = printer.materialId !== job.orderItem.materialId ||
+      (job.orderItem.color !== null && printer.color !== job.orderItem.color);
+
+    let start = this.nextShiftTime(printer.availableAt);
+    if (materialChange) {
+      start = new Date(start.getTime() + this.MATERIAL_CHANGE_MINUTES * 60 * 1000);
+    }
+    const end = new Date(start.getTime() + this.getJobHours(job) * 3600 * 1000);
+
+    return { start, end, materialChange };
+  }
+
+  // Item estimates cover the whole item; file estimates are per copy
+  private getJobHours(job: JobWithDetails): number {
+    const item = job.orderItem;
+    if (item.estimatedTime) {
+      return item.estimatedTime;
+    }
+    return (item.stlFile.estimatedPrintTime || this.DEFAULT_JOB_HOURS) * item.quantity;
+  }
+
+  private toScheduledJob(job: JobWithDetails, start: Date, end: Date, materialChange: boolean, runningLong: boolean): ScheduledJob {
+    const dueDate: Date | null = job.orderItem.order.dueDate;
+    return {
+      printJobId: job.id,
+      orderId: job.orderItem.order.id,
+      orderNumber: job.orderItem.order.orderNumber,
+      status: job.status,
+      materialId: job.orderItem.materialId,
+      materialName: job.orderItem.material.name,
+      color: job.orderItem.color,
+      start,
+      end,
+      durationHours: (end.getTime() - start.getTime()) / (3600 * 1000),
+      materialChange,
+      dueDate,
+      late: dueDate !== null && end > dueDate,
+      runningLong,
+    };
+  }
+
+  // First moment at or after `time` when an operator is on shift (server local time)
+  private nextShiftTime(time: Date): Date {
+    const candidate = new Date(time);
+    for (let day = 0; day < 8; day++) {
+      const minutes = candidate.getHours() * 60 + candidate.getMinutes();
+      if (this.SHIFT_DAYS.includes(candidate.getDay()) && minutes < this.SHIFT_END) {
+        if (minutes >= this.SHIFT_START) {
+          return candidate;
+        }
+        candidate.setHours(Math.floor(this.SHIFT_START / 60), this.SHIFT_START % 60, 0, 0);
+        return candidate;
+      }
+      candidate.setDate(candidate.getDate() + 1);
+      candidate.setHours(0, 0, 0, 0);
+    }
+    return new Date(time); // no shift days configured
+  }
+
+  private parseTime(value: string): number {
+    const [hours, minutes] = value.split(':').map(Number);
+    return hours * 60 + (minutes || 0);
+  }
+
+  // Re-plan periodically so jobs that run long push the rest of their printer's queue back
+  startReplanJob(): void {
+    setInterval(() => {
+      this.replan().catch(() => undefined); // already logged
+    }, 5 * 60 * 1000); // 5 minutes
+
+    console.log('Print schedule re-plan job started');
+  }
+}
+
+export default new SchedulerService();
@@ -0,0 +1,165 @@
+import { Order, Prisma, PrismaClient, ShippingMethod, ShippingRate } from '@prisma/client';
+import { CARRIER_NAMES, CarrierAdapter, createCarrier, ParcelShop, TrackingInfo } from '../utils/carriers';
+import { roundToOre } from '../utils/pricingEngine';
+import { StatusActor, SYSTEM_ACTOR } from '../utils/orderStateMachine';
+import orderProcessingService from './orderProcessingService';
+
+const prisma = new PrismaClient();
+
+interface ShippingOption {
+  method: ShippingMethod;
+  name: string;
+  price: number; // excl. VAT, in the requested currency
+  rateId: string | null; // null for pickup
+}
+
+class ShippingService {
+  // Box plus padding: a fixed weight per parcel and a share of what is packed
+  private readonly packagingGrams = parseFloat(process.env.SHIPPING_PACKAGING_GRAMS || '250');
+  private readonly packagingFactor = parseFloat(process.env.SHIPPING_PACKAGING_FACTOR || '0.15');
+  private readonly carriers = new Map<string, CarrierAdapter>();
+
+  // Parcel weight for the printed material of an order, in grams
+  getParcelWeight(materialGrams: number): number {
+    return Math.round(materialGrams * (1 + this.packagingFactor) + this.packagingGrams);
+  }
+
+  async getRates(includeInactive: boolean = false): Promise<ShippingRate[]> {
+    try {
+      return await prisma.shippingRate.findMany({
+        where: includeInactive ? {} : { isActive: true },
+        orderBy: [{ method: 'asc' }, { maxWeight: 'asc' }],
+      });
+    } catch (error) {
+      console.error('Error fetching shipping rates:', error);
+      throw error;
+    }
+  }
+
+  async getRate(id: string): Promise<ShippingRate | null> {
+    try {
+      return await prisma.shippingRate.findUnique({ where: { id } });
+    } catch (error) {
+      console.error('Error fetching shipping rate:', error);
+      throw error;
+    }
+  }
+
+  async createRate(data: Prisma.ShippingRateCreateInput): Promise<ShippingRate> {
+    try {
+      return await prisma.shippingRate.create({ data });
+    } catch (error) {
+      console.error('Error creating shipping rate:', error);
+      throw error;
+    }
+  }
+
+  async updateRate(id: string, data: Prisma.ShippingRateUpdateInput): Promise<ShippingRate> {
+    try {
+      return await prisma.shippingRate.update({ where: { id }, data });
+    } catch (error) {
+      console.error('Error updating shipping rate:', error);
+      throw error;
+    }
+  }
+
+  // The methods an order of this much material can ship with and what each costs.
+  // Pickup is always offered; a method without a band heavy enough is left out.
+  async getOptions(materialGrams: number, dkkPerUnit: number = 1): Promise<ShippingOption[]> {
+    try {
+      const weight = this.getParcelWeight(materialGrams);
+      const rates = await prisma.shippingRate.findMany({
+        where: { isActive: true, maxWeight: { gte: weight } },
+        orderBy: [{ price: 'asc' }, { maxWeight: 'asc' }],
+      });
+
+      const options: ShippingOption[] = [{ method: 'PICKUP', name: 'Pickup at the workshop', price: 0, rateId: null }];
+      for (const method of ['PARCEL_SHOP', 'HOME_DELIVERY'] as ShippingMethod[]) {
+        const rate = rates.find(candidate => candidate.method === method);
+        if (rate) {
+          options.push({ method, name: rate.name, price: roundToOre(rate.price / dkkPerUnit), rateId: rate.id });
+        }
+      }
+      return options;
+    } catch (error) {
+      console.error('Error calculating shipping options:', error);
+      throw error;
+    }
+  }
+
+  isCarrier(name: string): boolean {
+    return CARRIER_NAMES.includes(name);
+  }
+
+  // Adapters are created once, so the stub carrier remembers its parcels
+  getCarrier(name: string = process.env.SHIPPING_CARRIER || 'postnord'): CarrierAdapter {
+    let carrier = this.carriers.get(name);
+    if (!carrier) {
+      carrier = createCarrier(name);
+      this.carriers.set(name, carrier);
+    }
+    return carrier;
+  }
+
+  // Replace an adapter, e.g. with a stub carrier in tests
+  setCarrier(carrier: CarrierAdapter): void {
+    this.carriers.set(carrier.name, carrier);
+  }
+
+  async findParcelShops(postalCode: string, country: string): Promise<ParcelShop[]> {
+    try {
+      return await this.getCarrier().findParcelShops(postalCode, country);
+    } catch (error) {
+      console.error('Error finding parcel shops:', error);
+      throw error;
+    }
+  }
+
+  // Record the carrier's tracking number and mark the order shipped, which emails the
+  // customer the tracking link. Attaching again corrects a mistyped number.
+  async attachTracking(
+    orderId: string,
+    carrierName: string,
+    trackingNumber: string,
+    actor: StatusActor = SYSTEM_ACTOR
+  ): Promise<Order | null> {
+    try {
+      const carrier = this.getCarrier(carrierName);
+      const tracking = {
+        carrier: carrier.name,
+        trackingNumber,
+        trackingUrl: carrier.getTrackingUrl(trackingNumber),
+      };
+
+      const order = await prisma.order.findUnique({ where: { id: orderId }, select: { status: true } });
+      if (!order) {
+        return null;
+      }
+      if (order.status === 'SHIPPED') {
+        return await prisma.order.update({ where: { id: orderId }, data: tracking });
+      }
+      // Written with the status change, so a rejected move leaves no tracking behind
+      return await orderProcessingService.updateOrderStatus(orderId, 'SHIPPED', undefined, actor, {
+        ...tracking,
+        shippedAt: new Date(),
+      });
+    } catch (error) {
+      console.error('Error attaching tracking number:', error);
+      throw error;
+    }
+  }
+
+  async getTracking(order: Pick<Order, 'carrier' | 'trackingNumber'>): Promise<TrackingInfo | null> {
+    try {
+      if (!order.carrier || !order.trackingNumber) {
+        return null;
+      }
+      return await this.getCarrier(order.carrier).getTracking(order.trackingNumber);
+    } catch (error) {
+      console.error('Error fetching tracking:', error);
+      throw error;
+    }
+  }
+}
+
+export default new ShippingService();
@@ -1,7 +1,18 @@
-import { PrismaClient } from '@prisma/client';
+import { MaterialType, PrismaClient } from '@prisma/client';
 import * as fs from 'fs';
 import * as path from 'path';
-import * as stlParser from 'stl-parser';
+import { Worker } from 'worker_threads';
+import { MeshAnalysisResult } from '../utils/meshAnalysis';
+import { MeshFormat, detectMeshFormat } from '../utils/meshFormats';
+import { MeshHealthReport } from '../utils/meshHealth';
+import {
+  OrientationCandidate,
+  OrientationResult,
+  RotationMatrix,
+  STANDARD_ORIENTATIONS,
+  isRotationMatrix,
+} from '../utils/meshOrientation';
+import { LayerSlice } from '../utils/meshSlicer';
 
 const prisma = new PrismaClient();
 
@@ -18,9 +29,69 @@ interface STLAnalysis {
     max: { x: number; y: number; z: number };
   };
   estimatedPrintTime: number; // in hours
+  layerCount: number;
+  printTimeEstimate: PrintTimeEstimate;
   materialUsage: number; // in grams
   supportRequired: boolean;
+  support: {
+    overhangAngle: number; // degrees from vertical printable without support
+    overhangArea: number; // in cm²
+    supportVolume: number; // in cm³, before support density
+    supportContactArea: number; // in cm²
+  };
   printabilityScore: number; // 0-100
+  meshHealth: MeshHealthReport | null; // null when the mesh was too large to check
+  orientation: {
+    id: string;
+    rotation: RotationMatrix; // row-major 3×3 applied to the uploaded model
+    selectedBy: 'search' | 'user';
+    candidates: OrientationComparison[];
+  };
+}
+
+interface PrintTimeEstimate {
+  layerHeight: number; // mm
+  layerCount: number;
+  totalTime: number; // in seconds
+  breakdown: {
+    perimeter: number; // in seconds
+    infill: number;
+    skin: number; // solid top/bottom layers
+    support: number;
+    travel: number;
+    layerChange: number;
+    cooling: number; // waiting out the minimum layer time
+  };
+  layers: number[]; // seconds per layer, bottom to top
+}
+
+interface OrientationComparison {
+  id: string;
+  rotation: RotationMatrix;
+  dimensions: {
+    width: number;
+    height: number;
+    depth: number;
+  };
+  supportRequired: boolean;
+  supportVolume: number; // in cm³, before support density
+  bedContactArea: number; // in cm²
+  estimatedPrintTime: number; // in hours
+  materialUsage: number; // in grams
+  fitsBuildVolume: boolean;
+}
+
+// Measurements of one orientation of the model, in cm, cm² and cm³
+interface MeshGeometry {
+  volume: number;
+  dimensions: STLAnalysis['dimensions'];
+  surfaceArea: number;
+  boundingBox: STLAnalysis['boundingBox'];
+  triangleCount: number;
+  support: STLAnalysis['support'] & {
+    bedContactArea: number; // footprint on the bed
+  };
+  meshHealth: MeshHealthReport | null;
 }
 
 interface PrintSettings {
@@ -30,9 +101,66 @@ interface PrintSettings {
   supportDensity: number; // 0-100
   materialType: string; // PLA, PETG, ABS, etc.
   printQuality: string; // draft, normal, high
+  overhangAngle?: number; // degrees from vertical; defaults to the material's setting
+  orientation?: string | RotationMatrix; // candidate id or rotation matrix; searched when omitted
+}
+
+// One analysis worker, asked one question at a time: the geometry first, then the
+// slices of the chosen orientation. The timeout covers the whole conversation.
+class MeshWorker {
+  private readonly timeout: NodeJS.Timeout;
+  private timedOut = false;
+
+  constructor(private readonly worker: Worker, timeoutMs: number) {
+    this.timeout = setTimeout(() => {
+      this.timedOut = true;
+      worker.terminate();
+    }, timeoutMs);
+  }
+
+  send(message: object): void {
+    this.worker.postMessage(message);
+  }
+
+  receive<T>(): Promise<T> {
+    return new Promise((resolve, reject) => {
+      const done = () => {
+        this.worker.off('message', onMessage);
+        this.worker.off('error', onError);
+        this.worker.off('exit', onExit);
+      };
+      const onMessage = (message: { result?: T; error?: string }) => {
+        done();
+        if (message.error) {
+          reject(new Error(message.error));
+        } else {
+          resolve(message.result!);
+        }
+      };
+      const onError = (error: Error) => {
+        done();
+        reject(error);
+      };
+      const onExit = (code: number) => {
+        done();
+        reject(new Error(this.timedOut ? 'Model analysis timed out' : `Model analysis worker exited with code ${code}`));
+      };
+
+      this.worker.on('message', onMessage);
+      this.worker.on('error', onError);
+      this.worker.on('exit', onExit);
+    });
+  }
+
+  close(): void {
+    clearTimeout(this.timeout);
+    this.worker.terminate();
+  }
 }
 
 class STLAnalysisService {
+  // Motion profile for time estimates. Build volumes come from the printer fleet;
+  // this one is only used when no printers are configured.
   private readonly PRINTER_SPECS = {
     buildVolume: { x: 256, y: 256, z: 256 }, // Bamboo Lab X1 Carbon build volume in mm
     maxLayerHeight: 0.3,
@@ -40,6 +168,34 @@ class STLAnalysisService {
     nozzleDiameter: 0.4,
     maxPrintSpeed: 300, // mm/s
     averagePrintSpeed: 60, // mm/s
+    travelSpeed: 500, // mm/s
+    acceleration: 5000, // mm/s², print moves
+    travelAcceleration: 10000, // mm/s²
+    layerChangeTime: 0.2, // seconds
+    minLayerTime: 4, // seconds, small layers are slowed down to cool
+  };
+
+  // Firmware blends through the tiny segments of tessellated curves, so short
+  // contour segments are only treated as separate moves every this many mm
+  private readonly MIN_CORNER_SPACING = 2; // mm
+
+  private readonly ANALYSIS_TIMEOUT_MS = parseInt(process.env.MODEL_ANALYSIS_TIMEOUT_MS || '120000');
+
+  private readonly DEFAULT_OVERHANG_ANGLE = 45; // degrees, used when the material has none
+
+  // Overhangs smaller than this (chamfers, tessellation noise) are bridged without support
+  private readonly MIN_SUPPORTED_OVERHANG_AREA = 0.1; // cm²
+
+  // Orientations standing on less than this need a raft or support to stay put
+  private readonly MIN_BED_CONTACT_AREA = 1; // cm²
+
+  private readonly DEFAULT_PRINT_SETTINGS: PrintSettings = {
+    layerHeight: 0.2,
+    infillPercentage: 20,
+    wallThickness: 1.2,
+    supportDensity: 15,
+    materialType: 'PLA',
+    printQuality: 'normal',
   };
 
   private readonly MATERIAL_DENSITIES = {
@@ -50,232 +206,248 @@ class STLAnalysisService {
     ASA: 1.05, // g/cm³
   };
 
-  async analyzeSTLFile(filePath: string, settings: PrintSettings): Promise<STLAnalysis> {
+  async analyzeSTLFile(filePath: string, printSettings: Partial<PrintSettings> = {}, originalName?: string): Promise<STLAnalysis> {
     try {
-      // Read STL file
-      const stlData = await this.readSTLFile(filePath);
-      
-      // Parse STL data and calculate geometry
-      const geometry = await this.parseSTLData(stlData);
-      
-      // Calculate material usage
-      const materialUsage = this.calculateMaterialUsage(geometry, settings);
-      
-      // Estimate print time
-      const printTime = this.estimatePrintTime(geometry, settings);
-      
-      // Check printability
-      const printabilityScore = this.calculatePrintabilityScore(geometry);
+      const settings = { ...this.DEFAULT_PRINT_SETTINGS, ...printSettings };
+
+      // Detect the model format (STL, OBJ or 3MF) from the file head
+      const format = detectMeshFormat(await this.readFileHead(filePath), originalName || filePath);
+
+      // Always evaluate the standard orientations so the comparison table is complete
+      const requested = this.resolveRequestedOrientation(settings.orientation);
+      const candidates = requested && !STANDARD_ORIENTATIONS.includes(requested)
+        ? [...STANDARD_ORIENTATIONS, requested]
+        : STANDARD_ORIENTATIONS;
+
+      // Parse the model and calculate geometry off the request thread. The same worker
+      // slices the chosen orientation below, so the model is parsed only once; an STL is
+      // streamed from disk a second time, as the slice planes depend on that choice.
+      const overhangAngle = await this.resolveOverhangAngle(settings);
+      const worker = this.startMeshWorker(filePath, format, { overhangAngle, orientations: candidates });
+      try {
+        const result = await worker.receive<MeshAnalysisResult>();
+
+        // Quote every orientation the same way, then keep the requested or the best one
+        const buildVolumes = await this.resolveBuildVolumes();
+        const evaluated = result.orientations.map(orientation =>
+          this.evaluateOrientation(this.toGeometry(result, orientation), orientation, settings, buildVolumes)
+        );
+        const chosen = requested
+          ? evaluated.find(candidate => candidate.id === requested.id)!
+          : this.selectBestOrientation(evaluated);
+        const geometry = chosen.geometry;
+
+        // Slice the chosen orientation for a layer-by-layer print time
+        const { rotation, boundingBox } = result.orientations.find(orientation => orientation.id === chosen.id)!;
+        worker.send({
+          rotation,
+          zMin: boundingBox.min.z,
+          zMax: boundingBox.max.z,
+          layerHeight: settings.layerHeight,
+          overhangAngle,
+        });
+        const layers = await worker.receive<LayerSlice[]>();
+        const printTimeEstimate = this.estimateLayerTimes(layers, settings, chosen.supportRequired);
       
-      // Determine if support is required
-      const supportRequired = this.requiresSupport(geometry, settings);
-
-      return {
-        volume: geometry.volume,
-        dimensions: geometry.dimensions,
-        surfaceArea: geometry.surfaceArea,
-        boundingBox: geometry.boundingBox,
-        estimatedPrintTime: printTime,
-        materialUsage,
-        supportRequired,
-        printabilityScore,
-      };
+        // Check printability
+        const printabilityScore = this.calculatePrintabilityScore(geometry, chosen.fitsBuildVolume);
+
+        return {
+          volume: geometry.volume,
+          dimensions: geometry.dimensions,
+          surfaceArea: geometry.surfaceArea,
+          boundingBox: geometry.boundingBox,
+          estimatedPrintTime: printTimeEstimate.totalTime / 3600, // Convert to hours
+          layerCount: printTimeEstimate.layerCount,
+          printTimeEstimate,
+          materialUsage: chosen.materialUsage,
+          supportRequired: chosen.supportRequired,
+          support: geometry.support,
+          printabilityScore,
+          meshHealth: geometry.meshHealth,
+          orientation: {
+            id: chosen.id,
+            rotation: chosen.rotation,
+            selectedBy: requested ? 'user' : 'search',
+            candidates: evaluated.map(({ geometry, ...comparison }) => comparison),
+          },
+        };
+      } finally {
+        worker.close();
+      }
     } catch (error) {
       console.error('Error analyzing STL file:', error);
-      throw new Error('Failed to analyze STL file');
+      throw new Error(`Failed to analyze STL file${error instanceof Error ? `: ${error.message}` : ''}`);
     }
   }
 
-  private async readSTLFile(filePath: string): Promise<Buffer> {
-    try {
-      return await fs.promises.readFile(filePath);
-    } catch (error) {
-      throw new Error(`Failed to read STL file: ${error}`);
+  private resolveRequestedOrientation(orientation: PrintSettings['orientation']): OrientationCandidate | null {
+    if (orientation === undefined) {
+      return null;
+    }
+    if (typeof orientation === 'string') {
+      const candidate = STANDARD_ORIENTATIONS.find(standard => standard.id === orientation);
+      if (!candidate) {
+        throw new Error(`Unknown orientation: ${orientation}`);
+      }
+      return candidate;
+    }
+    if (!isRotationMatrix(orientation)) {
+      throw new Error('Orientation must be a 3×3 rotation matrix');
     }
+    return { id: 'custom', rotation: orientation };
+  }
+
+  private evaluateOrientation(
+    geometry: MeshGeometry,
+    orientation: OrientationResult,
+    settings: PrintSettings,
+    buildVolumes: { x: number; y: number; z: number }[]
+  ): OrientationComparison & { geometry: MeshGeometry } {
+    const supportRequired = this.requiresSupport(geometry);
+
+    return {
+      id: orientation.id,
+      rotation: orientation.rotation,
+      dimensions: geometry.dimensions,
+      supportRequired,
+      supportVolume: supportRequired ? geometry.support.supportVolume : 0,
+      bedContactArea: geometry.support.bedContactArea,
+      estimatedPrintTime: this.estimatePrintTime(geometry, settings, supportRequired),
+      materialUsage: this.calculateMaterialUsage(geometry, settings, supportRequired),
+      fitsBuildVolume: buildVolumes.some(buildVolume => this.fitsBuildVolume(geometry.dimensions, buildVolume)),
+      geometry,
+    };
+  }
+
+  // The part may be turned on the bed, so width and height can swap
+  private fitsBuildVolume(dimensions: { width: number; height: number; depth: number }, buildVolume: { x: number; y: number; z: number }): boolean {
+    const footprint = [dimensions.width * 10, dimensions.height * 10].sort((a, b) => a - b); // mm
+    const bed = [buildVolume.x, buildVolume.y].sort((a, b) => a - b);
+    return footprint[0] <= bed[0] && footprint[1] <= bed[1] && dimensions.depth * 10 <= buildVolume.z;
   }
 
-  private async parseSTLData(stlData: Buffer): Promise<any> {
+  private async resolveBuildVolumes(): Promise<{ x: number; y: number; z: number }[]> {
     try {
-      // Use stl-parser library for better STL parsing
-      const stlString = stlData.toString('binary');
-      const parsed = stlParser.parseStlSync(stlString);
-      
-      let minX = Infinity, minY = Infinity, minZ = Infinity;
-      let maxX = -Infinity, maxY = -Infinity, maxZ = -Infinity;
-      let totalVolume = 0;
-      let totalSurfaceArea = 0;
-      let totalTriangles = 0;
-
-      // Process all triangles
-      for (const triangle of parsed.triangles) {
-        const v1 = triangle.vertex1;
-        const v2 = triangle.vertex2;
-        const v3 = triangle.vertex3;
-
-        // Update bounding box
-        minX = Math.min(minX, v1.x, v2.x, v3.x);
-        minY = Math.min(minY, v1.y, v2.y, v3.y);
-        minZ = Math.min(minZ, v1.z, v2.z, v3.z);
-        maxX = Math.max(maxX, v1.x, v2.x, v3.x);
-        maxY = Math.max(maxY, v1.y, v2.y, v3.y);
-        maxZ = Math.max(maxZ, v1.z, v2.z, v3.z);
-
-        // Calculate triangle area
-        const area = this.calculateTriangleArea(v1, v2, v3);
-        totalSurfaceArea += area;
-
-        // Calculate volume using tetrahedron method (more accurate)
-        const tetrahedronVolume = this.calculateTetrahedronVolume(
-          { x: 0, y: 0, z: 0 }, // Origin
-          v1, v2, v3
-        );
-        totalVolume += Math.abs(tetrahedronVolume);
-        totalTriangles++;
+      const printers = await prisma.printer.findMany({
+        where: { isActive: true },
+        select: { buildVolumeX: true, buildVolumeY: true, buildVolumeZ: true },
+      });
+      if (printers.length > 0) {
+        return printers.map(printer => ({ x: printer.buildVolumeX, y: printer.buildVolumeY, z: printer.buildVolumeZ }));
       }
-
-      // Convert to cm
-      const width = (maxX - minX) / 10;
-      const height = (maxY - minY) / 10;
-      const depth = (maxZ - minZ) / 10;
-
-      return {
-        volume: totalVolume / 1000, // Convert to cm³
-        dimensions: {
-          width,
-          height,
-          depth,
-        },
-        surfaceArea: totalSurfaceArea / 100, // Convert to cm²
-        boundingBox: {
-          min: { x: minX / 10, y: minY / 10, z: minZ / 10 },
-          max: { x: maxX / 10, y: maxY / 10, z: maxZ / 10 },
-        },
-        triangleCount: totalTriangles,
-      };
     } catch (error) {
-      console.error('Error parsing STL with library, falling back to manual parsing:', error);
-      // Fallback to manual parsing if library fails
-      return this.parseSTLDataManual(stlData);
+      console.error('Error fetching printer build volumes:', error);
     }
+    return [this.PRINTER_SPECS.buildVolume];
   }
 
-  private async parseSTLDataManual(stlData: Buffer): Promise<any> {
-    // Fallback manual STL parser
-    const header = stlData.slice(0, 80);
-    const triangleCount = stlData.readUInt32LE(80);
-    
-    let minX = Infinity, minY = Infinity, minZ = Infinity;
-    let maxX = -Infinity, maxY = -Infinity, maxZ = -Infinity;
-    let totalVolume = 0;
-    let totalSurfaceArea = 0;
-
-    // Parse triangles (limit for performance)
-    const maxTriangles = Math.min(triangleCount, 5000);
-    for (let i = 0; i < maxTriangles; i++) {
-      const offset = 84 + (i * 50);
-      
-      // Read vertices
-      const v1x = stlData.readFloatLE(offset + 12);
-      const v1y = stlData.readFloatLE(offset + 16);
-      const v1z = stlData.readFloatLE(offset + 20);
-      
-      const v2x = stlData.readFloatLE(offset + 24);
-      const v2y = stlData.readFloatLE(offset + 28);
-      const v2z = stlData.readFloatLE(offset + 32);
-      
-      const v3x = stlData.readFloatLE(offset + 36);
-      const v3y = stlData.readFloatLE(offset + 40);
-      const v3z = stlData.readFloatLE(offset + 44);
-
-      // Update bounding box
-      minX = Math.min(minX, v1x, v2x, v3x);
-      minY = Math.min(minY, v1y, v2y, v3y);
-      minZ = Math.min(minZ, v1z, v2z, v3z);
-      maxX = Math.max(maxX, v1x, v2x, v3x);
-      maxY = Math.max(maxY, v1y, v2y, v3y);
-      maxZ = Math.max(maxZ, v1z, v2z, v3z);
-
-      // Calculate triangle area
-      const area = this.calculateTriangleArea(
-        { x: v1x, y: v1y, z: v1z },
-        { x: v2x, y: v2y, z: v2z },
-        { x: v3x, y: v3y, z: v3z }
-      );
-      totalSurfaceArea += area;
-
-      // Calculate volume using tetrahedron method
-      const tetrahedronVolume = this.calculateTetrahedronVolume(
-        { x: 0, y: 0, z: 0 },
-        { x: v1x, y: v1y, z: v1z },
-        { x: v2x, y: v2y, z: v2z },
-        { x: v3x, y: v3y, z: v3z }
-      );
-      totalVolume += Math.abs(tetrahedronVolume);
+  private selectBestOrientation<T extends OrientationComparison>(candidates: T[]): T {
+    // Only fall back to unstable or oversized orientations when nothing else works
+    const stable = candidates.filter(candidate =>
+      candidate.fitsBuildVolume && candidate.bedContactArea >= this.MIN_BED_CONTACT_AREA
+    );
+    const pool = stable.length > 0 ? stable : candidates;
+
+    return pool.reduce((best, candidate) => (this.isBetterOrientation(candidate, best) ? candidate : best));
+  }
+
+  private isBetterOrientation(a: OrientationComparison, b: OrientationComparison): boolean {
+    // Differences under 1% are noise in the estimate; keep the earlier (less rotated) candidate
+    const differs = (x: number, y: number) => Math.abs(x - y) > 0.01 * Math.max(x, y);
+
+    if (differs(a.estimatedPrintTime, b.estimatedPrintTime)) {
+      return a.estimatedPrintTime < b.estimatedPrintTime;
     }
+    if (differs(a.materialUsage, b.materialUsage)) {
+      return a.materialUsage < b.materialUsage;
+    }
+    return differs(a.bedContactArea, b.bedContactArea) && a.bedContactArea > b.bedContactArea;
+  }
 
-    // Scale up volume if we limited triangles
-    if (maxTriangles < triangleCount) {
-      totalVolume *= (triangleCount / maxTriangles);
+  private async resolveOverhangAngle(settings: PrintSettings): Promise<number> {
+    if (settings.overhangAngle !== undefined) {
+      return settings.overhangAngle;
     }
 
-    const width = (maxX - minX) / 10;
-    const height = (maxY - minY) / 10;
-    const depth = (maxZ - minZ) / 10;
+    // Fall back to the material's own overhang capability (e.g. TPU sags earlier than PLA)
+    if (Object.values(MaterialType).includes(settings.materialType as MaterialType)) {
+      try {
+        const material = await prisma.material.findFirst({
+          where: { type: settings.materialType as MaterialType, isActive: true },
+          select: { overhangAngle: true },
+        });
+        if (material) {
+          return material.overhangAngle;
+        }
+      } catch (error) {
+        console.error('Error fetching material overhang angle:', error);
+      }
+    }
+    return this.DEFAULT_OVERHANG_ANGLE;
+  }
 
-    return {
-      volume: totalVolume / 1000, // Convert to cm³
-      dimensions: {
-        width,
-        height,
-        depth,
-      },
-      surfaceArea: totalSurfaceArea / 100, // Convert to cm²
-      boundingBox: {
-        min: { x: minX / 10, y: minY / 10, z: minZ / 10 },
-        max: { x: maxX / 10, y: maxY / 10, z: maxZ / 10 },
-      },
-      triangleCount: maxTriangles,
-    };
+  private async readFileHead(filePath: string): Promise<Buffer> {
+    // Only the first few KB are needed to tell the formats apart
+    try {
+      const handle = await fs.promises.open(filePath, 'r');
+      try {
+        const buffer = Buffer.alloc(4096);
+        const { bytesRead } = await handle.read(buffer, 0, buffer.length, 0);
+        return buffer.subarray(0, bytesRead);
+      } finally {
+        await handle.close();
+      }
+    } catch (error) {
+      throw new Error(`Failed to read STL file: ${error}`);
+    }
   }
 
-  private calculateTriangleArea(v1: any, v2: any, v3: any): number {
-    // Calculate triangle area using cross product
-    const a = Math.sqrt(
-      Math.pow(v2.x - v1.x, 2) + Math.pow(v2.y - v1.y, 2) + Math.pow(v2.z - v1.z, 2)
-    );
-    const b = Math.sqrt(
-      Math.pow(v3.x - v1.x, 2) + Math.pow(v3.y - v1.y, 2) + Math.pow(v3.z - v1.z, 2)
-    );
-    const c = Math.sqrt(
-      Math.pow(v3.x - v2.x, 2) + Math.pow(v3.y - v2.y, 2) + Math.pow(v3.z - v2.z, 2)
+  // Parsing a 50 MB scan takes seconds of CPU, so it runs in a worker thread to
+  // keep the event loop (and every other request) responsive
+  private startMeshWorker(filePath: string, format: MeshFormat, options: object): MeshWorker {
+    // Under ts-node (development) the worker is a .ts file and needs the same loader
+    const extension = path.extname(__filename);
+    const workerPath = path.join(__dirname, '..', 'workers', `meshAnalysisWorker${extension}`);
+
+    return new MeshWorker(
+      new Worker(workerPath, {
+        workerData: { filePath, format, options },
+        execArgv: extension === '.ts' ? ['--require', 'ts-node/register'] : undefined,
+      }),
+      this.ANALYSIS_TIMEOUT_MS
     );
-    
-    const s = (a + b + c) / 2;
-    return Math.sqrt(s * (s - a) * (s - b) * (s - c));
   }
 
-  private calculateTetrahedronVolume(v0: any, v1: any, v2: any, v3: any): number {
-    // Calculate volume of tetrahedron using scalar triple product
-    // Volume = |(v1-v0) · ((v2-v0) × (v3-v0))| / 6
-    
-    const a = { x: v1.x - v0.x, y: v1.y - v0.y, z: v1.z - v0.z };
-    const b = { x: v2.x - v0.x, y: v2.y - v0.y, z: v2.z - v0.z };
-    const c = { x: v3.x - v0.x, y: v3.y - v0.y, z: v3.z - v0.z };
-    
-    // Calculate cross product b × c
-    const cross = {
-      x: b.y * c.z - b.z * c.y,
-      y: b.z * c.x - b.x * c.z,
-      z: b.x * c.y - b.y * c.x
+  private toGeometry({ stats, meshHealth }: MeshAnalysisResult, { boundingBox: box, support }: OrientationResult): MeshGeometry {
+    // Convert to cm. Extents and support come from the rotated candidate; volume
+    // and area do not depend on orientation. An inside-out mesh integrates to a
+    // negative volume; the magnitude is still right and the health report flags it.
+    return {
+      volume: Math.abs(stats.signedVolume) / 1000, // Convert to cm³
+      dimensions: {
+        width: (box.max.x - box.min.x) / 10,
+        height: (box.max.y - box.min.y) / 10,
+        depth: (box.max.z - box.min.z) / 10,
+      },
+      surfaceArea: stats.surfaceArea / 100, // Convert to cm²
+      boundingBox: {
+        min: { x: box.min.x / 10, y: box.min.y / 10, z: box.min.z / 10 },
+        max: { x: box.max.x / 10, y: box.max.y / 10, z: box.max.z / 10 },
+      },
+      triangleCount: stats.triangleCount,
+      support: {
+        overhangAngle: support.overhangAngle,
+        overhangArea: support.overhangArea / 100, // Convert to cm²
+        supportVolume: support.supportVolume / 1000, // Convert to cm³
+        supportContactArea: support.supportContactArea / 100, // Convert to cm²
+        bedContactArea: support.bedContactArea / 100, // Convert to cm²
+      },
+      meshHealth,
     };
-    
-    // Calculate dot product a · (b × c)
-    const dot = a.x * cross.x + a.y * cross.y + a.z * cross.z;
-    
-    return Math.abs(dot) / 6;
   }
 
-  private calculateMaterialUsage(geometry: any, settings: PrintSettings): number {
+  private calculateMaterialUsage(geometry: MeshGeometry, settings: PrintSettings, supportRequired: boolean): number {
     // Calculate material usage based on volume, infill, and support
     const baseVolume = geometry.volume; // cm³
     
@@ -287,7 +459,7 @@ class STLAnalysisService {
     const infillVolume = internalVolume * (settings.infillPercentage / 100);
     
     // Calculate support volume if needed
-    const supportVolume = settings.supportRequired ? this.calculateSupportVolume(geometry, settings) : 0;
+    const supportVolume = supportRequired ? this.calculateSupportVolume(geometry, settings) : 0;
     
     // Calculate brim/raft volume (estimated)
     const brimVolume = this.calculateBrimVolume(geometry, settings);
@@ -300,63 +472,60 @@ class STLAnalysisService {
     return totalVolume * materialDensity;
   }
 
-  private calculateWallVolume(geometry: any, settings: PrintSettings): number {
-    // Calculate wall volume based on perimeter and layer height
-    const perimeter = 2 * (geometry.dimensions.width + geometry.dimensions.depth); // cm
-    const height = geometry.dimensions.height; // cm
+  private calculateWallVolume(geometry: MeshGeometry, settings: PrintSettings): number {
+    // Calculate wall volume based on the footprint perimeter and build height (Z)
+    const perimeter = 2 * (geometry.dimensions.width + geometry.dimensions.height); // cm
+    const height = geometry.dimensions.depth; // cm
     const wallThickness = settings.wallThickness / 10; // Convert mm to cm
     
     return perimeter * height * wallThickness;
   }
 
-  private calculateSupportVolume(geometry: any, settings: PrintSettings): number {
-    // Estimate support volume (simplified)
-    const baseArea = geometry.dimensions.width * geometry.dimensions.depth;
-    const supportHeight = geometry.dimensions.height * 0.3; // Assume 30% of height needs support
+  private calculateSupportVolume(geometry: MeshGeometry, settings: PrintSettings): number {
+    // Support columns under the detected overhangs, printed at the support density
     const supportDensity = settings.supportDensity / 100;
     
-    return baseArea * supportHeight * supportDensity;
+    return geometry.support.supportVolume * supportDensity;
   }
 
-  private calculateBrimVolume(geometry: any, settings: PrintSettings): number {
+  private calculateBrimVolume(geometry: MeshGeometry, settings: PrintSettings): number {
     // Calculate brim/raft volume
-    const baseArea = geometry.dimensions.width * geometry.dimensions.depth;
     const brimWidth = 5; // 5mm brim width
     const brimHeight = settings.layerHeight / 10; // Convert mm to cm
     
     // Brim extends around the perimeter
-    const perimeter = 2 * (geometry.dimensions.width + geometry.dimensions.depth);
+    const perimeter = 2 * (geometry.dimensions.width + geometry.dimensions.height);
     const brimArea = perimeter * (brimWidth / 10); // Convert mm to cm
     
     return brimArea * brimHeight;
   }
 
-  private estimatePrintTime(geometry: any, settings: PrintSettings): number {
-    // Estimate print time based on geometry and settings
-    const volume = geometry.volume; // cm³
-    const surfaceArea = geometry.surfaceArea; // cm²
+  private estimatePrintTime(geometry: MeshGeometry, settings: PrintSettings, supportRequired: boolean): number {
+    // Coarse bounding-box estimate used to rank orientations; the quoted time
+    // comes from slicing the chosen orientation (estimateLayerTimes)
     const dimensions = geometry.dimensions;
     
-    // Calculate layer count
-    const layerCount = Math.ceil(dimensions.height * 10 / settings.layerHeight);
+    // Calculate layer count (Z is the build direction)
+    const layerCount = Math.ceil(dimensions.depth * 10 / settings.layerHeight);
     
     // Get print speeds based on quality and material
     const speeds = this.getPrintSpeeds(settings);
     
     // Calculate perimeter time (outer walls)
-    const perimeterLength = 2 * (dimensions.width + dimensions.depth) * 10; // Convert to mm
+    const perimeterLength = 2 * (dimensions.width + dimensions.height) * 10; // Convert to mm
     const perimeterTime = (perimeterLength * layerCount) / speeds.perimeter;
     
     // Calculate infill time
-    const infillArea = dimensions.width * dimensions.depth * 100; // Convert to mm²
+    const infillArea = dimensions.width * dimensions.height * 100; // Convert to mm²
     const infillTime = (infillArea * layerCount * settings.infillPercentage / 100) / speeds.infill;
     
-    // Calculate support time
-    const supportTime = settings.supportRequired ? 
-      (infillArea * layerCount * 0.3) / speeds.support : 0;
+    // Calculate support time from the extrusion path needed to fill the support volume
+    const supportPathLength = supportRequired ?
+      (this.calculateSupportVolume(geometry, settings) * 1000) / (this.PRINTER_SPECS.nozzleDiameter * settings.layerHeight) : 0; // mm
+    const supportTime = supportPathLength / speeds.support;
     
     // Calculate brim time
-    const brimLength = 2 * (dimensions.width + dimensions.depth) * 10; // Convert to mm
+    const brimLength = 2 * (dimensions.width + dimensions.height) * 10; // Convert to mm
     const brimTime = (brimLength * 5) / speeds.perimeter; // 5 lines of brim
     
     // Calculate layer change time
@@ -370,6 +539,91 @@ class STLAnalysisService {
     return totalTimeSeconds / 3600; // Convert to hours
   }
 
+  private estimateLayerTimes(layers: LayerSlice[], settings: PrintSettings, supportRequired: boolean): PrintTimeEstimate {
+    const speeds = this.getPrintSpeeds(settings);
+    const { acceleration, travelAcceleration, travelSpeed, layerChangeTime, minLayerTime } = this.PRINTER_SPECS;
+    const lineWidth = this.PRINTER_SPECS.nozzleDiameter; // mm
+    const wallLoops = Math.max(1, Math.round(settings.wallThickness / lineWidth));
+    const skinLayers = Math.max(1, Math.ceil(settings.wallThickness / settings.layerHeight));
+
+    const breakdown = { perimeter: 0, infill: 0, skin: 0, support: 0, travel: 0, layerChange: 0, cooling: 0 };
+    const times: number[] = [];
+
+    layers.forEach((layer, index) => {
+      // Area inside the wall loops is split into solid skin where the layer is
+      // exposed to air within skinLayers above or below, and sparse infill elsewhere
+      const innerArea = Math.max(0, layer.area - layer.perimeterLength * wallLoops * lineWidth);
+      let exposedArea = 0;
+      for (let offset = -skinLayers; offset <= skinLayers; offset++) {
+        const neighbour = layers[index + offset];
+        if (offset !== 0) {
+          exposedArea = Math.max(exposedArea, layer.area - (neighbour ? neighbour.area : 0));
+        }
+      }
+      const skinArea = Math.min(innerArea, exposedArea);
+      const sparseArea = innerArea - skinArea;
+
+      // Walls follow the contour; blended corners are at least MIN_CORNER_SPACING apart
+      const moves = Math.max(1, Math.min(layer.segmentCount, layer.perimeterLength / this.MIN_CORNER_SPACING));
+      const perimeter = wallLoops * moves * this.moveTime(layer.perimeterLength / moves, speeds.perimeter, acceleration);
+
+      const infill = this.fillTime(sparseArea * settings.infillPercentage / 100, lineWidth, speeds.infill, acceleration);
+      const skin = this.fillTime(skinArea, lineWidth, speeds.perimeter, acceleration);
+      const support = supportRequired
+        ? this.fillTime(layer.supportArea * settings.supportDensity / 100, lineWidth, speeds.support, acceleration)
+        : 0;
+
+      // One crossing of the layer between walls, infill and support, plus the trip back
+      const bounds = layer.bounds;
+      const travel = bounds
+        ? 2 * this.moveTime((bounds.maxX - bounds.minX) + (bounds.maxY - bounds.minY), travelSpeed, travelAcceleration)
+        : 0;
+
+      const printing = perimeter + infill + skin + support + travel + layerChangeTime;
+      const cooling = Math.max(0, minLayerTime - printing);
+
+      breakdown.perimeter += perimeter;
+      breakdown.infill += infill;
+      breakdown.skin += skin;
+      breakdown.support += support;
+      breakdown.travel += travel;
+      breakdown.layerChange += layerChangeTime;
+      breakdown.cooling += cooling;
+      times.push(printing + cooling);
+    });
+
+    return {
+      layerHeight: settings.layerHeight,
+      layerCount: layers.length,
+      totalTime: times.reduce((sum, time) => sum + time, 0),
+      breakdown,
+      layers: times,
+    };
+  }
+
+  // Trapezoidal velocity profile: accelerate, cruise, decelerate. Short moves
+  // never reach full speed and become a triangle profile.
+  private moveTime(length: number, speed: number, acceleration: number): number {
+    if (length <= 0) {
+      return 0;
+    }
+    const rampLength = (speed * speed) / acceleration; // accelerating plus decelerating
+    return length >= rampLength
+      ? length / speed + speed / acceleration
+      : 2 * Math.sqrt(length / acceleration);
+  }
+
+  // Zig-zag fill of an area: lines one width apart, each roughly as long as the region is wide
+  private fillTime(area: number, lineWidth: number, speed: number, acceleration: number): number {
+    if (area <= 0) {
+      return 0;
+    }
+    const pathLength = area / lineWidth;
+    const lineLength = Math.max(lineWidth, Math.sqrt(area));
+    const lines = pathLength / lineLength;
+    return lines * this.moveTime(lineLength, speed, acceleration);
+  }
+
   private getPrintSpeeds(settings: PrintSettings): { perimeter: number; infill: number; support: number } {
     const baseSpeed = this.PRINTER_SPECS.averagePrintSpeed;
     
@@ -413,14 +667,11 @@ class STLAnalysisService {
     };
   }
 
-  private calculatePrintabilityScore(geometry: any): number {
+  private calculatePrintabilityScore(geometry: MeshGeometry, fitsBuildVolume: boolean): number {
     let score = 100;
     
-    // Check if model fits in build volume
-    const buildVolume = this.PRINTER_SPECS.buildVolume;
-    if (geometry.dimensions.width > buildVolume.x / 10 || 
-        geometry.dimensions.height > buildVolume.y / 10 || 
-        geometry.dimensions.depth > buildVolume.z / 10) {
+    // Check if model fits in any printer's build volume
+    if (!fitsBuildVolume) {
       score -= 50; // Major penalty for oversized model
     }
     
@@ -431,30 +682,38 @@ class STLAnalysisService {
     }
     
     // Check for very large overhangs
-    const aspectRatio = geometry.dimensions.height / Math.max(geometry.dimensions.width, geometry.dimensions.depth);
+    const aspectRatio = geometry.dimensions.depth / Math.max(geometry.dimensions.width, geometry.dimensions.height);
     if (aspectRatio > 3) {
       score -= 15; // Tall, thin models are harder to print
     }
+
+    // Broken meshes slice unpredictably, so the geometry behind the quote is unreliable
+    const meshHealth = geometry.meshHealth;
+    if (meshHealth && !meshHealth.isWatertight) {
+      score -= 30;
+    }
+    if (meshHealth && (meshHealth.flippedNormals > 0 || meshHealth.isInsideOut)) {
+      score -= 10;
+    }
+    if (meshHealth?.selfIntersections) {
+      score -= 10;
+    }
     
     return Math.max(0, score);
   }
 
-  private requiresSupport(geometry: any, settings: PrintSettings): boolean {
-    // Simple support detection based on overhangs
-    const aspectRatio = geometry.dimensions.height / Math.max(geometry.dimensions.width, geometry.dimensions.depth);
-    
-    // If model is very tall relative to its base, it likely needs support
-    if (aspectRatio > 2) {
-      return true;
-    }
-    
-    // Check for overhangs (simplified)
-    const maxOverhangAngle = 45; // degrees
-    const layerHeight = settings.layerHeight;
-    const maxOverhangDistance = layerHeight / Math.tan(maxOverhangAngle * Math.PI / 180);
-    
-    // This is a simplified check - real implementation would analyze the actual geometry
-    return geometry.dimensions.width > maxOverhangDistance * 2;
+  private requiresSupport(geometry: MeshGeometry): boolean {
+    // Support is needed when faces overhang beyond the material's angle
+    return geometry.support.overhangArea > this.MIN_SUPPORTED_OVERHANG_AREA;
+  }
+
+  // Per-layer times rounded to 0.1 s keep the stored JSON small for tall models
+  toStoredPrintTime(estimate: PrintTimeEstimate) {
+    return {
+      ...estimate,
+      breakdown: { ...estimate.breakdown },
+      layers: estimate.layers.map(time => Math.round(time * 10) / 10),
+    };
   }
 
   async updateSTLFileAnalysis(stlFileId: string, analysis: STLAnalysis): Promise<void> {
@@ -467,9 +726,21 @@ class STLAnalysisService {
           surfaceArea: analysis.surfaceArea,
           boundingBox: JSON.stringify(analysis.boundingBox),
           estimatedPrintTime: analysis.estimatedPrintTime,
+          layerCount: analysis.layerCount,
           materialUsage: analysis.materialUsage,
           supportRequired: analysis.supportRequired,
           printabilityScore: analysis.printabilityScore,
+          isAnalyzed: true,
+          analysisData: {
+            meshHealth: analysis.meshHealth && { ...analysis.meshHealth },
+            support: { ...analysis.support },
+            orientation: {
+              id: analysis.orientation.id,
+              rotation: analysis.orientation.rotation,
+              selectedBy: analysis.orientation.selectedBy,
+            },
+            printTime: this.toStoredPrintTime(analysis.printTimeEstimate),
+          },
         },
       });
     } catch (error) {
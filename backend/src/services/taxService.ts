@@ -0,0 +1,145 @@
+import { Organization, PrismaClient, VatRule } from '@prisma/client';
+
+const prisma = new PrismaClient();
+
+interface VatDetermination {
+  rate: number; // percentage
+  rule: VatRule;
+  country: string; // ISO code the rate belongs to
+  vatNumber: string | null; // set when the reverse charge applies
+}
+
+interface ViesResponse {
+  isValid: boolean;
+  userError?: string;
+  name?: string;
+}
+
+// Standard VAT rates of the EU member states (as of August 2025). Orders keep the rate
+// they were charged, so changing a rate here does not affect existing orders.
+const EU_VAT_RATES: Record<string, number> = {
+  AT: 20, BE: 21, BG: 20, CY: 19, CZ: 21, DE: 19, DK: 25, EE: 24, ES: 21,
+  FI: 25.5, FR: 20, GR: 24, HR: 25, HU: 27, IE: 23, IT: 22, LT: 21, LU: 17,
+  LV: 21, MT: 18, NL: 21, PL: 23, PT: 23, RO: 21, SE: 25, SI: 22, SK: 23,
+};
+
+// Address.country is free text; these are the spellings we recognise for EU countries
+const EU_COUNTRY_NAMES: Record<string, string> = {
+  AUSTRIA: 'AT', ÖSTERREICH: 'AT', BELGIUM: 'BE', BELGIQUE: 'BE', BELGIË: 'BE', BULGARIA: 'BG',
+  CYPRUS: 'CY', CZECHIA: 'CZ', 'CZECH REPUBLIC': 'CZ', GERMANY: 'DE', DEUTSCHLAND: 'DE', TYSKLAND: 'DE',
+  DENMARK: 'DK', DANMARK: 'DK', ESTONIA: 'EE', SPAIN: 'ES', ESPAÑA: 'ES', FINLAND: 'FI', SUOMI: 'FI',
+  FRANCE: 'FR', FRANKRIG: 'FR', GREECE: 'GR', CROATIA: 'HR', HRVATSKA: 'HR', HUNGARY: 'HU', IRELAND: 'IE',
+  ITALY: 'IT', ITALIA: 'IT', LITHUANIA: 'LT', LUXEMBOURG: 'LU', LATVIA: 'LV', MALTA: 'MT',
+  NETHERLANDS: 'NL', 'THE NETHERLANDS': 'NL', NEDERLAND: 'NL', HOLLAND: 'NL', POLAND: 'PL', POLSKA: 'PL',
+  PORTUGAL: 'PT', ROMANIA: 'RO', SWEDEN: 'SE', SVERIGE: 'SE', SLOVENIA: 'SI', SLOVAKIA: 'SK',
+};
+
+// ISO 3166-1 alpha-2 codes of all officially assigned countries and territories
+const ISO_COUNTRY_CODES = new Set(
+  ('AD AE AF AG AI AL AM AO AQ AR AS AT AU AW AX AZ BA BB BD BE BF BG BH BI BJ BL BM BN BO BQ BR BS ' +
+    'BT BV BW BY BZ CA CC CD CF CG CH CI CK CL CM CN CO CR CU CV CW CX CY CZ DE DJ DK DM DO DZ EC EE ' +
+    'EG EH ER ES ET FI FJ FK FM FO FR GA GB GD GE GF GG GH GI GL GM GN GP GQ GR GS GT GU GW GY HK HM ' +
+    'HN HR HT HU ID IE IL IM IN IO IQ IR IS IT JE JM JO JP KE KG KH KI KM KN KP KR KW KY KZ LA LB LC ' +
+    'LI LK LR LS LT LU LV LY MA MC MD ME MF MG MH MK ML MM MN MO MP MQ MR MS MT MU MV MW MX MY MZ NA ' +
+    'NC NE NF NG NI NL NO NP NR NU NZ OM PA PE PF PG PH PK PL PM PN PR PS PT PW PY QA RE RO RS RU RW ' +
+    'SA SB SC SD SE SG SH SI SJ SK SL SM SN SO SR SS ST SV SX SY SZ TC TD TF TG TH TJ TK TL TM TN TO ' +
+    'TR TT TV TW TZ UA UG UM US UY UZ VA VC VE VG VI VN VU WF WS YE YT ZA ZM ZW').split(' ')
+);
+
+// VAT numbers use EL for Greece where addresses use GR
+const VAT_PREFIX_COUNTRY: Record<string, string> = { EL: 'GR' };
+
+class TaxService {
+  private readonly sellerCountry = (process.env.COMPANY_COUNTRY || 'DK').toUpperCase();
+  private readonly viesApiUrl = process.env.VIES_API_URL || 'https://ec.europa.eu/taxation_customs/vies/rest-api';
+
+  // ISO code for a country as typed in an address, or null when it is not recognised
+  toCountryCode(country: string | null | undefined): string | null {
+    if (!country) {
+      return null;
+    }
+    const normalized = country.trim().toUpperCase();
+    if (/^[A-Z]{2}$/.test(normalized)) {
+      const code = VAT_PREFIX_COUNTRY[normalized] || normalized;
+      return ISO_COUNTRY_CODES.has(code) ? code : null;
+    }
+    return EU_COUNTRY_NAMES[normalized] || null;
+  }
+
+  isEuCountry(countryCode: string): boolean {
+    return countryCode in EU_VAT_RATES;
+  }
+
+  // Choose rate and rule for an order from where it ships and who buys it. Without a
+  // shipping address the goods are collected, so the seller's country applies.
+  // Returns null for a country we do not recognise.
+  determineVat(shippingCountry: string | null | undefined, organization: Organization | null): VatDetermination | null {
+    const country = shippingCountry ? this.toCountryCode(shippingCountry) : this.sellerCountry;
+    if (!country) {
+      return null;
+    }
+
+    if (country === this.sellerCountry) {
+      return { rate: EU_VAT_RATES[country] ?? 0, rule: 'DOMESTIC', country, vatNumber: null };
+    }
+    if (!this.isEuCountry(country)) {
+      return { rate: 0, rule: 'EXPORT', country, vatNumber: null };
+    }
+
+    const vatNumber = organization?.vatNumber ? this.normalizeVatNumber(organization.vatNumber) : null;
+    if (vatNumber && organization?.vatNumberValidatedAt && this.vatNumberCountry(vatNumber) !== this.sellerCountry) {
+      return { rate: 0, rule: 'REVERSE_CHARGE', country, vatNumber };
+    }
+    return { rate: EU_VAT_RATES[country], rule: 'EU_DISTANCE_SALE', country, vatNumber: null };
+  }
+
+  // Check the organization's VAT number in VIES and record the outcome. Returns
+  // whether the number is valid; a VIES outage throws and leaves the record as it was.
+  async validateOrganizationVat(organizationId: string): Promise<boolean> {
+    try {
+      const organization = await prisma.organization.findUniqueOrThrow({ where: { id: organizationId } });
+      const vatNumber = organization.vatNumber ? this.normalizeVatNumber(organization.vatNumber) : null;
+      const valid = vatNumber ? await this.checkVies(vatNumber) : false;
+
+      await prisma.organization.update({
+        where: { id: organizationId },
+        data: { vatNumberValidatedAt: valid ? new Date() : null },
+      });
+      return valid;
+    } catch (error) {
+      console.error('Error validating VAT number:', error);
+      throw error;
+    }
+  }
+
+  normalizeVatNumber(vatNumber: string): string {
+    return vatNumber.replace(/[\s.-]/g, '').toUpperCase();
+  }
+
+  private vatNumberCountry(vatNumber: string): string {
+    const prefix = vatNumber.slice(0, 2);
+    return VAT_PREFIX_COUNTRY[prefix] || prefix;
+  }
+
+  private async checkVies(vatNumber: string): Promise<boolean> {
+    const match = vatNumber.match(/^([A-Z]{2})([0-9A-Z+*]{2,12})$/);
+    if (!match) {
+      return false;
+    }
+
+    const response = await fetch(`${this.viesApiUrl}/ms/${match[1]}/vat/${match[2]}`, {
+      headers: { 'Accept': 'application/json' },
+    });
+    if (!response.ok) {
+      throw new Error(`VIES request failed with status ${response.status}`);
+    }
+
+    const data = (await response.json()) as ViesResponse;
+    if (!data.isValid && data.userError && data.userError !== 'INVALID') {
+      throw new Error(`VIES could not check the number: ${data.userError}`); // e.g. MS_UNAVAILABLE
+    }
+    return data.isValid;
+  }
+}
+
+export default new TaxService();
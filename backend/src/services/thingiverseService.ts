@@ -1,4 +1,6 @@
 import axios from 'axios';
+import * as fs from 'fs';
+import * as path from 'path';
 import { PrismaClient } from '@prisma/client';
 
 const prisma = new PrismaClient();
@@ -129,7 +131,7 @@ class ThingiverseService {
     }
   }
 
-  async downloadSTLFile(fileUrl: string, filename: string): Promise<Buffer> {
+  async downloadSTLFile(fileUrl: string): Promise<Buffer> {
     try {
       const response = await axios.get(fileUrl, {
         responseType: 'arraybuffer',
@@ -166,15 +168,13 @@ class ThingiverseService {
       const selectedFile = stlFiles[selectedFileIndex] || stlFiles[0];
       
       // Download the STL file
-      const fileBuffer = await this.downloadSTLFile(selectedFile.url, selectedFile.name);
+      const fileBuffer = await this.downloadSTLFile(selectedFile.url);
       
       // Save to local storage
       const filename = `thingiverse_${modelId}_${selectedFile.name}`;
       const filePath = `uploads/thingiverse/${filename}`;
       
       // Create directory if it doesn't exist
-      const fs = require('fs');
-      const path = require('path');
       const uploadDir = path.dirname(filePath);
       if (!fs.existsSync(uploadDir)) {
         fs.mkdirSync(uploadDir, { recursive: true });
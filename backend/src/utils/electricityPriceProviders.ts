@@ -0,0 +1,256 @@
+import * as fs from 'fs';
+import * as path from 'path';
+
+// Sources of hourly day-ahead spot prices. Every provider answers for one local
+// delivery day and one bidding area and returns prices per kWh; the exchanges
+// publish per MWh, so that conversion happens here. Tariffs, taxes and storage
+// are left to the electricity price service.
+
+export interface SpotPrice {
+  start: Date; // beginning of the hour
+  price: number; // per kWh, in the requested currency
+}
+
+export interface ElectricityPriceProvider {
+  readonly name: string;
+  // Empty when the day's prices are not published yet
+  getDayAheadPrices(day: Date, area: string, currency: string): Promise<SpotPrice[]>;
+}
+
+const HOUR = 60 * 60 * 1000; // ms
+
+// A provider that does not answer in time counts as down, so a quote waits no longer
+const REQUEST_TIMEOUT_MS = parseInt(process.env.ELECTRICITY_PRICE_TIMEOUT_MS || '10000');
+
+const formatDate = (day: Date): string =>
+  `${day.getFullYear()}-${String(day.getMonth() + 1).padStart(2, '0')}-${String(day.getDate()).padStart(2, '0')}`;
+
+const nextDay = (day: Date): Date => new Date(day.getFullYear(), day.getMonth(), day.getDate() + 1);
+
+// Several 15-minute prices per hour since the day-ahead market moved to quarter-hour
+// products; the rest of the pricing works per hour, so they are averaged
+const toHourlyPrices = (prices: SpotPrice[]): SpotPrice[] => {
+  const hours = new Map<number, number[]>();
+  for (const price of prices) {
+    const hour = Math.floor(price.start.getTime() / HOUR) * HOUR;
+    hours.set(hour, [...(hours.get(hour) || []), price.price]);
+  }
+  return Array.from(hours.entries())
+    .sort(([a], [b]) => a - b)
+    .map(([hour, values]) => ({ start: new Date(hour), price: values.reduce((sum, value) => sum + value, 0) / values.length }));
+};
+
+// One row per delivery hour, one column per bidding area; values are per MWh
+interface NordpoolResponse {
+  data: {
+    Rows: Array<{
+      Name: string;
+      StartTime: string;
+      IsExtraRow?: boolean;
+      Columns: Array<{
+        Name: string;
+        Value: string;
+      }>;
+    }>;
+  };
+}
+
+export class NordpoolProvider implements ElectricityPriceProvider {
+  readonly name = 'nordpool';
+
+  constructor(private readonly apiUrl: string, private readonly apiKey: string = '') {}
+
+  async getDayAheadPrices(day: Date, area: string, currency: string): Promise<SpotPrice[]> {
+    const url = new URL(`${this.apiUrl}/marketdata/price`);
+    url.search = new URLSearchParams({ currency, area, date: formatDate(day), format: 'json' }).toString();
+
+    const response = await fetch(url, {
+      headers: {
+        'Accept': 'application/json',
+        ...(this.apiKey && { 'Authorization': `Bearer ${this.apiKey}` }),
+      },
+      signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+    });
+    if (!response.ok) {
+      throw new Error(`Nordpool request failed with status ${response.status}`);
+    }
+
+    const data = (await response.json()) as NordpoolResponse;
+    const prices: SpotPrice[] = [];
+    let previous: Date | null = null;
+
+    for (const row of data.data.Rows) {
+      if (row.IsExtraRow || !row.StartTime) continue; // min/max/average summary rows
+
+      const column = row.Columns.find(column => column.Name === area);
+      if (!column || !column.Value || column.Value === '-') continue;
+
+      const price = parseFloat(column.Value.replace(/\s/g, '').replace(',', '.'));
+      if (isNaN(price)) continue;
+
+      // StartTime is local delivery time without an offset. The hour repeated when DST
+      // ends parses as its first occurrence both times, so the repeat is moved an hour on.
+      let start = new Date(row.StartTime);
+      if (previous && start.getTime() <= previous.getTime()) {
+        start = new Date(start.getTime() + HOUR);
+      }
+      previous = start;
+      prices.push({ start, price: price / 1000 }); // per MWh → per kWh
+    }
+    return toHourlyPrices(prices);
+  }
+}
+
+// Energi Data Service (Energinet's open data API) publishes Danish and neighbouring
+// areas in DKK and EUR, without an API key
+interface EnergiDataServiceResponse {
+  records: Array<{
+    TimeUTC?: string; // DayAheadPrices dataset, 15-minute resolution
+    HourUTC?: string; // older Elspotprices dataset, hourly
+    PriceArea: string;
+    [price: string]: string | number | null | undefined; // DayAheadPriceDKK, SpotPriceEUR, ...
+  }>;
+}
+
+export class EnergiDataServiceProvider implements ElectricityPriceProvider {
+  readonly name = 'energidataservice';
+
+  constructor(private readonly apiUrl: string, private readonly dataset: string = 'DayAheadPrices') {}
+
+  async getDayAheadPrices(day: Date, area: string, currency: string): Promise<SpotPrice[]> {
+    if (!['DKK', 'EUR'].includes(currency)) {
+      throw new Error(`Energi Data Service has no prices in ${currency}`);
+    }
+
+    // Ask for a day either side and keep the local day, so the API's own time zone handling does not matter
+    const from = new Date(day.getTime() - 24 * HOUR);
+    const to = nextDay(nextDay(day));
+    const url = new URL(`${this.apiUrl}/dataset/${this.dataset}`);
+    url.search = new URLSearchParams({
+      start: formatDate(from),
+      end: formatDate(to),
+      filter: JSON.stringify({ PriceArea: [area] }),
+      sort: 'TimeUTC asc',
+      limit: '0',
+    }).toString();
+
+    const response = await fetch(url, {
+      headers: { 'Accept': 'application/json' },
+      signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+    });
+    if (!response.ok) {
+      throw new Error(`Energi Data Service request failed with status ${response.status}`);
+    }
+
+    const data = (await response.json()) as EnergiDataServiceResponse;
+    const end = nextDay(day).getTime();
+    const prices: SpotPrice[] = [];
+
+    for (const record of data.records) {
+      const time = record.TimeUTC || record.HourUTC;
+      const price = record[`DayAheadPrice${currency}`] ?? record[`SpotPrice${currency}`];
+      if (!time || typeof price !== 'number') continue;
+
+      const start = new Date(`${time}Z`); // UTC without an offset
+      if (start.getTime() < day.getTime() || start.getTime() >= end) continue;
+
+      prices.push({ start, price: price / 1000 }); // per MWh → per kWh
+    }
+    return toHourlyPrices(prices);
+  }
+}
+
+// Replays recorded curves from `<directory>/<area>.csv` (header `start,price`) or
+// `<area>.json` (array of { start, price }), prices per MWh. A day that was recorded
+// is returned as is; any other day gets one of the recorded days, chosen by date,
+// so the same request always gets the same prices.
+export class FixturePriceProvider implements ElectricityPriceProvider {
+  readonly name = 'fixture';
+  private readonly curves = new Map<string, Map<string, SpotPrice[]>>(); // area → local date → prices
+
+  constructor(private readonly directory: string) {}
+
+  async getDayAheadPrices(day: Date, area: string): Promise<SpotPrice[]> {
+    const days = await this.loadArea(area);
+    const recorded = Array.from(days.keys()).sort();
+    if (recorded.length === 0) {
+      return [];
+    }
+
+    const exact = days.get(formatDate(day));
+    if (exact) {
+      return exact;
+    }
+
+    // Hour by hour from midnight, so a recorded day fits a 23 or 25-hour day too
+    const dayNumber = Math.floor(Date.UTC(day.getFullYear(), day.getMonth(), day.getDate()) / (24 * HOUR));
+    const source = days.get(recorded[dayNumber % recorded.length])!;
+    const hours = Math.round((nextDay(day).getTime() - day.getTime()) / HOUR);
+    return Array.from({ length: hours }, (_, hour) => ({
+      start: new Date(day.getTime() + hour * HOUR),
+      price: source[Math.min(hour, source.length - 1)].price,
+    }));
+  }
+
+  private async loadArea(area: string): Promise<Map<string, SpotPrice[]>> {
+    const cached = this.curves.get(area);
+    if (cached) {
+      return cached;
+    }
+
+    const records = await this.readRecords(area);
+    const days = new Map<string, SpotPrice[]>();
+    for (const price of toHourlyPrices(records)) {
+      const date = formatDate(price.start);
+      days.set(date, [...(days.get(date) || []), price]);
+    }
+
+    this.curves.set(area, days);
+    return days;
+  }
+
+  private async readRecords(area: string): Promise<SpotPrice[]> {
+    const jsonPath = path.join(this.directory, `${area}.json`);
+    const csvPath = path.join(this.directory, `${area}.csv`);
+
+    if (fs.existsSync(jsonPath)) {
+      const rows: Array<{ start: string; price: number }> = JSON.parse(await fs.promises.readFile(jsonPath, 'utf8'));
+      return rows.map(row => ({ start: new Date(row.start), price: row.price / 1000 }));
+    }
+
+    if (fs.existsSync(csvPath)) {
+      const [header, ...lines] = (await fs.promises.readFile(csvPath, 'utf8')).split(/\r?\n/).filter(line => line.trim());
+      const columns = header.split(',').map(column => column.trim().toLowerCase());
+      const startColumn = columns.indexOf('start');
+      const priceColumn = columns.indexOf('price');
+      if (startColumn < 0 || priceColumn < 0) {
+        throw new Error(`${csvPath} needs start and price columns`);
+      }
+      return lines.map(line => {
+        const values = line.split(',');
+        return { start: new Date(values[startColumn].trim()), price: parseFloat(values[priceColumn]) / 1000 };
+      });
+    }
+
+    console.warn(`No electricity price fixture for ${area} in ${this.directory}`);
+    return [];
+  }
+}
+
+export function createPriceProvider(name: string = process.env.ELECTRICITY_PRICE_PROVIDER || 'nordpool'): ElectricityPriceProvider {
+  switch (name) {
+    case 'nordpool':
+      return new NordpoolProvider(
+        process.env.NORDPOOL_API_URL || 'https://api.nordpoolgroup.com/v1',
+        process.env.NORDPOOL_API_KEY || ''
+      );
+    case 'energidataservice':
+      return new EnergiDataServiceProvider(process.env.ENERGI_DATA_SERVICE_URL || 'https://api.energidataservice.dk');
+    case 'fixture':
+      return new FixturePriceProvider(
+        path.resolve(process.env.ELECTRICITY_PRICE_FIXTURES || path.join(__dirname, '../../fixtures/electricity-prices'))
+      );
+    default:
+      throw new Error(`Unknown electricity price provider: ${name}`);
+  }
+}
@@ -0,0 +1,226 @@
+import * as fs from 'fs';
+import { ZipArchive, isZipArchive } from './zipArchive';
+
+// Reads the estimates slicers write as comments into G-code. Bambu Studio,
+// OrcaSlicer and PrusaSlicer emit "; key = value" config blocks at the head or
+// tail of the file, Bambu adds "; key: value" header lines and Cura writes
+// ";KEY:value". Only the start and end of the file are scanned, so the move
+// commands of a 50 MB print are never parsed.
+
+export interface GcodeMetadata {
+  slicer: string | null; // e.g. "PrusaSlicer 2.6.1"
+  printTime: number | null; // seconds
+  filamentGrams: number[]; // per extruder
+  filamentTypes: string[]; // per extruder, e.g. PLA
+  layerHeight: number | null; // mm
+  nozzleDiameters: number[]; // mm, per extruder
+  layerCount: number | null;
+  plateCount: number; // plates in a .gcode.3mf project, 1 for plain G-code
+}
+
+const SCAN_SIZE = 256 * 1024; // bytes read from each end of a G-code file
+const DEFAULT_FILAMENT_DIAMETER = 1.75; // mm
+const DEFAULT_FILAMENT_DENSITY = 1.24; // g/cm³, PLA
+
+// Bambu packs several files into a .gcode.3mf; each plate is its own print
+const PLATE_GCODE = /^metadata\/plate_\d+\.gcode$/;
+
+export const isGcodeFileName = (fileName: string): boolean => /\.gcode(\.3mf)?$/i.test(fileName);
+
+// "1d 2h 3m 4s", "2h 5m" or plain seconds
+const parseDuration = (value: string): number | null => {
+  if (/^\d+(\.\d+)?$/.test(value.trim())) {
+    return parseFloat(value);
+  }
+  const units: { [unit: string]: number } = { d: 86400, h: 3600, m: 60, s: 1 };
+  let seconds = 0;
+  let matched = false;
+  for (const [, amount, unit] of value.matchAll(/(\d+(?:\.\d+)?)\s*([dhms])/gi)) {
+    seconds += parseFloat(amount) * units[unit.toLowerCase()];
+    matched = true;
+  }
+  return matched ? seconds : null;
+};
+
+const parseList = (value: string | undefined): string[] =>
+  value ? value.split(/[;,]/).map(item => item.trim().replace(/^"|"$/g, '')).filter(Boolean) : [];
+
+const parseNumberList = (value: string | undefined): number[] =>
+  parseList(value).map(item => parseFloat(item)).filter(number => Number.isFinite(number));
+
+const parseNumber = (value: string | undefined): number | null => {
+  const number = value !== undefined ? parseFloat(value) : NaN;
+  return Number.isFinite(number) ? number : null;
+};
+
+const readComments = (text: string): { values: Map<string, string>; slicer: string | null } => {
+  const values = new Map<string, string>();
+  let slicer: string | null = null;
+
+  for (const rawLine of text.split('\n')) {
+    const line = rawLine.trim();
+    if (!line.startsWith(';')) continue;
+
+    const generator = line.match(/generated (?:by|with)\s+(\S+(?:\s+[\d.]+)?)/i) || line.match(/^;\s*(BambuStudio\s+[\d.]+|OrcaSlicer\s+[\d.]+)/);
+    if (generator && !slicer) {
+      slicer = generator[1];
+    }
+
+    // "; key = value" keeps the whole value (lists are separated by ';' too)
+    const assignment = line.match(/^;\s*([^=:]+?)\s*=\s*(.*)$/);
+    if (assignment) {
+      values.set(assignment[1].toLowerCase(), assignment[2].trim());
+      continue;
+    }
+
+    // "; key: value" and ";KEY:value", possibly several per line ("; a: 1h; b: 2h")
+    for (const part of line.split(/;\s*/)) {
+      const pair = part.match(/^([^:]+?)\s*:\s*(.+)$/);
+      if (pair) {
+        values.set(pair[1].toLowerCase(), pair[2].trim());
+      }
+    }
+  }
+  return { values, slicer };
+};
+
+export function parseGcodeMetadata(text: string): GcodeMetadata {
+  const { values, slicer } = readComments(text);
+  const get = (...keys: string[]) => keys.map(key => values.get(key)).find(value => value !== undefined);
+
+  const timeValue = get('total estimated time', 'estimated printing time (normal mode)', 'print.time', 'time');
+  const printTime = timeValue !== undefined ? parseDuration(timeValue) : null;
+
+  // Grams per extruder when the slicer reports them, otherwise weigh the filament length
+  let filamentGrams = parseNumberList(get('filament used [g]'));
+  if (filamentGrams.length === 0) {
+    const total = parseNumber(get('total filament weight [g]', 'total filament used [g]'));
+    if (total !== null) {
+      filamentGrams = [total];
+    }
+  }
+  if (filamentGrams.length === 0) {
+    const millimetres = parseNumberList(get('filament used [mm]'));
+    // Cura: ";Filament used: 1.23456m, 0m"
+    const lengths = millimetres.length > 0
+      ? millimetres
+      : parseNumberList(get('filament used')).map(metres => metres * 1000);
+    const diameters = parseNumberList(get('filament_diameter'));
+    const densities = parseNumberList(get('filament_density'));
+    filamentGrams = lengths.map((length, index) => {
+      const radius = (diameters[index] || DEFAULT_FILAMENT_DIAMETER) / 2; // mm
+      const volume = (Math.PI * radius * radius * length) / 1000; // cm³
+      return volume * (densities[index] || DEFAULT_FILAMENT_DENSITY);
+    });
+  }
+
+  const nozzleDiameters = parseNumberList(get('nozzle_diameter'));
+  const curaNozzle = parseNumber(get('extruder_train.0.nozzle.diameter'));
+  if (nozzleDiameters.length === 0 && curaNozzle !== null) {
+    nozzleDiameters.push(curaNozzle);
+  }
+
+  return {
+    slicer,
+    printTime,
+    filamentGrams,
+    filamentTypes: parseList(get('filament_type')).map(type => type.toUpperCase()),
+    layerHeight: parseNumber(get('layer_height', 'layer height')),
+    nozzleDiameters,
+    layerCount: parseNumber(get('total layer number', 'layer_count')),
+    plateCount: 1,
+  };
+}
+
+// Plates print one after another: times, grams and layers add up
+const combinePlates = (plates: GcodeMetadata[]): GcodeMetadata => {
+  const sum = (values: (number | null)[]) =>
+    values.every(value => value !== null) ? values.reduce((total: number, value) => total + value!, 0) : null;
+
+  const filamentGrams: number[] = [];
+  for (const plate of plates) {
+    plate.filamentGrams.forEach((grams, index) => {
+      filamentGrams[index] = (filamentGrams[index] || 0) + grams;
+    });
+  }
+
+  return {
+    slicer: plates[0].slicer,
+    printTime: sum(plates.map(plate => plate.printTime)),
+    filamentGrams,
+    filamentTypes: plates.find(plate => plate.filamentTypes.length > 0)?.filamentTypes || [],
+    layerHeight: plates[0].layerHeight,
+    nozzleDiameters: plates[0].nozzleDiameters,
+    layerCount: sum(plates.map(plate => plate.layerCount)),
+    plateCount: plates.length,
+  };
+};
+
+// Only the head and a rolling tail are kept while the plate inflates, so a large
+// (or maliciously compressed) plate never sits in memory whole
+const readEntryHeadAndTail = async (archive: ZipArchive, name: string): Promise<string> => {
+  let head = Buffer.alloc(0);
+  let tail = Buffer.alloc(0);
+  let size = 0;
+
+  for await (const data of archive.createReadStream(name)) {
+    let chunk = data as Buffer;
+    size += chunk.length;
+    if (head.length < SCAN_SIZE) {
+      const taken = Math.min(SCAN_SIZE - head.length, chunk.length);
+      head = Buffer.concat([head, chunk.subarray(0, taken)]);
+      chunk = chunk.subarray(taken);
+    }
+    if (chunk.length > 0) {
+      tail = Buffer.concat([tail, chunk]);
+      tail = tail.subarray(Math.max(0, tail.length - SCAN_SIZE));
+    }
+  }
+
+  return size <= SCAN_SIZE * 2
+    ? Buffer.concat([head, tail]).toString('utf8')
+    : `${head.toString('utf8')}\n${tail.toString('utf8')}`;
+};
+
+const readHeadAndTail = async (filePath: string): Promise<string> => {
+  const handle = await fs.promises.open(filePath, 'r');
+  try {
+    const { size } = await handle.stat();
+    if (size <= SCAN_SIZE * 2) {
+      return (await handle.readFile()).toString('utf8');
+    }
+
+    const head = Buffer.alloc(SCAN_SIZE);
+    const tail = Buffer.alloc(SCAN_SIZE);
+    await handle.read(head, 0, SCAN_SIZE, 0);
+    await handle.read(tail, 0, SCAN_SIZE, size - SCAN_SIZE);
+    return `${head.toString('utf8')}\n${tail.toString('utf8')}`;
+  } finally {
+    await handle.close();
+  }
+};
+
+export async function readGcodeMetadata(filePath: string): Promise<GcodeMetadata> {
+  const handle = await fs.promises.open(filePath, 'r');
+  const signature = Buffer.alloc(4);
+  try {
+    await handle.read(signature, 0, 4, 0);
+  } finally {
+    await handle.close();
+  }
+
+  if (!isZipArchive(signature)) {
+    return parseGcodeMetadata(await readHeadAndTail(filePath));
+  }
+
+  const archive = new ZipArchive(await fs.promises.readFile(filePath));
+  const plates = archive.fileNames.filter(name => PLATE_GCODE.test(name)).sort();
+  if (plates.length === 0) {
+    throw new Error('3MF project contains no sliced plates');
+  }
+  const metadata: GcodeMetadata[] = [];
+  for (const name of plates) {
+    metadata.push(parseGcodeMetadata(await readEntryHeadAndTail(archive, name)));
+  }
+  return combinePlates(metadata);
+}
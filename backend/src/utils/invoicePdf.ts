@@ -0,0 +1,139 @@
+import PDFDocument from 'pdfkit';
+
+// Layout of invoices and credit notes. Everything printed comes from the issued
+// document, so a PDF downloaded later is identical to the first one.
+
+export interface InvoiceParty {
+  name: string;
+  attention?: string | null; // person at a business customer
+  cvr?: string | null; // seller's CVR number
+  vatNumber?: string | null; // EU VAT number of the seller or a business customer
+  address: string[]; // printed line by line
+  email?: string | null;
+}
+
+export interface InvoiceLine {
+  description: string;
+  details?: string[]; // cost breakdown printed under the description
+  quantity: number;
+  unitPrice: number;
+  amount: number;
+}
+
+export interface InvoiceDocument {
+  type: 'INVOICE' | 'CREDIT_NOTE';
+  displayNumber: string;
+  issuedAt: Date;
+  orderNumber: string;
+  creditedInvoiceNumber?: string | null;
+  currency: string;
+  seller: InvoiceParty;
+  buyer: InvoiceParty;
+  lines: InvoiceLine[];
+  subtotal: number;
+  vatRate: number;
+  vatAmount: number;
+  total: number;
+  vatNote?: string | null; // reverse charge or export wording
+  note?: string | null;
+}
+
+const MARGIN = 50;
+const PAGE_WIDTH = 595.28; // A4
+const CONTENT_WIDTH = PAGE_WIDTH - MARGIN * 2;
+const COLUMNS = { description: MARGIN, quantity: 330, unitPrice: 380, amount: 470 };
+
+const formatAmount = (amount: number, currency: string): string =>
+  `${new Intl.NumberFormat('da-DK', { minimumFractionDigits: 2, maximumFractionDigits: 2 }).format(amount)} ${currency}`;
+
+const formatDate = (date: Date): string =>
+  new Intl.DateTimeFormat('da-DK', { day: '2-digit', month: '2-digit', year: 'numeric', timeZone: 'Europe/Copenhagen' }).format(date);
+
+const writeParty = (doc: PDFKit.PDFDocument, heading: string, party: InvoiceParty, x: number, y: number): number => {
+  doc.font('Helvetica-Bold').fontSize(9).text(heading, x, y);
+  doc.font('Helvetica').fontSize(10).text(party.name);
+  if (party.attention) doc.text(`Att.: ${party.attention}`);
+  party.address.forEach(line => doc.text(line));
+  if (party.cvr) doc.text(`CVR: ${party.cvr}`);
+  if (party.vatNumber) doc.text(`VAT no.: ${party.vatNumber}`);
+  if (party.email) doc.text(party.email);
+  return doc.y;
+};
+
+// Returns the finished document; pipe it to the response or a file
+export const createInvoicePdf = (invoice: InvoiceDocument): PDFKit.PDFDocument => {
+  const doc = new PDFDocument({ size: 'A4', margin: MARGIN, info: { Title: invoice.displayNumber } });
+  const title = invoice.type === 'CREDIT_NOTE' ? 'Kreditnota / Credit note' : 'Faktura / Invoice';
+
+  doc.font('Helvetica-Bold').fontSize(20).text(title, MARGIN, MARGIN);
+  doc.font('Helvetica').fontSize(10)
+    .text(`Number: ${invoice.displayNumber}`)
+    .text(`Date: ${formatDate(invoice.issuedAt)}`)
+    .text(`Order: ${invoice.orderNumber}`);
+  if (invoice.creditedInvoiceNumber) {
+    doc.text(`Credits invoice: ${invoice.creditedInvoiceNumber}`);
+  }
+
+  const partiesTop = doc.y + 20;
+  const sellerBottom = writeParty(doc, 'From', invoice.seller, MARGIN, partiesTop);
+  const buyerBottom = writeParty(doc, 'To', invoice.buyer, MARGIN + CONTENT_WIDTH / 2, partiesTop);
+
+  // Line items
+  let y = Math.max(sellerBottom, buyerBottom) + 30;
+  doc.font('Helvetica-Bold').fontSize(9);
+  doc.text('Description', COLUMNS.description, y);
+  doc.text('Qty', COLUMNS.quantity, y, { width: 40, align: 'right' });
+  doc.text('Unit price', COLUMNS.unitPrice, y, { width: 80, align: 'right' });
+  doc.text('Amount', COLUMNS.amount, y, { width: PAGE_WIDTH - MARGIN - COLUMNS.amount, align: 'right' });
+  y += 14;
+  doc.moveTo(MARGIN, y).lineTo(PAGE_WIDTH - MARGIN, y).stroke();
+  y += 6;
+
+  for (const line of invoice.lines) {
+    if (y > doc.page.height - 200) {
+      doc.addPage();
+      y = MARGIN;
+    }
+    doc.font('Helvetica').fontSize(10);
+    doc.text(line.description, COLUMNS.description, y, { width: COLUMNS.quantity - COLUMNS.description - 10 });
+    const descriptionBottom = doc.y;
+    doc.text(String(line.quantity), COLUMNS.quantity, y, { width: 40, align: 'right' });
+    doc.text(formatAmount(line.unitPrice, invoice.currency), COLUMNS.unitPrice, y, { width: 80, align: 'right' });
+    doc.text(formatAmount(line.amount, invoice.currency), COLUMNS.amount, y, { width: PAGE_WIDTH - MARGIN - COLUMNS.amount, align: 'right' });
+    y = descriptionBottom;
+    if (line.details?.length) {
+      doc.fontSize(8).fillColor('#666666');
+      line.details.forEach(detail => doc.text(detail, COLUMNS.description + 10, y = doc.y));
+      doc.fillColor('black');
+      y = doc.y;
+    }
+    y += 8;
+  }
+
+  // Totals with the VAT breakdown
+  doc.moveTo(COLUMNS.unitPrice, y).lineTo(PAGE_WIDTH - MARGIN, y).stroke();
+  y += 8;
+  const totals: [string, number][] = [
+    ['Subtotal excl. VAT', invoice.subtotal],
+    [`VAT ${invoice.vatRate}% of ${formatAmount(invoice.subtotal, invoice.currency)}`, invoice.vatAmount],
+  ];
+  doc.font('Helvetica').fontSize(10);
+  for (const [label, amount] of totals) {
+    doc.text(label, MARGIN, y, { width: COLUMNS.amount - MARGIN - 10, align: 'right' });
+    doc.text(formatAmount(amount, invoice.currency), COLUMNS.amount, y, { width: PAGE_WIDTH - MARGIN - COLUMNS.amount, align: 'right' });
+    y = doc.y + 4;
+  }
+  doc.font('Helvetica-Bold');
+  doc.text(invoice.type === 'CREDIT_NOTE' ? 'Total credited' : 'Total', MARGIN, y, { width: COLUMNS.amount - MARGIN - 10, align: 'right' });
+  doc.text(formatAmount(invoice.total, invoice.currency), COLUMNS.amount, y, { width: PAGE_WIDTH - MARGIN - COLUMNS.amount, align: 'right' });
+
+  let notesTop = doc.y + 30;
+  for (const note of [invoice.vatNote, invoice.note]) {
+    if (!note) continue;
+    doc.font('Helvetica').fontSize(9).text(note, MARGIN, notesTop, { width: CONTENT_WIDTH });
+    notesTop = doc.y + 6;
+  }
+
+  doc.end();
+  return doc;
+};
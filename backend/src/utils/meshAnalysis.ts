@@ -0,0 +1,105 @@
+import * as fs from 'fs';
+import { MeshFormat, TriangleMesh, parse3MF, parseOBJ } from './meshFormats';
+import { MeshStats, MeshStatsAccumulator } from './meshGeometry';
+import { MeshHealthChecker, MeshHealthReport } from './meshHealth';
+import { OrientationAccumulator, OrientationCandidate, OrientationResult } from './meshOrientation';
+import { LayerSlice, MeshSlicer, SliceOptions } from './meshSlicer';
+import { streamSTLTriangles } from './stlStream';
+
+// Geometry pipeline shared by the analysis worker. Everything works on
+// TriangleSources so an analysis can make several passes over a model: STL is
+// re-streamed from disk on every pass (constant memory), OBJ/3MF are parsed once
+// and kept in memory because their formats need random access anyway. The worker
+// opens the source once and reuses it for the analysis and the slicing pass.
+
+export type TriangleVisitor = (
+  positions: ArrayLike<number>,
+  offset: number,
+  normals?: ArrayLike<number>,
+  normalOffset?: number
+) => void;
+
+export interface TriangleSource {
+  forEachTriangle(visit: TriangleVisitor): Promise<number>;
+}
+
+export interface MeshAnalysisOptions {
+  overhangAngle: number; // degrees from vertical printable without support
+  orientations: OrientationCandidate[]; // print orientations to evaluate
+}
+
+export interface MeshAnalysisResult {
+  stats: MeshStats;
+  meshHealth: MeshHealthReport | null; // null when the mesh is too large to check topology
+  orientations: OrientationResult[]; // same order as the requested candidates
+}
+
+// Topology checks keep every vertex and edge in memory (roughly 250 bytes per
+// triangle, so about 75 MB at the default); past this size only the
+// constant-memory statistics are computed
+export const MESH_HEALTH_MAX_TRIANGLES = parseInt(process.env.MESH_HEALTH_MAX_TRIANGLES || '300000');
+
+class STLFileSource implements TriangleSource {
+  constructor(private readonly filePath: string) {}
+
+  forEachTriangle(visit: TriangleVisitor): Promise<number> {
+    return streamSTLTriangles(this.filePath, (positions, normal) => visit(positions, 0, normal, 0));
+  }
+}
+
+class InMemorySource implements TriangleSource {
+  constructor(private readonly mesh: TriangleMesh) {}
+
+  async forEachTriangle(visit: TriangleVisitor): Promise<number> {
+    const { positions, normals, triangleCount } = this.mesh;
+    for (let t = 0; t < triangleCount; t++) {
+      visit(positions, t * 9, normals, t * 3);
+    }
+    return triangleCount;
+  }
+}
+
+export async function openTriangleSource(filePath: string, format: MeshFormat): Promise<TriangleSource> {
+  switch (format) {
+    case 'obj':
+      return new InMemorySource(parseOBJ(await fs.promises.readFile(filePath)));
+    case '3mf':
+      return new InMemorySource(parse3MF(await fs.promises.readFile(filePath)));
+    default:
+      return new STLFileSource(filePath);
+  }
+}
+
+export async function analyzeMesh(source: TriangleSource, options: MeshAnalysisOptions): Promise<MeshAnalysisResult> {
+  // The health checker is dropped as soon as the mesh outgrows the limit, so
+  // huge scans still finish with the streaming statistics
+  const stats = new MeshStatsAccumulator();
+  const orientations = new OrientationAccumulator(options.orientations, options.overhangAngle);
+  let health: MeshHealthChecker | null = new MeshHealthChecker();
+  let triangleCount = 0;
+
+  await source.forEachTriangle((positions, offset, normals, normalOffset) => {
+    stats.addTriangle(positions, offset);
+    orientations.addTriangle(positions, offset);
+    if (health) {
+      if (++triangleCount > MESH_HEALTH_MAX_TRIANGLES) {
+        health = null;
+      } else {
+        health.addTriangle(positions, offset, normals, normalOffset);
+      }
+    }
+  });
+
+  return {
+    stats: stats.getStats(),
+    meshHealth: health ? health.getReport() : null,
+    orientations: orientations.getResults(),
+  };
+}
+
+export async function sliceMesh(source: TriangleSource, options: SliceOptions): Promise<LayerSlice[]> {
+  const slicer = new MeshSlicer(options);
+
+  await source.forEachTriangle((positions, offset) => slicer.addTriangle(positions, offset));
+  return slicer.getLayers();
+}
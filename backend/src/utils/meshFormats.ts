@@ -0,0 +1,359 @@
+import * as path from 'path';
+import { ZipArchive, isZipArchive } from './zipArchive';
+
+export type MeshFormat = 'stl' | 'obj' | '3mf';
+
+// Flat triangle soup in millimetres: 9 floats (3 vertices) per triangle
+export interface TriangleMesh {
+  positions: Float32Array;
+  normals?: Float32Array; // stored facet normals, 3 floats per triangle (STL only)
+  triangleCount: number;
+}
+
+// 3MF affine transform "m00 m01 m02 m10 m11 m12 m20 m21 m22 m30 m31 m32" (row-vector convention)
+type Transform = number[];
+
+interface ModelObject {
+  type: string;
+  vertices: number[];
+  triangles: number[];
+  components: Array<{ objectId: string; path: string; transform: Transform }>;
+}
+
+interface ModelFile {
+  unitScale: number;
+  objects: Map<string, ModelObject>;
+  buildItems: Array<{ objectId: string; path: string; transform: Transform }>;
+}
+
+const IDENTITY: Transform = [1, 0, 0, 0, 1, 0, 0, 0, 1, 0, 0, 0];
+
+const UNIT_SCALES: { [unit: string]: number } = {
+  micron: 0.001,
+  millimeter: 1,
+  centimeter: 10,
+  inch: 25.4,
+  foot: 304.8,
+  meter: 1000,
+};
+
+// Object types that never end up as printed plastic
+const NON_PRINTING_OBJECT_TYPES = ['support', 'surface', 'other'];
+
+const MAX_COMPONENT_DEPTH = 32;
+
+class MeshBuilder {
+  private positions = new Float32Array(9 * 1024);
+  private length = 0;
+
+  addTriangle(
+    ax: number, ay: number, az: number,
+    bx: number, by: number, bz: number,
+    cx: number, cy: number, cz: number
+  ): void {
+    if (this.length + 9 > this.positions.length) {
+      const grown = new Float32Array(this.positions.length * 2);
+      grown.set(this.positions);
+      this.positions = grown;
+    }
+    const p = this.positions;
+    let i = this.length;
+    p[i++] = ax; p[i++] = ay; p[i++] = az;
+    p[i++] = bx; p[i++] = by; p[i++] = bz;
+    p[i++] = cx; p[i++] = cy; p[i++] = cz;
+    this.length = i;
+  }
+
+  build(): TriangleMesh {
+    return {
+      positions: this.positions.slice(0, this.length),
+      triangleCount: this.length / 9,
+    };
+  }
+}
+
+export function detectMeshFormat(data: Buffer, fileName?: string): MeshFormat {
+  // Content sniffing wins over the extension for ZIP containers, since multer
+  // temp files have no extension at all
+  if (isZipArchive(data)) {
+    return '3mf';
+  }
+
+  const ext = fileName ? path.extname(fileName).toLowerCase() : '';
+  if (ext === '.obj') return 'obj';
+  if (ext === '.3mf') return '3mf';
+  if (ext === '.stl') return 'stl';
+
+  const head = data.toString('latin1', 0, Math.min(data.length, 4096));
+  if (/^\s*solid\b/.test(head) && /\bfacet\b/.test(head)) {
+    return 'stl';
+  }
+  if (/^\s*v\s+[-+\d.]/m.test(head) && !/\0/.test(head)) {
+    return 'obj';
+  }
+  return 'stl';
+}
+
+// ---------------------------------------------------------------------------
+// Wavefront OBJ
+// ---------------------------------------------------------------------------
+
+export function parseOBJ(data: Buffer): TriangleMesh {
+  const text = data.toString('utf8');
+  const vertices: number[] = [];
+  const builder = new MeshBuilder();
+  const face: number[] = [];
+
+  let lineStart = 0;
+  while (lineStart < text.length) {
+    let lineEnd = text.indexOf('\n', lineStart);
+    if (lineEnd === -1) lineEnd = text.length;
+    const line = text.slice(lineStart, lineEnd).trim();
+    lineStart = lineEnd + 1;
+
+    if (line.startsWith('v ') || line.startsWith('v\t')) {
+      const parts = line.split(/\s+/);
+      vertices.push(parseFloat(parts[1]), parseFloat(parts[2]), parseFloat(parts[3]));
+    } else if (line.startsWith('f ') || line.startsWith('f\t')) {
+      const parts = line.split(/\s+/);
+      const vertexCount = vertices.length / 3;
+      face.length = 0;
+
+      for (let i = 1; i < parts.length; i++) {
+        // "v", "v/vt", "v//vn" or "v/vt/vn"; negative indices count back from the last vertex
+        const index = parseInt(parts[i], 10);
+        if (isNaN(index)) continue;
+        const resolved = index < 0 ? vertexCount + index : index - 1;
+        if (resolved < 0 || resolved >= vertexCount) {
+          throw new Error(`OBJ face references missing vertex ${index}`);
+        }
+        face.push(resolved * 3);
+      }
+
+      // Fan-triangulate polygons (OBJ faces are convex by convention)
+      for (let i = 1; i + 1 < face.length; i++) {
+        const a = face[0], b = face[i], c = face[i + 1];
+        builder.addTriangle(
+          vertices[a], vertices[a + 1], vertices[a + 2],
+          vertices[b], vertices[b + 1], vertices[b + 2],
+          vertices[c], vertices[c + 1], vertices[c + 2]
+        );
+      }
+    }
+  }
+
+  const mesh = builder.build();
+  if (mesh.triangleCount === 0) {
+    throw new Error('OBJ file contains no faces');
+  }
+  return mesh;
+}
+
+// ---------------------------------------------------------------------------
+// 3MF (ZIP package with XML model parts)
+// ---------------------------------------------------------------------------
+
+const parseAttributes = (source: string): { [name: string]: string } => {
+  const attributes: { [name: string]: string } = {};
+  const pattern = /([\w:.-]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g;
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(source)) !== null) {
+    attributes[match[1]] = match[2] !== undefined ? match[2] : match[3];
+  }
+  return attributes;
+};
+
+const parseTransform = (value: string | undefined): Transform => {
+  if (!value) return IDENTITY;
+  const values = value.trim().split(/\s+/).map(Number);
+  if (values.length !== 12 || values.some(isNaN)) {
+    throw new Error(`Invalid 3MF transform: "${value}"`);
+  }
+  return values;
+};
+
+// Returns the transform equivalent to applying `inner` first, then `outer`
+const composeTransforms = (inner: Transform, outer: Transform): Transform => {
+  const result = new Array(12);
+  for (let row = 0; row < 4; row++) {
+    for (let col = 0; col < 3; col++) {
+      let value = row === 3 ? outer[9 + col] : 0;
+      for (let k = 0; k < 3; k++) {
+        value += inner[row * 3 + k] * outer[k * 3 + col];
+      }
+      result[row * 3 + col] = value;
+    }
+  }
+  return result;
+};
+
+const determinant = (t: Transform): number =>
+  t[0] * (t[4] * t[8] - t[5] * t[7]) -
+  t[1] * (t[3] * t[8] - t[5] * t[6]) +
+  t[2] * (t[3] * t[7] - t[4] * t[6]);
+
+// Element content regexes tolerate an optional namespace prefix ("m:vertex")
+const elementPattern = (name: string) => new RegExp(`<(?:[\\w.-]+:)?${name}\\b([^>]*?)\\/?>`, 'g');
+
+function parseModelFile(xml: string, partPath: string): ModelFile {
+  const modelTag = /<(?:[\w.-]+:)?model\b([^>]*)>/.exec(xml);
+  if (!modelTag) {
+    throw new Error(`3MF part ${partPath} is not a model`);
+  }
+  const unit = parseAttributes(modelTag[1]).unit || 'millimeter';
+  const unitScale = UNIT_SCALES[unit];
+  if (unitScale === undefined) {
+    throw new Error(`Unsupported 3MF unit "${unit}"`);
+  }
+
+  const objects = new Map<string, ModelObject>();
+  const objectPattern = /<(?:[\w.-]+:)?object\b([^>]*?)(\/>|>([\s\S]*?)<\/(?:[\w.-]+:)?object>)/g;
+  let objectMatch: RegExpExecArray | null;
+
+  while ((objectMatch = objectPattern.exec(xml)) !== null) {
+    const attributes = parseAttributes(objectMatch[1]);
+    const body = objectMatch[3] || '';
+    const object: ModelObject = {
+      type: attributes.type || 'model',
+      vertices: [],
+      triangles: [],
+      components: [],
+    };
+
+    const vertexPattern = elementPattern('vertex');
+    let match: RegExpExecArray | null;
+    while ((match = vertexPattern.exec(body)) !== null) {
+      const v = parseAttributes(match[1]);
+      object.vertices.push(parseFloat(v.x), parseFloat(v.y), parseFloat(v.z));
+    }
+
+    const trianglePattern = elementPattern('triangle');
+    while ((match = trianglePattern.exec(body)) !== null) {
+      const t = parseAttributes(match[1]);
+      object.triangles.push(parseInt(t.v1, 10), parseInt(t.v2, 10), parseInt(t.v3, 10));
+    }
+
+    const componentPattern = elementPattern('component');
+    while ((match = componentPattern.exec(body)) !== null) {
+      const c = parseAttributes(match[1]);
+      object.components.push({
+        objectId: c.objectid,
+        // Production extension: components may live in another model part
+        path: c['p:path'] || partPath,
+        transform: parseTransform(c.transform),
+      });
+    }
+
+    objects.set(attributes.id, object);
+  }
+
+  const buildItems: ModelFile['buildItems'] = [];
+  const buildMatch = /<(?:[\w.-]+:)?build\b[^>]*>([\s\S]*?)<\/(?:[\w.-]+:)?build>/.exec(xml);
+  if (buildMatch) {
+    const itemPattern = elementPattern('item');
+    let match: RegExpExecArray | null;
+    while ((match = itemPattern.exec(buildMatch[1])) !== null) {
+      const item = parseAttributes(match[1]);
+      if (item.printable === '0') continue;
+      buildItems.push({
+        objectId: item.objectid,
+        path: item['p:path'] || partPath,
+        transform: parseTransform(item.transform),
+      });
+    }
+  }
+
+  return { unitScale, objects, buildItems };
+}
+
+function findRootModelPath(archive: ZipArchive): string {
+  if (archive.has('_rels/.rels')) {
+    const rels = archive.readText('_rels/.rels');
+    const relationshipPattern = /<(?:[\w.-]+:)?Relationship\b([^>]*?)\/?>/g;
+    let match: RegExpExecArray | null;
+    while ((match = relationshipPattern.exec(rels)) !== null) {
+      const rel = parseAttributes(match[1]);
+      if (rel.Type && rel.Type.endsWith('/3dmodel') && rel.Target) {
+        return rel.Target;
+      }
+    }
+  }
+  return '/3D/3dmodel.model';
+}
+
+export function parse3MF(data: Buffer): TriangleMesh {
+  const archive = new ZipArchive(data);
+  const rootPath = findRootModelPath(archive);
+  const modelFiles = new Map<string, ModelFile>();
+
+  const loadModelFile = (partPath: string): ModelFile => {
+    const key = partPath.replace(/^\/+/, '').toLowerCase();
+    let model = modelFiles.get(key);
+    if (!model) {
+      model = parseModelFile(archive.readText(partPath), partPath);
+      modelFiles.set(key, model);
+    }
+    return model;
+  };
+
+  const root = loadModelFile(rootPath);
+  if (root.buildItems.length === 0) {
+    throw new Error('3MF file has no printable build items');
+  }
+
+  const builder = new MeshBuilder();
+  const scale = root.unitScale;
+
+  const emitObject = (partPath: string, objectId: string, transform: Transform, depth: number): void => {
+    if (depth > MAX_COMPONENT_DEPTH) {
+      throw new Error('3MF component hierarchy is too deep or cyclic');
+    }
+
+    const object = loadModelFile(partPath).objects.get(objectId);
+    if (!object) {
+      throw new Error(`3MF build references missing object ${objectId} in ${partPath}`);
+    }
+    if (NON_PRINTING_OBJECT_TYPES.includes(object.type)) {
+      return;
+    }
+
+    for (const component of object.components) {
+      emitObject(component.path, component.objectId, composeTransforms(component.transform, transform), depth + 1);
+    }
+
+    if (object.triangles.length === 0) return;
+
+    // Mirroring transforms invert the winding, which would flip the sign of the volume
+    const mirrored = determinant(transform) < 0;
+    const t = transform;
+    const v = object.vertices;
+    const apply = (index: number, out: number[], offset: number) => {
+      const i = index * 3;
+      if (i < 0 || i + 2 >= v.length) {
+        throw new Error(`3MF triangle references missing vertex ${index}`);
+      }
+      const x = v[i], y = v[i + 1], z = v[i + 2];
+      out[offset] = (x * t[0] + y * t[3] + z * t[6] + t[9]) * scale;
+      out[offset + 1] = (x * t[1] + y * t[4] + z * t[7] + t[10]) * scale;
+      out[offset + 2] = (x * t[2] + y * t[5] + z * t[8] + t[11]) * scale;
+    };
+
+    const p: number[] = new Array(9);
+    for (let i = 0; i < object.triangles.length; i += 3) {
+      apply(object.triangles[i], p, 0);
+      apply(object.triangles[i + (mirrored ? 2 : 1)], p, 3);
+      apply(object.triangles[i + (mirrored ? 1 : 2)], p, 6);
+      builder.addTriangle(p[0], p[1], p[2], p[3], p[4], p[5], p[6], p[7], p[8]);
+    }
+  };
+
+  for (const item of root.buildItems) {
+    emitObject(item.path, item.objectId, item.transform, 0);
+  }
+
+  const mesh = builder.build();
+  if (mesh.triangleCount === 0) {
+    throw new Error('3MF file contains no printable mesh geometry');
+  }
+  return mesh;
+}
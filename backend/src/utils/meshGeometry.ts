@@ -0,0 +1,96 @@
+// Streaming-friendly mesh measurements. Triangles are passed as 9 consecutive
+// coordinates (mm) starting at `offset`, so callers can feed flat arrays or a
+// reused scratch buffer without allocating per triangle.
+
+export interface Vec3 {
+  x: number;
+  y: number;
+  z: number;
+}
+
+export interface MeshStats {
+  triangleCount: number;
+  signedVolume: number; // mm³, negative when the mesh is inside-out
+  surfaceArea: number; // mm²
+  boundingBox: {
+    min: Vec3;
+    max: Vec3;
+  };
+}
+
+// (b - a) × (c - a): points along the face normal, its length is twice the triangle area
+export const triangleCross = (p: ArrayLike<number>, o: number, out: number[]): void => {
+  const ux = p[o + 3] - p[o], uy = p[o + 4] - p[o + 1], uz = p[o + 5] - p[o + 2];
+  const vx = p[o + 6] - p[o], vy = p[o + 7] - p[o + 1], vz = p[o + 8] - p[o + 2];
+  out[0] = uy * vz - uz * vy;
+  out[1] = uz * vx - ux * vz;
+  out[2] = ux * vy - uy * vx;
+};
+
+// Signed volume of the tetrahedron (origin, a, b, c): a · (b × c) / 6
+export const signedTetrahedronVolume = (p: ArrayLike<number>, o: number): number =>
+  (p[o] * (p[o + 4] * p[o + 8] - p[o + 5] * p[o + 7]) -
+    p[o + 1] * (p[o + 3] * p[o + 8] - p[o + 5] * p[o + 6]) +
+    p[o + 2] * (p[o + 3] * p[o + 7] - p[o + 4] * p[o + 6])) / 6;
+
+export class MeshStatsAccumulator {
+  private triangleCount = 0;
+  private signedVolume = 0;
+  private surfaceArea = 0;
+  private minX = Infinity;
+  private minY = Infinity;
+  private minZ = Infinity;
+  private maxX = -Infinity;
+  private maxY = -Infinity;
+  private maxZ = -Infinity;
+  private readonly cross = [0, 0, 0];
+
+  // Volume is integrated relative to the first vertex seen rather than the
+  // origin, which keeps the float error small for parts placed far from 0,0,0
+  private ox = 0;
+  private oy = 0;
+  private oz = 0;
+  private readonly local = new Float64Array(9);
+
+  addTriangle(p: ArrayLike<number>, o: number = 0): void {
+    if (this.triangleCount === 0) {
+      this.ox = p[o];
+      this.oy = p[o + 1];
+      this.oz = p[o + 2];
+    }
+    this.triangleCount++;
+
+    for (let i = 0; i < 9; i += 3) {
+      const x = p[o + i], y = p[o + i + 1], z = p[o + i + 2];
+      if (x < this.minX) this.minX = x;
+      if (y < this.minY) this.minY = y;
+      if (z < this.minZ) this.minZ = z;
+      if (x > this.maxX) this.maxX = x;
+      if (y > this.maxY) this.maxY = y;
+      if (z > this.maxZ) this.maxZ = z;
+      this.local[i] = x - this.ox;
+      this.local[i + 1] = y - this.oy;
+      this.local[i + 2] = z - this.oz;
+    }
+
+    triangleCross(p, o, this.cross);
+    this.surfaceArea += Math.hypot(this.cross[0], this.cross[1], this.cross[2]) / 2;
+    this.signedVolume += signedTetrahedronVolume(this.local, 0);
+  }
+
+  getStats(): MeshStats {
+    if (this.triangleCount === 0) {
+      throw new Error('Mesh contains no triangles');
+    }
+
+    return {
+      triangleCount: this.triangleCount,
+      signedVolume: this.signedVolume,
+      surfaceArea: this.surfaceArea,
+      boundingBox: {
+        min: { x: this.minX, y: this.minY, z: this.minZ },
+        max: { x: this.maxX, y: this.maxY, z: this.maxZ },
+      },
+    };
+  }
+}
@@ -0,0 +1,421 @@
+import { triangleCross } from './meshGeometry';
+
+// Topology checks for uploaded meshes. Vertices are welded on exact
+// coordinates (STL/3MF exporters repeat shared vertices bit-for-bit), then
+// edges are matched up to find holes, non-manifold edges, inconsistent
+// winding and - for meshes of reasonable size - self-intersections.
+
+export interface MeshHealthReport {
+  triangleCount: number;
+  vertexCount: number; // after welding identical coordinates
+  shells: number; // connected pieces of surface
+  degenerateTriangles: number; // zero-area or collapsed triangles
+  openBoundaryEdges: number; // edges used by a single triangle (holes)
+  nonManifoldEdges: number; // edges shared by more than two triangles
+  flippedNormals: number; // triangles wound against the rest of their shell
+  normalMismatches: number; // stored facet normals contradicting the winding (STL only)
+  selfIntersections: number | null; // intersecting triangle pairs, null when the check was skipped
+  isInsideOut: boolean;
+  isWatertight: boolean;
+  isPrintReady: boolean;
+  issues: string[];
+}
+
+interface HealthCheckOptions {
+  maxSelfIntersectionTriangles: number;
+}
+
+const DEFAULT_OPTIONS: HealthCheckOptions = {
+  // The pairwise test needs every triangle in a spatial grid; beyond this the
+  // check is skipped and reported as null rather than stalling the analysis
+  maxSelfIntersectionTriangles: 250000,
+};
+
+const EPSILON = 1e-9;
+
+interface Shell {
+  faceCount: number;
+  volumeEven: number; // signed volume of faces with parity 0
+  volumeOdd: number; // signed volume of faces with parity 1
+  oddCount: number;
+  min: number[];
+  max: number[];
+}
+
+export class MeshHealthChecker {
+  private readonly vertexIds = new Map<string, number>();
+  private readonly coords: number[] = [];
+  private readonly faces: number[] = [];
+  private triangleCount = 0;
+  private degenerateTriangles = 0;
+  private normalMismatches = 0;
+  private readonly cross = [0, 0, 0];
+
+  addTriangle(p: ArrayLike<number>, o: number = 0, normal?: ArrayLike<number>, normalOffset: number = 0): void {
+    this.triangleCount++;
+
+    triangleCross(p, o, this.cross);
+    const doubleArea = Math.hypot(this.cross[0], this.cross[1], this.cross[2]);
+
+    if (normal) {
+      const nx = normal[normalOffset], ny = normal[normalOffset + 1], nz = normal[normalOffset + 2];
+      // Many exporters write zero normals; only judge the ones that are actually set
+      if (Math.hypot(nx, ny, nz) > 0.5 && nx * this.cross[0] + ny * this.cross[1] + nz * this.cross[2] < 0) {
+        this.normalMismatches++;
+      }
+    }
+
+    const a = this.weld(p[o], p[o + 1], p[o + 2]);
+    const b = this.weld(p[o + 3], p[o + 4], p[o + 5]);
+    const c = this.weld(p[o + 6], p[o + 7], p[o + 8]);
+
+    if (a === b || b === c || a === c) {
+      // Collapsed triangles carry no topology; leave them out of the edge graph
+      this.degenerateTriangles++;
+      return;
+    }
+    if (doubleArea < EPSILON) {
+      this.degenerateTriangles++;
+    }
+    this.faces.push(a, b, c);
+  }
+
+  getReport(options: Partial<HealthCheckOptions> = {}): MeshHealthReport {
+    const { maxSelfIntersectionTriangles } = { ...DEFAULT_OPTIONS, ...options };
+    const faceCount = this.faces.length / 3;
+    const vertexCount = this.coords.length / 3;
+
+    // --- Edge table -------------------------------------------------------
+    // Key each undirected edge as lo * vertexCount + hi; remember the first two
+    // faces using it and the direction each traverses it in.
+    const edgeIndex = new Map<number, number>();
+    const edgeUses: number[] = [];
+    const edgeFaces: number[] = []; // 2 slots per edge
+    const edgeForward: boolean[] = []; // 2 slots per edge
+
+    for (let f = 0; f < faceCount; f++) {
+      for (let k = 0; k < 3; k++) {
+        const from = this.faces[f * 3 + k];
+        const to = this.faces[f * 3 + ((k + 1) % 3)];
+        const forward = from < to;
+        const key = forward ? from * vertexCount + to : to * vertexCount + from;
+
+        let e = edgeIndex.get(key);
+        if (e === undefined) {
+          e = edgeUses.length;
+          edgeIndex.set(key, e);
+          edgeUses.push(0);
+          edgeFaces.push(-1, -1);
+          edgeForward.push(false, false);
+        }
+        const uses = edgeUses[e]++;
+        if (uses < 2) {
+          edgeFaces[e * 2 + uses] = f;
+          edgeForward[e * 2 + uses] = forward;
+        }
+      }
+    }
+
+    let openBoundaryEdges = 0;
+    let nonManifoldEdges = 0;
+    const neighbourCount = new Int32Array(faceCount + 1);
+    for (let e = 0; e < edgeUses.length; e++) {
+      if (edgeUses[e] === 1) openBoundaryEdges++;
+      else if (edgeUses[e] > 2) nonManifoldEdges++;
+      else {
+        neighbourCount[edgeFaces[e * 2] + 1]++;
+        neighbourCount[edgeFaces[e * 2 + 1] + 1]++;
+      }
+    }
+
+    // --- Face adjacency over manifold edges (CSR layout) -------------------
+    for (let f = 0; f < faceCount; f++) {
+      neighbourCount[f + 1] += neighbourCount[f];
+    }
+    const neighbourStart = neighbourCount;
+    const neighbours = new Int32Array(neighbourStart[faceCount]);
+    // Two faces walking a shared edge in the same direction disagree on orientation
+    const sameDirection = new Uint8Array(neighbourStart[faceCount]);
+    const fill = new Int32Array(faceCount);
+    for (let e = 0; e < edgeUses.length; e++) {
+      if (edgeUses[e] !== 2) continue;
+      const f1 = edgeFaces[e * 2], f2 = edgeFaces[e * 2 + 1];
+      const same = edgeForward[e * 2] === edgeForward[e * 2 + 1] ? 1 : 0;
+      let slot = neighbourStart[f1] + fill[f1]++;
+      neighbours[slot] = f2;
+      sameDirection[slot] = same;
+      slot = neighbourStart[f2] + fill[f2]++;
+      neighbours[slot] = f1;
+      sameDirection[slot] = same;
+    }
+
+    // --- Orientation propagation per shell ---------------------------------
+    // parity[f] = 1 means face f must be flipped to agree with its shell's seed face
+    const parity = new Int8Array(faceCount).fill(-1);
+    const shells: Shell[] = [];
+    const stack: number[] = [];
+    let totalSignedVolume = 0;
+
+    for (let seed = 0; seed < faceCount; seed++) {
+      if (parity[seed] !== -1) continue;
+
+      const shell: Shell = {
+        faceCount: 0,
+        volumeEven: 0,
+        volumeOdd: 0,
+        oddCount: 0,
+        min: [Infinity, Infinity, Infinity],
+        max: [-Infinity, -Infinity, -Infinity],
+      };
+      parity[seed] = 0;
+      stack.push(seed);
+
+      while (stack.length > 0) {
+        const f = stack.pop()!;
+        const volume = this.faceSignedVolume(f);
+        totalSignedVolume += volume;
+        shell.faceCount++;
+        if (parity[f] === 0) {
+          shell.volumeEven += volume;
+        } else {
+          shell.volumeOdd += volume;
+          shell.oddCount++;
+        }
+        this.expandBounds(f, shell);
+
+        for (let slot = neighbourStart[f]; slot < neighbourStart[f + 1]; slot++) {
+          const g = neighbours[slot];
+          if (parity[g] === -1) {
+            parity[g] = (parity[f] ^ sameDirection[slot]) as 0 | 1;
+            stack.push(g);
+          }
+        }
+      }
+
+      shells.push(shell);
+    }
+
+    // A shell whose bounds sit inside a larger shell is treated as a cavity,
+    // which is expected to face inwards (negative volume)
+    let flippedNormals = 0;
+    for (const shell of shells) {
+      const correctedVolume = shell.volumeEven - shell.volumeOdd;
+      const isCavity = shells.some(other =>
+        other !== shell &&
+        Math.abs(other.volumeEven - other.volumeOdd) > Math.abs(correctedVolume) &&
+        [0, 1, 2].every(axis => other.min[axis] <= shell.min[axis] && other.max[axis] >= shell.max[axis])
+      );
+      const expectedSign = isCavity ? -1 : 1;
+      flippedNormals += correctedVolume * expectedSign >= 0
+        ? shell.oddCount
+        : shell.faceCount - shell.oddCount;
+    }
+
+    const selfIntersections = faceCount <= maxSelfIntersectionTriangles
+      ? this.countSelfIntersections()
+      : null;
+
+    const isInsideOut = totalSignedVolume < 0;
+    const isWatertight = openBoundaryEdges === 0 && nonManifoldEdges === 0;
+
+    const issues: string[] = [];
+    if (openBoundaryEdges > 0) {
+      issues.push(`${openBoundaryEdges} open boundary edges (mesh has holes)`);
+    }
+    if (nonManifoldEdges > 0) {
+      issues.push(`${nonManifoldEdges} non-manifold edges`);
+    }
+    if (flippedNormals > 0) {
+      issues.push(`${flippedNormals} triangles with flipped normals`);
+    }
+    if (isInsideOut) {
+      issues.push('Mesh is inside-out (negative volume)');
+    }
+    if (selfIntersections) {
+      issues.push(`${selfIntersections} self-intersecting triangle pairs`);
+    }
+    if (selfIntersections === null) {
+      issues.push('Self-intersection check skipped for large mesh');
+    }
+    if (this.degenerateTriangles > 0) {
+      issues.push(`${this.degenerateTriangles} degenerate triangles`);
+    }
+
+    return {
+      triangleCount: this.triangleCount,
+      vertexCount,
+      shells: shells.length,
+      degenerateTriangles: this.degenerateTriangles,
+      openBoundaryEdges,
+      nonManifoldEdges,
+      flippedNormals,
+      normalMismatches: this.normalMismatches,
+      selfIntersections,
+      isInsideOut,
+      isWatertight,
+      isPrintReady: isWatertight && flippedNormals === 0 && !isInsideOut && !selfIntersections,
+      issues,
+    };
+  }
+
+  private weld(x: number, y: number, z: number): number {
+    const key = `${x},${y},${z}`;
+    let id = this.vertexIds.get(key);
+    if (id === undefined) {
+      id = this.coords.length / 3;
+      this.vertexIds.set(key, id);
+      this.coords.push(x, y, z);
+    }
+    return id;
+  }
+
+  private faceSignedVolume(f: number): number {
+    // Relative to vertex 0 for numerical stability
+    const c = this.coords;
+    const ox = c[0], oy = c[1], oz = c[2];
+    const a = this.faces[f * 3] * 3, b = this.faces[f * 3 + 1] * 3, d = this.faces[f * 3 + 2] * 3;
+    const ax = c[a] - ox, ay = c[a + 1] - oy, az = c[a + 2] - oz;
+    const bx = c[b] - ox, by = c[b + 1] - oy, bz = c[b + 2] - oz;
+    const cx = c[d] - ox, cy = c[d + 1] - oy, cz = c[d + 2] - oz;
+    return (ax * (by * cz - bz * cy) - ay * (bx * cz - bz * cx) + az * (bx * cy - by * cx)) / 6;
+  }
+
+  private expandBounds(f: number, shell: Shell): void {
+    for (let k = 0; k < 3; k++) {
+      const v = this.faces[f * 3 + k] * 3;
+      for (let axis = 0; axis < 3; axis++) {
+        const value = this.coords[v + axis];
+        if (value < shell.min[axis]) shell.min[axis] = value;
+        if (value > shell.max[axis]) shell.max[axis] = value;
+      }
+    }
+  }
+
+  // Uniform-grid broad phase, then edge-vs-triangle tests. Triangles sharing a
+  // vertex are neighbours by construction and are not tested against each other.
+  private countSelfIntersections(): number {
+    const faceCount = this.faces.length / 3;
+    if (faceCount < 2) return 0;
+
+    const boxes = new Float64Array(faceCount * 6);
+    const sceneMin = [Infinity, Infinity, Infinity];
+    const sceneMax = [-Infinity, -Infinity, -Infinity];
+    for (let f = 0; f < faceCount; f++) {
+      for (let axis = 0; axis < 3; axis++) {
+        let min = Infinity, max = -Infinity;
+        for (let k = 0; k < 3; k++) {
+          const value = this.coords[this.faces[f * 3 + k] * 3 + axis];
+          if (value < min) min = value;
+          if (value > max) max = value;
+        }
+        boxes[f * 6 + axis] = min;
+        boxes[f * 6 + 3 + axis] = max;
+        if (min < sceneMin[axis]) sceneMin[axis] = min;
+        if (max > sceneMax[axis]) sceneMax[axis] = max;
+      }
+    }
+
+    // Aim for roughly one triangle per cell, with a floor so flat meshes still get a grid
+    const extent = [0, 1, 2].map(axis => Math.max(sceneMax[axis] - sceneMin[axis], EPSILON));
+    const diagonal = Math.hypot(extent[0], extent[1], extent[2]);
+    const cellSize = Math.max(Math.cbrt((extent[0] * extent[1] * extent[2]) / faceCount), diagonal / 256);
+    const dims = extent.map(e => Math.max(1, Math.ceil(e / cellSize)));
+    const cellOf = (value: number, axis: number) =>
+      Math.min(dims[axis] - 1, Math.floor((value - sceneMin[axis]) / cellSize));
+
+    const grid = new Map<number, number[]>();
+    for (let f = 0; f < faceCount; f++) {
+      const x0 = cellOf(boxes[f * 6], 0), x1 = cellOf(boxes[f * 6 + 3], 0);
+      const y0 = cellOf(boxes[f * 6 + 1], 1), y1 = cellOf(boxes[f * 6 + 4], 1);
+      const z0 = cellOf(boxes[f * 6 + 2], 2), z1 = cellOf(boxes[f * 6 + 5], 2);
+      for (let z = z0; z <= z1; z++) {
+        for (let y = y0; y <= y1; y++) {
+          for (let x = x0; x <= x1; x++) {
+            const key = x + dims[0] * (y + dims[1] * z);
+            const cell = grid.get(key);
+            if (cell) cell.push(f);
+            else grid.set(key, [f]);
+          }
+        }
+      }
+    }
+
+    let intersections = 0;
+    for (const [key, cell] of grid) {
+      for (let i = 0; i < cell.length; i++) {
+        const f = cell[i];
+        for (let j = i + 1; j < cell.length; j++) {
+          const g = cell[j];
+          if (!this.boxesOverlap(boxes, f, g) || this.sharesVertex(f, g)) continue;
+
+          // Test each pair once: in the cell holding the low corner of the box overlap
+          const ox = cellOf(Math.max(boxes[f * 6], boxes[g * 6]), 0);
+          const oy = cellOf(Math.max(boxes[f * 6 + 1], boxes[g * 6 + 1]), 1);
+          const oz = cellOf(Math.max(boxes[f * 6 + 2], boxes[g * 6 + 2]), 2);
+          if (ox + dims[0] * (oy + dims[1] * oz) !== key) continue;
+
+          if (this.trianglesIntersect(f, g)) {
+            intersections++;
+          }
+        }
+      }
+    }
+
+    return intersections;
+  }
+
+  private boxesOverlap(boxes: Float64Array, f: number, g: number): boolean {
+    for (let axis = 0; axis < 3; axis++) {
+      if (boxes[f * 6 + 3 + axis] < boxes[g * 6 + axis] || boxes[g * 6 + 3 + axis] < boxes[f * 6 + axis]) {
+        return false;
+      }
+    }
+    return true;
+  }
+
+  private sharesVertex(f: number, g: number): boolean {
+    for (let i = 0; i < 3; i++) {
+      for (let j = 0; j < 3; j++) {
+        if (this.faces[f * 3 + i] === this.faces[g * 3 + j]) return true;
+      }
+    }
+    return false;
+  }
+
+  private trianglesIntersect(f: number, g: number): boolean {
+    for (let k = 0; k < 3; k++) {
+      if (this.edgeCrossesTriangle(this.faces[f * 3 + k], this.faces[f * 3 + ((k + 1) % 3)], g) ||
+          this.edgeCrossesTriangle(this.faces[g * 3 + k], this.faces[g * 3 + ((k + 1) % 3)], f)) {
+        return true;
+      }
+    }
+    return false;
+  }
+
+  // Möller–Trumbore restricted to the segment; coplanar overlaps are not counted
+  private edgeCrossesTriangle(from: number, to: number, f: number): boolean {
+    const c = this.coords;
+    const p = from * 3, q = to * 3;
+    const a = this.faces[f * 3] * 3, b = this.faces[f * 3 + 1] * 3, d = this.faces[f * 3 + 2] * 3;
+
+    const dx = c[q] - c[p], dy = c[q + 1] - c[p + 1], dz = c[q + 2] - c[p + 2];
+    const e1x = c[b] - c[a], e1y = c[b + 1] - c[a + 1], e1z = c[b + 2] - c[a + 2];
+    const e2x = c[d] - c[a], e2y = c[d + 1] - c[a + 1], e2z = c[d + 2] - c[a + 2];
+
+    const hx = dy * e2z - dz * e2y, hy = dz * e2x - dx * e2z, hz = dx * e2y - dy * e2x;
+    const det = e1x * hx + e1y * hy + e1z * hz;
+    if (Math.abs(det) < EPSILON) return false;
+
+    const inv = 1 / det;
+    const sx = c[p] - c[a], sy = c[p + 1] - c[a + 1], sz = c[p + 2] - c[a + 2];
+    const u = (sx * hx + sy * hy + sz * hz) * inv;
+    if (u <= EPSILON || u >= 1 - EPSILON) return false;
+
+    const qx = sy * e1z - sz * e1y, qy = sz * e1x - sx * e1z, qz = sx * e1y - sy * e1x;
+    const v = (dx * qx + dy * qy + dz * qz) * inv;
+    if (v <= EPSILON || u + v >= 1 - EPSILON) return false;
+
+    const t = (e2x * qx + e2y * qy + e2z * qz) * inv;
+    return t > EPSILON && t < 1 - EPSILON;
+  }
+}
@@ -0,0 +1,135 @@
+import { Vec3 } from './meshGeometry';
+import { OverhangAccumulator, SupportAnalysis } from './meshSupport';
+
+// Evaluates a model in several print orientations in a single pass. Every
+// triangle is rotated into each candidate frame and fed to that candidate's
+// overhang accumulator, so support, build height and bed contact can be compared
+// without re-reading the mesh once per orientation.
+
+export type RotationMatrix = number[]; // row-major 3×3, applied as p' = R·p
+
+export interface OrientationCandidate {
+  id: string;
+  rotation: RotationMatrix;
+}
+
+export interface OrientationResult extends OrientationCandidate {
+  boundingBox: {
+    min: Vec3;
+    max: Vec3;
+  };
+  support: SupportAnalysis;
+}
+
+// cos/sin of multiples of 90° come out as 6e-17 rather than 0
+const clean = (value: number): number => (Math.abs(value) < 1e-12 ? 0 : value);
+
+export const rotationAboutX = (degrees: number): RotationMatrix => {
+  const c = clean(Math.cos((degrees * Math.PI) / 180));
+  const s = clean(Math.sin((degrees * Math.PI) / 180));
+  return [1, 0, 0, 0, c, -s, 0, s, c];
+};
+
+export const rotationAboutY = (degrees: number): RotationMatrix => {
+  const c = clean(Math.cos((degrees * Math.PI) / 180));
+  const s = clean(Math.sin((degrees * Math.PI) / 180));
+  return [c, 0, s, 0, 1, 0, -s, 0, c];
+};
+
+export const IDENTITY_ROTATION: RotationMatrix = [1, 0, 0, 0, 1, 0, 0, 0, 1];
+
+// Each of the six axis directions facing the bed, plus 45° tilts that put an
+// edge down. Turning about Z does not change support or height, so it is not searched.
+export const STANDARD_ORIENTATIONS: OrientationCandidate[] = [
+  { id: 'as-uploaded', rotation: IDENTITY_ROTATION },
+  { id: 'x+90', rotation: rotationAboutX(90) },
+  { id: 'x-90', rotation: rotationAboutX(-90) },
+  { id: 'x180', rotation: rotationAboutX(180) },
+  { id: 'y+90', rotation: rotationAboutY(90) },
+  { id: 'y-90', rotation: rotationAboutY(-90) },
+  { id: 'x+45', rotation: rotationAboutX(45) },
+  { id: 'x-45', rotation: rotationAboutX(-45) },
+  { id: 'x+135', rotation: rotationAboutX(135) },
+  { id: 'x-135', rotation: rotationAboutX(-135) },
+  { id: 'y+45', rotation: rotationAboutY(45) },
+  { id: 'y-45', rotation: rotationAboutY(-45) },
+  { id: 'y+135', rotation: rotationAboutY(135) },
+  { id: 'y-135', rotation: rotationAboutY(-135) },
+];
+
+// Proper rotation: orthonormal rows and determinant +1 (no mirroring or scaling)
+export const isRotationMatrix = (value: unknown): value is RotationMatrix => {
+  if (!Array.isArray(value) || value.length !== 9 || !value.every(v => typeof v === 'number' && Number.isFinite(v))) {
+    return false;
+  }
+  const m = value as number[];
+  for (let i = 0; i < 3; i++) {
+    for (let j = 0; j < 3; j++) {
+      const dot = m[i * 3] * m[j * 3] + m[i * 3 + 1] * m[j * 3 + 1] + m[i * 3 + 2] * m[j * 3 + 2];
+      if (Math.abs(dot - (i === j ? 1 : 0)) > 1e-6) {
+        return false;
+      }
+    }
+  }
+  const determinant =
+    m[0] * (m[4] * m[8] - m[5] * m[7]) -
+    m[1] * (m[3] * m[8] - m[5] * m[6]) +
+    m[2] * (m[3] * m[7] - m[4] * m[6]);
+  return Math.abs(determinant - 1) < 1e-6;
+};
+
+// Rotates 9 coordinates starting at `offset` into `out`
+export const rotateTriangle = (r: RotationMatrix, p: ArrayLike<number>, o: number, out: Float64Array): void => {
+  for (let v = 0; v < 9; v += 3) {
+    const x = p[o + v], y = p[o + v + 1], z = p[o + v + 2];
+    out[v] = r[0] * x + r[1] * y + r[2] * z;
+    out[v + 1] = r[3] * x + r[4] * y + r[5] * z;
+    out[v + 2] = r[6] * x + r[7] * y + r[8] * z;
+  }
+};
+
+export class OrientationAccumulator {
+  private readonly rotated = new Float64Array(9);
+  private readonly overhangs: OverhangAccumulator[];
+  private readonly min: number[][];
+  private readonly max: number[][];
+
+  constructor(private readonly candidates: OrientationCandidate[], overhangAngle: number) {
+    this.overhangs = candidates.map(() => new OverhangAccumulator(overhangAngle));
+    this.min = candidates.map(() => [Infinity, Infinity, Infinity]);
+    this.max = candidates.map(() => [-Infinity, -Infinity, -Infinity]);
+  }
+
+  addTriangle(p: ArrayLike<number>, o: number = 0): void {
+    const out = this.rotated;
+    for (let c = 0; c < this.candidates.length; c++) {
+      rotateTriangle(this.candidates[c].rotation, p, o, out);
+      this.overhangs[c].addTriangle(out, 0);
+
+      const min = this.min[c], max = this.max[c];
+      for (let v = 0; v < 9; v += 3) {
+        for (let axis = 0; axis < 3; axis++) {
+          const value = out[v + axis];
+          if (value < min[axis]) min[axis] = value;
+          if (value > max[axis]) max[axis] = value;
+        }
+      }
+    }
+  }
+
+  getResults(): OrientationResult[] {
+    return this.candidates.map((candidate, c) => {
+      const [minX, minY, minZ] = this.min[c];
+      const [maxX, maxY, maxZ] = this.max[c];
+      return {
+        id: candidate.id,
+        rotation: candidate.rotation,
+        boundingBox: {
+          min: { x: minX, y: minY, z: minZ },
+          max: { x: maxX, y: maxY, z: maxZ },
+        },
+        support: this.overhangs[c].getAnalysis(),
+      };
+    });
+  }
+}
@@ -0,0 +1,150 @@
+import { triangleCross } from './meshGeometry';
+import { RotationMatrix, rotateTriangle } from './meshOrientation';
+
+// Streaming slicer. Each triangle is cut by the layer planes it spans and only
+// per-layer totals are kept (contour length, enclosed area, extents), so memory
+// grows with the layer count rather than the mesh. Contour segments are oriented
+// from the face normal, which makes the shoelace sum count holes negatively
+// without ever chaining segments into loops.
+
+export interface LayerSlice {
+  z: number; // mm, height of the slicing plane above the bed
+  perimeterLength: number; // mm, total contour length
+  segmentCount: number;
+  area: number; // mm², material cross-section (holes subtracted)
+  supportArea: number; // mm², footprint of overhangs above this layer
+  bounds: {
+    minX: number;
+    minY: number;
+    maxX: number;
+    maxY: number;
+  } | null; // null when the plane misses the model
+}
+
+export interface SliceOptions {
+  rotation: RotationMatrix; // print orientation, applied before slicing
+  zMin: number; // mm, lowest point in the rotated frame
+  zMax: number; // mm
+  layerHeight: number; // mm
+  overhangAngle: number; // degrees from vertical printable without support
+}
+
+export class MeshSlicer {
+  private readonly layerCount: number;
+  private readonly supportThreshold: number;
+  private readonly rotated = new Float64Array(9);
+  private readonly cross = [0, 0, 0];
+
+  private readonly perimeter: Float64Array;
+  private readonly segments: Uint32Array;
+  private readonly area: Float64Array;
+  private readonly supportDelta: Float64Array;
+  private readonly minX: Float64Array;
+  private readonly minY: Float64Array;
+  private readonly maxX: Float64Array;
+  private readonly maxY: Float64Array;
+
+  constructor(private readonly options: SliceOptions) {
+    this.layerCount = Math.max(1, Math.ceil((options.zMax - options.zMin) / options.layerHeight - 1e-9));
+    this.supportThreshold = Math.sin((options.overhangAngle * Math.PI) / 180);
+
+    this.perimeter = new Float64Array(this.layerCount);
+    this.segments = new Uint32Array(this.layerCount);
+    this.area = new Float64Array(this.layerCount);
+    this.supportDelta = new Float64Array(this.layerCount + 1);
+    this.minX = new Float64Array(this.layerCount).fill(Infinity);
+    this.minY = new Float64Array(this.layerCount).fill(Infinity);
+    this.maxX = new Float64Array(this.layerCount).fill(-Infinity);
+    this.maxY = new Float64Array(this.layerCount).fill(-Infinity);
+  }
+
+  // Layer k is cut through its middle, at zMin + (k + ½)·layerHeight
+  private planeZ(layer: number): number {
+    return this.options.zMin + (layer + 0.5) * this.options.layerHeight;
+  }
+
+  addTriangle(p: ArrayLike<number>, o: number = 0): void {
+    const t = this.rotated;
+    const { zMin, layerHeight } = this.options;
+    rotateTriangle(this.options.rotation, p, o, t);
+
+    triangleCross(t, 0, this.cross);
+    const [nx, ny, nz] = this.cross;
+    const doubleArea = Math.hypot(nx, ny, nz);
+    if (doubleArea === 0) return;
+
+    // Overhanging faces are held up by a column of support on every layer below them
+    if (-nz / doubleArea > this.supportThreshold) {
+      const centroidLayer = Math.floor(((t[2] + t[5] + t[8]) / 3 - zMin) / layerHeight);
+      const top = Math.min(Math.max(centroidLayer, 0), this.layerCount);
+      this.supportDelta[0] += -nz / 2;
+      this.supportDelta[top] -= -nz / 2;
+    }
+
+    const zLow = Math.min(t[2], t[5], t[8]);
+    const zHigh = Math.max(t[2], t[5], t[8]);
+    const first = Math.max(0, Math.ceil((zLow - zMin) / layerHeight - 0.5));
+    const last = Math.min(this.layerCount - 1, Math.floor((zHigh - zMin) / layerHeight - 0.5));
+
+    for (let layer = first; layer <= last; layer++) {
+      this.cutTriangle(layer, this.planeZ(layer), nx, ny);
+    }
+  }
+
+  private cutTriangle(layer: number, z: number, nx: number, ny: number): void {
+    const t = this.rotated;
+    let ax = 0, ay = 0, bx = 0, by = 0;
+    let found = 0;
+
+    // Exactly two edges cross the plane when it passes through the triangle
+    for (let i = 0; i < 3 && found < 2; i++) {
+      const a = i * 3, b = ((i + 1) % 3) * 3;
+      const da = t[a + 2] - z, db = t[b + 2] - z;
+      if ((da > 0) === (db > 0)) continue;
+
+      const s = da / (da - db);
+      const x = t[a] + s * (t[b] - t[a]);
+      const y = t[a + 1] + s * (t[b + 1] - t[a + 1]);
+      if (found === 0) {
+        ax = x; ay = y;
+      } else {
+        bx = x; by = y;
+      }
+      found++;
+    }
+    if (found < 2) return;
+
+    // Walk the contour counter-clockwise around material (direction z × n)
+    if ((bx - ax) * -ny + (by - ay) * nx < 0) {
+      [ax, ay, bx, by] = [bx, by, ax, ay];
+    }
+
+    this.perimeter[layer] += Math.hypot(bx - ax, by - ay);
+    this.segments[layer]++;
+    this.area[layer] += (ax * by - bx * ay) / 2;
+    this.minX[layer] = Math.min(this.minX[layer], ax, bx);
+    this.minY[layer] = Math.min(this.minY[layer], ay, by);
+    this.maxX[layer] = Math.max(this.maxX[layer], ax, bx);
+    this.maxY[layer] = Math.max(this.maxY[layer], ay, by);
+  }
+
+  getLayers(): LayerSlice[] {
+    const layers: LayerSlice[] = [];
+    let supportArea = 0;
+
+    for (let layer = 0; layer < this.layerCount; layer++) {
+      supportArea += this.supportDelta[layer];
+      layers.push({
+        z: this.planeZ(layer) - this.options.zMin,
+        perimeterLength: this.perimeter[layer],
+        segmentCount: this.segments[layer],
+        area: Math.abs(this.area[layer]), // inside-out meshes sum to the negated area
+        supportArea: Math.max(0, supportArea),
+        bounds: this.segments[layer] > 0
+          ? { minX: this.minX[layer], minY: this.minY[layer], maxX: this.maxX[layer], maxY: this.maxY[layer] }
+          : null,
+      });
+    }
+    return layers;
+  }
+}
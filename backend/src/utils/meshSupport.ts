@@ -0,0 +1,95 @@
+import { triangleCross } from './meshGeometry';
+
+// Face-normal overhang detection. Z is the build direction. A downward facing
+// triangle needs support when it is tilted further from vertical than the
+// overhang angle (0° = vertical wall, 90° = flat ceiling); the support under it
+// is modelled as a column from the bed up to the face.
+
+export interface SupportAnalysis {
+  overhangAngle: number; // degrees from vertical printable without support
+  overhangArea: number; // mm², surface area of faces needing support
+  supportContactArea: number; // mm², footprint of those faces (support interface)
+  supportVolume: number; // mm³, solid volume of the support columns before support density
+  bedContactArea: number; // mm², downward faces resting on the build plate
+}
+
+// Faces within this distance of the lowest point rest on the build plate
+const BED_CONTACT_TOLERANCE = 0.1; // mm
+
+export class OverhangAccumulator {
+  private readonly threshold: number;
+  private readonly cross = [0, 0, 0];
+
+  private minZ = Infinity;
+  private overhangArea = 0;
+  private projectedArea = 0;
+  private projectedAreaTimesHeight = 0;
+
+  // Downward faces lying on the lowest plane seen so far; these turn out to be
+  // bed contact rather than overhangs if that plane is the bottom of the part
+  private bedZ = Infinity;
+  private bedArea = 0;
+  private bedProjectedArea = 0;
+
+  constructor(readonly overhangAngle: number) {
+    this.threshold = Math.sin((overhangAngle * Math.PI) / 180);
+  }
+
+  addTriangle(p: ArrayLike<number>, o: number = 0): void {
+    const z0 = p[o + 2], z1 = p[o + 5], z2 = p[o + 8];
+    const lowest = Math.min(z0, z1, z2);
+    if (lowest < this.minZ) this.minZ = lowest;
+
+    triangleCross(p, o, this.cross);
+    const doubleArea = Math.hypot(this.cross[0], this.cross[1], this.cross[2]);
+    if (doubleArea === 0) return;
+
+    // -n.z is the sine of the face's tilt away from vertical
+    const downward = -this.cross[2] / doubleArea;
+    if (downward <= this.threshold) return;
+
+    const area = doubleArea / 2;
+    const projected = -this.cross[2] / 2;
+    const centroidZ = (z0 + z1 + z2) / 3;
+
+    this.overhangArea += area;
+    this.projectedArea += projected;
+    this.projectedAreaTimesHeight += projected * centroidZ;
+
+    const highest = Math.max(z0, z1, z2);
+    if (highest < this.bedZ - BED_CONTACT_TOLERANCE) {
+      this.bedZ = highest;
+      this.bedArea = area;
+      this.bedProjectedArea = projected;
+    } else if (highest <= this.bedZ + BED_CONTACT_TOLERANCE) {
+      this.bedZ = Math.min(this.bedZ, highest);
+      this.bedArea += area;
+      this.bedProjectedArea += projected;
+    }
+  }
+
+  getAnalysis(): SupportAnalysis {
+    let overhangArea = this.overhangArea;
+    let projectedArea = this.projectedArea;
+    let bedContactArea = 0;
+
+    if (this.bedZ <= this.minZ + BED_CONTACT_TOLERANCE) {
+      overhangArea -= this.bedArea;
+      projectedArea -= this.bedProjectedArea;
+      bedContactArea = this.bedProjectedArea;
+    }
+
+    // Σ footprint × (z - bed) over every overhanging face; faces on the bed add nothing
+    const supportVolume = Number.isFinite(this.minZ)
+      ? this.projectedAreaTimesHeight - this.minZ * this.projectedArea
+      : 0;
+
+    return {
+      overhangAngle: this.overhangAngle,
+      overhangArea: Math.max(0, overhangArea),
+      supportContactArea: Math.max(0, projectedArea),
+      supportVolume: Math.max(0, supportVolume),
+      bedContactArea,
+    };
+  }
+}
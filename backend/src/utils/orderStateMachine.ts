@@ -0,0 +1,94 @@
+import { OrderStatus, UserRole } from '@prisma/client';
+
+// Which order status may follow which, and who may make the move. SYSTEM is the
+// platform itself: payment webhooks, print job updates, refunds. A status that is
+// not listed under another cannot follow it, so an order is never shipped before
+// it has been printed.
+
+export type StatusActorRole = UserRole | 'SYSTEM';
+
+export interface StatusActor {
+  id?: string; // user who made the change; none for SYSTEM
+  role: StatusActorRole;
+}
+
+export const SYSTEM_ACTOR: StatusActor = { role: 'SYSTEM' };
+
+const MANAGERS: StatusActorRole[] = ['ADMIN', 'MANAGER'];
+const OPERATORS: StatusActorRole[] = ['ADMIN', 'MANAGER', 'OPERATOR'];
+
+export const ORDER_TRANSITIONS: Record<OrderStatus, Partial<Record<OrderStatus, StatusActorRole[]>>> = {
+  PENDING_PAYMENT: {
+    PAYMENT_CONFIRMED: ['SYSTEM', 'ADMIN'], // admins record payments made outside Stripe
+    CANCELLED: ['CUSTOMER', ...MANAGERS, 'SYSTEM'],
+  },
+  PAYMENT_CONFIRMED: {
+    IN_QUEUE: [...OPERATORS, 'SYSTEM'],
+    PRINTING: [...OPERATORS, 'SYSTEM'],
+    CANCELLED: ['CUSTOMER', ...MANAGERS],
+    REFUNDED: ['SYSTEM'],
+  },
+  IN_QUEUE: {
+    PRINTING: [...OPERATORS, 'SYSTEM'],
+    CANCELLED: [...MANAGERS, 'SYSTEM'],
+    REFUNDED: ['SYSTEM'],
+  },
+  PRINTING: {
+    POST_PROCESSING: [...OPERATORS, 'SYSTEM'],
+    IN_QUEUE: OPERATORS, // failed print going back for a reprint
+    CANCELLED: [...MANAGERS, 'SYSTEM'],
+    REFUNDED: ['SYSTEM'],
+  },
+  POST_PROCESSING: {
+    READY_FOR_PICKUP: OPERATORS,
+    SHIPPED: OPERATORS,
+    IN_QUEUE: OPERATORS,
+    REFUNDED: ['SYSTEM'],
+  },
+  READY_FOR_PICKUP: {
+    COMPLETED: OPERATORS, // collected
+    SHIPPED: OPERATORS,
+    REFUNDED: ['SYSTEM'],
+  },
+  SHIPPED: {
+    DELIVERED: [...OPERATORS, 'SYSTEM'],
+    REFUNDED: ['SYSTEM'],
+  },
+  DELIVERED: {
+    COMPLETED: [...OPERATORS, 'SYSTEM'],
+    REFUNDED: ['SYSTEM'],
+  },
+  COMPLETED: {
+    REFUNDED: ['SYSTEM'],
+  },
+  CANCELLED: {
+    REFUNDED: ['SYSTEM'], // paid order cancelled, then refunded in full
+  },
+  REFUNDED: {},
+};
+
+export const isValidTransition = (from: OrderStatus, to: OrderStatus): boolean =>
+  ORDER_TRANSITIONS[from][to] !== undefined;
+
+export const mayTransition = (from: OrderStatus, to: OrderStatus, role: StatusActorRole): boolean =>
+  ORDER_TRANSITIONS[from][to]?.includes(role) ?? false;
+
+// Statuses this role can move the order to next, e.g. for the admin's status menu
+export const getNextStatuses = (from: OrderStatus, role: StatusActorRole): OrderStatus[] =>
+  (Object.keys(ORDER_TRANSITIONS[from]) as OrderStatus[]).filter(to => mayTransition(from, to, role));
+
+// Why this role cannot make the move, or null when it can. The status code lets a
+// route tell an impossible move (400) from one the role is not allowed (403).
+export const getTransitionError = (
+  from: OrderStatus,
+  to: OrderStatus,
+  role: StatusActorRole
+): { status: 400 | 403; error: string } | null => {
+  if (!isValidTransition(from, to)) {
+    return { status: 400, error: `Order cannot go from ${from} to ${to}` };
+  }
+  if (!mayTransition(from, to, role)) {
+    return { status: 403, error: `Insufficient permissions to move an order from ${from} to ${to}` };
+  }
+  return null;
+};
@@ -0,0 +1,153 @@
+import type { PricingCalculation } from '../../../shared/pricing';
+import { PricingSettings, QuantityDiscountTier } from '../services/pricingSettingsService';
+
+// The one place an order item's price is put together. The pricing service
+// gathers the inputs (file analysis, material, electricity, active settings) and
+// this turns them into the PricingCalculation that the API returns and that
+// order items are stored from. Every line is rounded to øre before it is added
+// up, so the total is exactly what the lines show.
+
+type ElectricityBreakdown = PricingCalculation['breakdown']['electricity'];
+type ExchangeRate = PricingCalculation['exchangeRate'];
+type CalculatedPricing = Omit<PricingCalculation, 'warnings' | 'pricingVersion' | 'organization' | 'currency' | 'exchangeRate'>;
+
+// Settings and material prices are kept in this currency; calculations are
+// converted from it at the end
+export const BASE_CURRENCY = 'DKK';
+
+export interface PricingInput {
+  materialUsage: number; // grams per copy
+  materialPricePerKg: number;
+  printTimeHours: number; // per copy
+  layerCount: number | null;
+  electricity: ElectricityBreakdown; // already priced for all copies
+  quantity: number;
+  copiesPerRun: number; // copies printed together on one plate
+  settings: PricingSettings;
+}
+
+// Binary floating point puts 1.005 just below 1.005, so the scaled value is
+// trimmed to 12 significant digits before rounding
+export const roundToOre = (amount: number): number =>
+  Math.round(parseFloat((amount * 100).toPrecision(12))) / 100;
+
+// The tier with the highest minimum the quantity reaches
+const findDiscountTier = (tiers: QuantityDiscountTier[], quantity: number): QuantityDiscountTier | null =>
+  tiers
+    .filter(tier => quantity >= tier.minQuantity)
+    .reduce<QuantityDiscountTier | null>((best, tier) => (!best || tier.minQuantity > best.minQuantity ? tier : best), null);
+
+export function calculatePricing(input: PricingInput): CalculatedPricing {
+  const { settings, quantity } = input;
+
+  const pricePerGram = input.materialPricePerKg / 1000;
+  const materialCost = roundToOre(input.materialUsage * pricePerGram * (1 + settings.materialMarkup / 100) * quantity);
+
+  const electricityCost = roundToOre(input.electricity.cost);
+
+  // Copies on the same plate share one setup, so setup is paid per run rather than per copy
+  const copiesPerRun = Math.max(1, Math.min(input.copiesPerRun, quantity));
+  const runs = Math.ceil(quantity / copiesPerRun);
+  const setupHours = runs * settings.setupHoursPerRun;
+  const laborHours = input.printTimeHours * quantity + setupHours;
+  const laborCost = roundToOre(laborHours * settings.laborRatePerHour);
+
+  // Electricity is passed on at cost, so the discount only comes off material and labour
+  const tier = findDiscountTier(settings.quantityDiscounts, quantity);
+  const discount = tier ? roundToOre((materialCost + laborCost) * (tier.percentage / 100)) : 0;
+
+  const subtotal = roundToOre(materialCost + electricityCost + laborCost - discount);
+  const platformFee = roundToOre(subtotal * (settings.platformFeePercentage / 100));
+
+  const calculatedTotal = roundToOre(subtotal + platformFee);
+  const minimumApplied = calculatedTotal < settings.minimumOrderValue;
+
+  return {
+    materialCost,
+    electricityCost,
+    laborCost,
+    discount,
+    platformFee,
+    totalCost: minimumApplied ? roundToOre(settings.minimumOrderValue) : calculatedTotal,
+    quantity,
+    breakdown: {
+      material: {
+        cost: materialCost,
+        usage: input.materialUsage * quantity,
+        pricePerGram,
+      },
+      electricity: { ...input.electricity, cost: electricityCost },
+      labor: {
+        cost: laborCost,
+        hours: laborHours,
+        ratePerHour: settings.laborRatePerHour,
+      },
+      batch: {
+        copiesPerRun,
+        runs,
+        setupHours,
+      },
+      discount: {
+        amount: discount,
+        percentage: tier ? tier.percentage : 0,
+        minQuantity: tier ? tier.minQuantity : null,
+      },
+      platform: {
+        fee: platformFee,
+        percentage: settings.platformFeePercentage,
+      },
+      printTime: {
+        hours: input.printTimeHours,
+        layerCount: input.layerCount,
+      },
+      minimumOrderValue: settings.minimumOrderValue,
+      minimumApplied,
+    },
+  };
+}
+
+// Express a calculation in another currency. Each line is converted and rounded on
+// its own and the total is added up again from the converted lines, so it still
+// matches them exactly. Unit prices are converted without rounding.
+export function convertPricing(
+  calculation: CalculatedPricing,
+  exchangeRate: ExchangeRate
+): Omit<PricingCalculation, 'warnings' | 'pricingVersion' | 'organization'> {
+  const { breakdown } = calculation;
+  const rate = (amount: number) => amount / exchangeRate.dkkPerUnit;
+  const convert = (amount: number) => roundToOre(rate(amount));
+
+  const materialCost = convert(calculation.materialCost);
+  const electricityCost = convert(calculation.electricityCost);
+  const laborCost = convert(calculation.laborCost);
+  const discount = convert(calculation.discount);
+  const platformFee = convert(calculation.platformFee);
+  const minimumOrderValue = convert(breakdown.minimumOrderValue);
+  const calculatedTotal = roundToOre(materialCost + electricityCost + laborCost - discount + platformFee);
+
+  return {
+    ...calculation,
+    materialCost,
+    electricityCost,
+    laborCost,
+    discount,
+    platformFee,
+    totalCost: breakdown.minimumApplied ? minimumOrderValue : calculatedTotal,
+    currency: exchangeRate.currency,
+    exchangeRate,
+    breakdown: {
+      ...breakdown,
+      material: { ...breakdown.material, cost: materialCost, pricePerGram: rate(breakdown.material.pricePerGram) },
+      electricity: {
+        ...breakdown.electricity,
+        cost: electricityCost,
+        pricePerKwh: rate(breakdown.electricity.pricePerKwh),
+        currency: exchangeRate.currency,
+      },
+      labor: { ...breakdown.labor, cost: laborCost, ratePerHour: rate(breakdown.labor.ratePerHour) },
+      discount: { ...breakdown.discount, amount: discount },
+      platform: { ...breakdown.platform, fee: platformFee },
+      minimumOrderValue,
+    },
+  };
+}
@@ -0,0 +1,139 @@
+import * as fs from 'fs';
+
+// Streams triangles out of an STL file without holding it in memory. Each
+// triangle is delivered in a reused scratch buffer (9 floats, mm) together with
+// its stored facet normal, so callers must copy anything they want to keep.
+
+export type STLTriangleVisitor = (positions: Float32Array, normal: Float32Array) => void;
+
+const HEADER_SIZE = 80;
+const RECORD_SIZE = 50; // normal (12) + 3 vertices (36) + attribute byte count (2)
+const READ_CHUNK_SIZE = 1024 * 1024;
+
+const readHead = async (filePath: string, length: number): Promise<Buffer> => {
+  const handle = await fs.promises.open(filePath, 'r');
+  try {
+    const buffer = Buffer.alloc(length);
+    const { bytesRead } = await handle.read(buffer, 0, length, 0);
+    return buffer.subarray(0, bytesRead);
+  } finally {
+    await handle.close();
+  }
+};
+
+export async function isBinarySTL(filePath: string): Promise<boolean> {
+  const { size } = await fs.promises.stat(filePath);
+  const head = await readHead(filePath, HEADER_SIZE + 4);
+  if (head.length < HEADER_SIZE + 4) {
+    return false;
+  }
+
+  // Some CAD tools start binary headers with "solid" too, so trust the size check first
+  const triangleCount = head.readUInt32LE(HEADER_SIZE);
+  if (size === HEADER_SIZE + 4 + triangleCount * RECORD_SIZE) {
+    return true;
+  }
+  return !/^\s*solid/.test(head.toString('latin1'));
+}
+
+export async function streamSTLTriangles(filePath: string, visit: STLTriangleVisitor): Promise<number> {
+  return (await isBinarySTL(filePath))
+    ? streamBinarySTL(filePath, visit)
+    : streamAsciiSTL(filePath, visit);
+}
+
+async function streamBinarySTL(filePath: string, visit: STLTriangleVisitor): Promise<number> {
+  const positions = new Float32Array(9);
+  const normal = new Float32Array(3);
+  const stream = fs.createReadStream(filePath, { start: HEADER_SIZE + 4, highWaterMark: READ_CHUNK_SIZE });
+  const declaredCount = (await readHead(filePath, HEADER_SIZE + 4)).readUInt32LE(HEADER_SIZE);
+
+  // Records straddle chunk boundaries; at most one partial record is carried over
+  let carry = Buffer.alloc(0);
+  let triangleCount = 0;
+
+  for await (const chunk of stream) {
+    const data: Buffer = carry.length > 0 ? Buffer.concat([carry, chunk as Buffer]) : chunk as Buffer;
+    let offset = 0;
+
+    while (offset + RECORD_SIZE <= data.length && triangleCount < declaredCount) {
+      normal[0] = data.readFloatLE(offset);
+      normal[1] = data.readFloatLE(offset + 4);
+      normal[2] = data.readFloatLE(offset + 8);
+      for (let k = 0; k < 9; k++) {
+        positions[k] = data.readFloatLE(offset + 12 + k * 4);
+      }
+      visit(positions, normal);
+      triangleCount++;
+      offset += RECORD_SIZE;
+    }
+
+    carry = Buffer.from(data.subarray(offset));
+  }
+
+  if (triangleCount === 0) {
+    throw new Error('STL file contains no triangles');
+  }
+  return triangleCount;
+}
+
+async function streamAsciiSTL(filePath: string, visit: STLTriangleVisitor): Promise<number> {
+  const positions = new Float32Array(9);
+  const normal = new Float32Array(3);
+  const polygon: number[] = [];
+  const stream = fs.createReadStream(filePath, { encoding: 'latin1', highWaterMark: READ_CHUNK_SIZE });
+
+  let carry = '';
+  let triangleCount = 0;
+
+  const emitFacet = () => {
+    // Facets are triangles in practice; fan-triangulate anything larger
+    for (let i = 3; i + 5 < polygon.length; i += 3) {
+      positions[0] = polygon[0]; positions[1] = polygon[1]; positions[2] = polygon[2];
+      for (let k = 0; k < 6; k++) {
+        positions[3 + k] = polygon[i + k];
+      }
+      visit(positions, normal);
+      triangleCount++;
+    }
+    polygon.length = 0;
+  };
+
+  const processLine = (line: string) => {
+    const parts = line.trim().split(/\s+/);
+    switch (parts[0]) {
+      case 'facet':
+        polygon.length = 0;
+        // "facet normal nx ny nz"
+        normal[0] = parseFloat(parts[2]) || 0;
+        normal[1] = parseFloat(parts[3]) || 0;
+        normal[2] = parseFloat(parts[4]) || 0;
+        break;
+      case 'vertex':
+        polygon.push(parseFloat(parts[1]), parseFloat(parts[2]), parseFloat(parts[3]));
+        break;
+      case 'endfacet':
+        emitFacet();
+        break;
+    }
+  };
+
+  for await (const chunk of stream) {
+    const text = carry + (chunk as string);
+    let lineStart = 0;
+    let lineEnd: number;
+    while ((lineEnd = text.indexOf('\n', lineStart)) !== -1) {
+      processLine(text.slice(lineStart, lineEnd));
+      lineStart = lineEnd + 1;
+    }
+    carry = text.slice(lineStart);
+  }
+  if (carry) {
+    processLine(carry);
+  }
+
+  if (triangleCount === 0) {
+    throw new Error('STL file contains no triangles');
+  }
+  return triangleCount;
+}
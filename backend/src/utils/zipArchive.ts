@@ -0,0 +1,190 @@
+import * as zlib from 'zlib';
+import { pipeline, Readable, Transform } from 'stream';
+
+// Minimal read-only ZIP reader used for 3MF packages (which are plain ZIP
+// containers). Supports stored and deflated entries plus ZIP64 sizes/offsets.
+
+interface ZipEntry {
+  name: string;
+  method: number; // 0 = stored, 8 = deflate
+  compressedSize: number;
+  uncompressedSize: number;
+  localHeaderOffset: number;
+}
+
+const EOCD_SIGNATURE = 0x06054b50;
+const EOCD64_LOCATOR_SIGNATURE = 0x07064b50;
+const EOCD64_SIGNATURE = 0x06064b50;
+const CENTRAL_DIRECTORY_SIGNATURE = 0x02014b50;
+const LOCAL_HEADER_SIGNATURE = 0x04034b50;
+const ZIP64_EXTRA_FIELD = 0x0001;
+const UINT32_MAX = 0xffffffff;
+
+// Largest entry we inflate, so a small upload cannot expand to gigabytes
+export const ZIP_MAX_ENTRY_SIZE = parseInt(process.env.ZIP_MAX_ENTRY_SIZE || '268435456'); // 256 MB
+
+export const isZipArchive = (data: Buffer): boolean =>
+  data.length >= 4 && data.readUInt32LE(0) === LOCAL_HEADER_SIGNATURE;
+
+export class ZipArchive {
+  private readonly entries = new Map<string, ZipEntry>();
+
+  constructor(private readonly data: Buffer) {
+    this.readCentralDirectory();
+  }
+
+  get fileNames(): string[] {
+    return Array.from(this.entries.keys());
+  }
+
+  has(name: string): boolean {
+    return this.entries.has(this.normalizeName(name));
+  }
+
+  read(name: string): Buffer {
+    const { entry, compressed } = this.locate(name);
+
+    switch (entry.method) {
+      case 0:
+        return compressed;
+      case 8:
+        // Never more than the entry declared; a bomb lying about its size fails here
+        return zlib.inflateRawSync(compressed, { maxOutputLength: Math.max(1, entry.uncompressedSize) });
+      default:
+        throw new Error(`Unsupported ZIP compression method ${entry.method} for ${entry.name}`);
+    }
+  }
+
+  readText(name: string): string {
+    return this.read(name).toString('utf8');
+  }
+
+  // Inflate an entry chunk by chunk on the zlib thread pool instead of all at once on
+  // the event loop, for callers that only keep part of it. Errors once the entry
+  // yields more than it declared.
+  createReadStream(name: string): Readable {
+    const { entry, compressed } = this.locate(name);
+    const source = Readable.from([compressed]);
+
+    switch (entry.method) {
+      case 0:
+        return source;
+      case 8: {
+        let inflated = 0;
+        const limit = new Transform({
+          transform(chunk: Buffer, _encoding, callback) {
+            inflated += chunk.length;
+            callback(inflated > entry.uncompressedSize ? new Error(`ZIP entry ${entry.name} is larger than declared`) : null, chunk);
+          },
+        });
+        return pipeline(source, zlib.createInflateRaw(), limit, () => undefined);
+      }
+      default:
+        throw new Error(`Unsupported ZIP compression method ${entry.method} for ${entry.name}`);
+    }
+  }
+
+  private locate(name: string): { entry: ZipEntry; compressed: Buffer } {
+    const entry = this.entries.get(this.normalizeName(name));
+    if (!entry) {
+      throw new Error(`ZIP entry not found: ${name}`);
+    }
+    if (entry.uncompressedSize > ZIP_MAX_ENTRY_SIZE) {
+      throw new Error(`ZIP entry ${entry.name} is too large (${entry.uncompressedSize} bytes)`);
+    }
+
+    const offset = entry.localHeaderOffset;
+    if (this.data.readUInt32LE(offset) !== LOCAL_HEADER_SIGNATURE) {
+      throw new Error(`Corrupt ZIP local header for ${entry.name}`);
+    }
+
+    // The local header repeats name/extra lengths which may differ from the central directory
+    const nameLength = this.data.readUInt16LE(offset + 26);
+    const extraLength = this.data.readUInt16LE(offset + 28);
+    const start = offset + 30 + nameLength + extraLength;
+    return { entry, compressed: this.data.subarray(start, start + entry.compressedSize) };
+  }
+
+  private normalizeName(name: string): string {
+    // 3MF part names are absolute ("/3D/3dmodel.model"), ZIP names are not
+    return name.replace(/^\/+/, '').replace(/\\/g, '/').toLowerCase();
+  }
+
+  private findEndOfCentralDirectory(): number {
+    // EOCD is at least 22 bytes and may be followed by a comment of up to 64 KiB
+    const minOffset = Math.max(0, this.data.length - 22 - 0xffff);
+    for (let offset = this.data.length - 22; offset >= minOffset; offset--) {
+      if (this.data.readUInt32LE(offset) === EOCD_SIGNATURE) {
+        return offset;
+      }
+    }
+    throw new Error('Not a valid ZIP archive: end of central directory not found');
+  }
+
+  private readCentralDirectory(): void {
+    const eocd = this.findEndOfCentralDirectory();
+    let entryCount = this.data.readUInt16LE(eocd + 10);
+    let directoryOffset = this.data.readUInt32LE(eocd + 16);
+
+    // ZIP64 archives store the real values in a separate record
+    const locator = eocd - 20;
+    if (locator >= 0 && this.data.readUInt32LE(locator) === EOCD64_LOCATOR_SIGNATURE) {
+      const eocd64 = Number(this.data.readBigUInt64LE(locator + 8));
+      if (this.data.readUInt32LE(eocd64) === EOCD64_SIGNATURE) {
+        entryCount = Number(this.data.readBigUInt64LE(eocd64 + 32));
+        directoryOffset = Number(this.data.readBigUInt64LE(eocd64 + 48));
+      }
+    }
+
+    let offset = directoryOffset;
+    for (let i = 0; i < entryCount; i++) {
+      if (this.data.readUInt32LE(offset) !== CENTRAL_DIRECTORY_SIGNATURE) {
+        throw new Error('Corrupt ZIP central directory');
+      }
+
+      const method = this.data.readUInt16LE(offset + 10);
+      let compressedSize = this.data.readUInt32LE(offset + 20);
+      let uncompressedSize = this.data.readUInt32LE(offset + 24);
+      const nameLength = this.data.readUInt16LE(offset + 28);
+      const extraLength = this.data.readUInt16LE(offset + 30);
+      const commentLength = this.data.readUInt16LE(offset + 32);
+      let localHeaderOffset = this.data.readUInt32LE(offset + 42);
+      const name = this.data.toString('utf8', offset + 46, offset + 46 + nameLength);
+
+      // ZIP64 extra field only carries the values that overflowed, in a fixed order
+      let extra = offset + 46 + nameLength;
+      const extraEnd = extra + extraLength;
+      while (extra + 4 <= extraEnd) {
+        const headerId = this.data.readUInt16LE(extra);
+        const size = this.data.readUInt16LE(extra + 2);
+        if (headerId === ZIP64_EXTRA_FIELD) {
+          let cursor = extra + 4;
+          if (uncompressedSize === UINT32_MAX) {
+            uncompressedSize = Number(this.data.readBigUInt64LE(cursor));
+            cursor += 8;
+          }
+          if (compressedSize === UINT32_MAX) {
+            compressedSize = Number(this.data.readBigUInt64LE(cursor));
+            cursor += 8;
+          }
+          if (localHeaderOffset === UINT32_MAX) {
+            localHeaderOffset = Number(this.data.readBigUInt64LE(cursor));
+          }
+        }
+        extra += 4 + size;
+      }
+
+      if (!name.endsWith('/')) {
+        this.entries.set(this.normalizeName(name), {
+          name,
+          method,
+          compressedSize,
+          uncompressedSize,
+          localHeaderOffset,
+        });
+      }
+
+      offset += 46 + nameLength + extraLength + commentLength;
+    }
+  }
+}
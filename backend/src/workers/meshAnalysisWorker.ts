@@ -0,0 +1,17 @@
+import { parentPort, workerData } from 'worker_threads';
+import { analyzeMesh, openTriangleSource, sliceMesh } from '../utils/meshAnalysis';
+import { SliceOptions } from '../utils/meshSlicer';
+
+// Runs the geometry pipeline off the request thread; see MeshWorker in STLAnalysisService.
+// The model is opened once: the analysis is answered first, then the orientation the
+// service picked from it is sliced when it sends the slice options.
+const source = openTriangleSource(workerData.filePath, workerData.format);
+
+const reply = (work: Promise<unknown>): Promise<void> => work
+  .then(result => parentPort!.postMessage({ result }))
+  .catch(error => parentPort!.postMessage({ error: error instanceof Error ? error.message : String(error) }));
+
+reply(source.then(mesh => analyzeMesh(mesh, workerData.options)));
+parentPort!.once('message', (options: SliceOptions) => {
+  reply(source.then(mesh => sliceMesh(mesh, options))).then(() => parentPort!.close());
+});
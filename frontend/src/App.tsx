@@ -4,6 +4,7 @@ import { ThemeProvider, createTheme } from '@mui/material/styles';
 import CssBaseline from '@mui/material/CssBaseline';
 import { Box } from '@mui/material';
 import { AuthProvider } from './contexts/AuthContext';
+import { CurrencyProvider } from './contexts/CurrencyContext';
 import LandingPage from './pages/LandingPage';
 import OrderForm from './pages/OrderForm';
 import Dashboard from './pages/Dashboard';
@@ -125,6 +126,7 @@ function App() {
     <ThemeProvider theme={theme}>
       <CssBaseline />
       <AuthProvider>
+        <CurrencyProvider>
         <Router>
           <Box sx={{ display: 'flex', flexDirection: 'column', minHeight: '100vh' }}>
             <Navbar />
@@ -162,6 +164,7 @@ function App() {
             <Footer />
           </Box>
         </Router>
+        </CurrencyProvider>
       </AuthProvider>
     </ThemeProvider>
   );
@@ -0,0 +1,40 @@
+import React from 'react';
+import {
+  FormControl,
+  Select,
+  MenuItem,
+  Box,
+  Typography,
+} from '@mui/material';
+import {
+  Payments as PaymentsIcon,
+} from '@mui/icons-material';
+import { useCurrency } from '../contexts/CurrencyContext';
+
+const CurrencySwitcher: React.FC = () => {
+  const { currency, rates, setCurrency } = useCurrency();
+
+  const handleCurrencyChange = (event: any) => {
+    setCurrency(event.target.value);
+  };
+
+  return (
+    <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+      <PaymentsIcon fontSize="small" />
+      <FormControl size="small" sx={{ minWidth: 90 }}>
+        <Select
+          value={currency}
+          onChange={handleCurrencyChange}
+        >
+          {rates.map((rate) => (
+            <MenuItem key={rate.currency} value={rate.currency}>
+              <Typography variant="body2">{rate.currency}</Typography>
+            </MenuItem>
+          ))}
+        </Select>
+      </FormControl>
+    </Box>
+  );
+};
+
+export default CurrencySwitcher;
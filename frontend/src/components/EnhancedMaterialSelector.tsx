@@ -25,6 +25,7 @@ import {
   Star as StarIcon,
 } from '@mui/icons-material';
 import { BAMBU_FILAMENTS, QUALITY_PRESETS, calculatePrintSettings, PrintMaterial, QualityPreset } from '../data/materials';
+import { useCurrency } from '../contexts/CurrencyContext';
 
 
 interface EnhancedMaterialSelectorProps {
@@ -46,6 +47,7 @@ const EnhancedMaterialSelector: React.FC<EnhancedMaterialSelectorProps> = ({
   onColorChange,
   disabled = false,
 }) => {
+  const { convertFromDkk, formatPrice } = useCurrency();
   const [tabValue, setTabValue] = useState(0);
   const [filterType, setFilterType] = useState('all');
   const [error, setError] = useState<string | null>(null);
@@ -149,7 +151,7 @@ const EnhancedMaterialSelector: React.FC<EnhancedMaterialSelectorProps> = ({
                         variant="outlined"
                       />
                       <Chip
-                        label={`€${material.costPerGram.toFixed(2)}/g`}
+                        label={`${formatPrice(convertFromDkk(material.costPerGram))}/g`}
                         size="small"
                         color="secondary"
                         variant="outlined"
@@ -387,7 +387,7 @@ const MaterialManagement: React.FC<MaterialManagementProps> = ({ isAdmin = false
                   
                   <TableCell>{material.density} g/cm³</TableCell>
                   
-                  <TableCell>€{material.costPerGram.toFixed(3)}</TableCell>
+                  <TableCell>{material.costPerGram.toFixed(3)} DKK</TableCell>
                   
                   <TableCell>
                     {material.printTempMin}°C - {material.printTempMax}°C
@@ -519,7 +519,7 @@ const MaterialManagement: React.FC<MaterialManagementProps> = ({ isAdmin = false
             <Grid size={{ xs: 12, sm: 6 }}>
               <TextField
                 fullWidth
-                label="Cost per Gram (€)"
+                label="Cost per Gram (DKK)"
                 type="number"
                 value={formData.costPerGram}
                 onChange={(e) => setFormData({ ...formData, costPerGram: parseFloat(e.target.value) || 0 })}
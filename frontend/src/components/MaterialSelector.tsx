@@ -32,6 +32,7 @@ import {
   Thermostat as ThermostatIcon,
   Scale as ScaleIcon,
 } from '@mui/icons-material';
+import { useCurrency } from '../contexts/CurrencyContext';
 
 interface PrintMaterial {
   id: string;
@@ -74,6 +75,7 @@ const MaterialSelector: React.FC<MaterialSelectorProps> = ({
   disabled = false,
   showDetails = true,
 }) => {
+  const { convertFromDkk, formatPrice } = useCurrency();
   const [materials, setMaterials] = useState<PrintMaterial[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
@@ -178,7 +180,7 @@ const MaterialSelector: React.FC<MaterialSelectorProps> = ({
                       {material.name}
                     </Typography>
                     <Typography variant="caption" color="text.secondary">
-                      {material.type} • €{material.costPerGram.toFixed(3)}/g • {availableColors.length} colors
+                      {material.type} • {formatPrice(convertFromDkk(material.costPerGram), undefined, 3)}/g • {availableColors.length} colors
                     </Typography>
                   </Box>
                   <Chip
@@ -266,7 +268,7 @@ const MaterialSelector: React.FC<MaterialSelectorProps> = ({
                 <Box display="flex" alignItems="center" gap={1} mb={1}>
                   <PaletteIcon color="primary" />
                   <Typography variant="body2" fontWeight={600}>
-                    Cost: €{selectedMaterial.costPerGram.toFixed(3)}/g
+                    Cost: {formatPrice(convertFromDkk(selectedMaterial.costPerGram), undefined, 3)}/g
                   </Typography>
                 </Box>
               </Grid>
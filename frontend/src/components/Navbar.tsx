@@ -28,6 +28,7 @@ import { Link, useNavigate } from 'react-router-dom';
 import { useTranslation } from 'react-i18next';
 import { useAuth } from '../contexts/AuthContext';
 import LanguageSwitcher from './LanguageSwitcher';
+import CurrencySwitcher from './CurrencySwitcher';
 
 const Navbar: React.FC = () => {
   const [mobileOpen, setMobileOpen] = useState(false);
@@ -156,6 +157,7 @@ const Navbar: React.FC = () => {
                 </Button>
               ))}
               <LanguageSwitcher />
+              <CurrencySwitcher />
               
               {isAuthenticated ? (
                 <>
@@ -0,0 +1,436 @@
+import React, { useState, useEffect } from 'react';
+import {
+  Box,
+  Typography,
+  Button,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  Paper,
+  Chip,
+  IconButton,
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  TextField,
+  Alert,
+  Snackbar,
+  Tooltip,
+  Switch,
+  FormControlLabel,
+  Divider,
+  List,
+  ListItem,
+  ListItemText,
+} from '@mui/material';
+import { Grid } from '@mui/material';
+import {
+  Add as AddIcon,
+  Edit as EditIcon,
+  PersonRemove as PersonRemoveIcon,
+  Refresh as RefreshIcon,
+} from '@mui/icons-material';
+
+interface Organization {
+  id: string;
+  name: string;
+  vatNumber: string | null;
+  vatNumberValidatedAt: string | null;
+  laborRatePerHour: number | null;
+  materialMarkup: number | null;
+  platformFeePercentage: number | null;
+  minimumOrderValue: number | null;
+  isActive: boolean;
+  notes: string | null;
+  _count?: { users: number };
+}
+
+interface Member {
+  id: string;
+  email: string;
+  firstName: string;
+  lastName: string;
+}
+
+// Rates are edited as text so an empty field can mean "use the price list"
+const RATE_FIELDS = [
+  { key: 'laborRatePerHour', label: 'Labour Rate (DKK/h)' },
+  { key: 'materialMarkup', label: 'Material Markup (%)' },
+  { key: 'platformFeePercentage', label: 'Platform Fee (%)' },
+  { key: 'minimumOrderValue', label: 'Minimum Order (DKK)' },
+] as const;
+
+type RateKey = typeof RATE_FIELDS[number]['key'];
+
+const emptyForm = {
+  name: '',
+  vatNumber: '',
+  notes: '',
+  isActive: true,
+  laborRatePerHour: '',
+  materialMarkup: '',
+  platformFeePercentage: '',
+  minimumOrderValue: '',
+};
+
+const OrganizationManagement: React.FC = () => {
+  const [organizations, setOrganizations] = useState<Organization[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [success, setSuccess] = useState<string | null>(null);
+  const [selectedOrganization, setSelectedOrganization] = useState<Organization | null>(null);
+  const [members, setMembers] = useState<Member[]>([]);
+  const [memberEmail, setMemberEmail] = useState('');
+  const [openDialog, setOpenDialog] = useState(false);
+  const [formData, setFormData] = useState(emptyForm);
+
+  const authHeaders = {
+    'Content-Type': 'application/json',
+    'Authorization': `Bearer ${localStorage.getItem('token')}`,
+  };
+
+  useEffect(() => {
+    fetchOrganizations();
+  }, []);
+
+  const fetchOrganizations = async () => {
+    try {
+      setLoading(true);
+      const response = await fetch('/api/admin/organizations?includeInactive=true', { headers: authHeaders });
+      if (!response.ok) throw new Error('Failed to fetch organizations');
+
+      setOrganizations(await response.json());
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to fetch organizations');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const fetchMembers = async (organizationId: string) => {
+    const response = await fetch(`/api/admin/organizations/${organizationId}`, { headers: authHeaders });
+    if (response.ok) {
+      const data = await response.json();
+      setMembers(data.users || []);
+    }
+  };
+
+  const handleSave = async () => {
+    const rates = Object.fromEntries(
+      RATE_FIELDS.map(({ key }) => [key, formData[key] === '' ? null : parseFloat(formData[key])])
+    );
+    const body = {
+      name: formData.name,
+      vatNumber: formData.vatNumber || null,
+      notes: formData.notes || null,
+      isActive: formData.isActive,
+      ...rates,
+    };
+
+    try {
+      const response = await fetch(
+        selectedOrganization ? `/api/admin/organizations/${selectedOrganization.id}` : '/api/admin/organizations',
+        {
+          method: selectedOrganization ? 'PATCH' : 'POST',
+          headers: authHeaders,
+          body: JSON.stringify(body),
+        }
+      );
+      if (!response.ok) {
+        const data = await response.json().catch(() => ({}));
+        throw new Error(data.error || 'Failed to save organization');
+      }
+
+      setSuccess(selectedOrganization ? 'Organization updated successfully' : 'Organization created successfully');
+      setOpenDialog(false);
+      fetchOrganizations();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save organization');
+    }
+  };
+
+  const handleAddMember = async () => {
+    if (!selectedOrganization || !memberEmail) return;
+
+    try {
+      const search = await fetch(`/api/admin/users?search=${encodeURIComponent(memberEmail)}`, { headers: authHeaders });
+      if (!search.ok) throw new Error('Failed to find user');
+      const { users } = await search.json();
+      const user = (users || []).find((candidate: Member) => candidate.email.toLowerCase() === memberEmail.toLowerCase());
+      if (!user) throw new Error(`No user with email ${memberEmail}`);
+
+      const response = await fetch(`/api/admin/organizations/${selectedOrganization.id}/members/${user.id}`, {
+        method: 'PUT',
+        headers: authHeaders,
+      });
+      if (!response.ok) throw new Error('Failed to add member');
+
+      setMemberEmail('');
+      fetchMembers(selectedOrganization.id);
+      fetchOrganizations();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to add member');
+    }
+  };
+
+  const handleRemoveMember = async (userId: string) => {
+    if (!selectedOrganization) return;
+
+    try {
+      const response = await fetch(`/api/admin/organizations/${selectedOrganization.id}/members/${userId}`, {
+        method: 'DELETE',
+        headers: authHeaders,
+      });
+      if (!response.ok) throw new Error('Failed to remove member');
+
+      fetchMembers(selectedOrganization.id);
+      fetchOrganizations();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to remove member');
+    }
+  };
+
+  const handleOpenCreateDialog = () => {
+    setSelectedOrganization(null);
+    setMembers([]);
+    setFormData(emptyForm);
+    setOpenDialog(true);
+  };
+
+  const handleEditOrganization = (organization: Organization) => {
+    setSelectedOrganization(organization);
+    setFormData({
+      name: organization.name,
+      vatNumber: organization.vatNumber || '',
+      notes: organization.notes || '',
+      isActive: organization.isActive,
+      laborRatePerHour: organization.laborRatePerHour?.toString() ?? '',
+      materialMarkup: organization.materialMarkup?.toString() ?? '',
+      platformFeePercentage: organization.platformFeePercentage?.toString() ?? '',
+      minimumOrderValue: organization.minimumOrderValue?.toString() ?? '',
+    });
+    fetchMembers(organization.id);
+    setOpenDialog(true);
+  };
+
+  const formatRate = (value: number | null, suffix: string) =>
+    value === null ? <Typography variant="body2" color="text.secondary">Price list</Typography> : `${value}${suffix}`;
+
+  if (loading) {
+    return (
+      <Box display="flex" justifyContent="center" alignItems="center" minHeight="400px">
+        <Typography>Loading organizations...</Typography>
+      </Box>
+    );
+  }
+
+  return (
+    <Box>
+      {/* Header */}
+      <Box display="flex" justifyContent="space-between" alignItems="center" mb={3}>
+        <Box>
+          <Typography variant="h4" gutterBottom>
+            Organizations
+          </Typography>
+          <Typography variant="body1" color="text.secondary">
+            Business and school accounts with negotiated rates
+          </Typography>
+        </Box>
+
+        <Box display="flex" gap={2}>
+          <Button startIcon={<RefreshIcon />} onClick={fetchOrganizations} variant="outlined">
+            Refresh
+          </Button>
+          <Button variant="contained" startIcon={<AddIcon />} onClick={handleOpenCreateDialog} size="large">
+            Add Organization
+          </Button>
+        </Box>
+      </Box>
+
+      {/* Organizations Table */}
+      <TableContainer component={Paper}>
+        <Table>
+          <TableHead>
+            <TableRow>
+              <TableCell>Organization</TableCell>
+              <TableCell>Labour Rate</TableCell>
+              <TableCell>Material Markup</TableCell>
+              <TableCell>Platform Fee</TableCell>
+              <TableCell>Minimum Order</TableCell>
+              <TableCell>Members</TableCell>
+              <TableCell>Status</TableCell>
+              <TableCell>Actions</TableCell>
+            </TableRow>
+          </TableHead>
+          <TableBody>
+            {organizations.map((organization) => (
+              <TableRow key={organization.id} hover>
+                <TableCell>
+                  <Typography variant="subtitle2" fontWeight={600}>
+                    {organization.name}
+                  </Typography>
+                  {organization.vatNumber && (
+                    <Typography variant="caption" color="text.secondary">
+                      VAT: {organization.vatNumber}
+                      {organization.vatNumberValidatedAt ? ' (validated, reverse charge)' : ' (not validated)'}
+                    </Typography>
+                  )}
+                </TableCell>
+                <TableCell>{formatRate(organization.laborRatePerHour, ' DKK/h')}</TableCell>
+                <TableCell>{formatRate(organization.materialMarkup, '%')}</TableCell>
+                <TableCell>{formatRate(organization.platformFeePercentage, '%')}</TableCell>
+                <TableCell>{formatRate(organization.minimumOrderValue, ' DKK')}</TableCell>
+                <TableCell>{organization._count?.users ?? 0}</TableCell>
+                <TableCell>
+                  <Chip
+                    label={organization.isActive ? 'Active' : 'Inactive'}
+                    color={organization.isActive ? 'success' : 'default'}
+                    size="small"
+                  />
+                </TableCell>
+                <TableCell>
+                  <Tooltip title="Edit Organization">
+                    <IconButton size="small" onClick={() => handleEditOrganization(organization)}>
+                      <EditIcon />
+                    </IconButton>
+                  </Tooltip>
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </TableContainer>
+
+      {/* Create/Edit Dialog */}
+      <Dialog open={openDialog} onClose={() => setOpenDialog(false)} maxWidth="md" fullWidth>
+        <DialogTitle>
+          {selectedOrganization ? 'Edit Organization' : 'Create New Organization'}
+        </DialogTitle>
+
+        <DialogContent>
+          <Grid container spacing={2} sx={{ mt: 1 }}>
+            <Grid size={{ xs: 12, sm: 6 }}>
+              <TextField
+                fullWidth
+                label="Name"
+                value={formData.name}
+                onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+                required
+              />
+            </Grid>
+
+            <Grid size={{ xs: 12, sm: 6 }}>
+              <TextField
+                fullWidth
+                label="VAT Number"
+                value={formData.vatNumber}
+                onChange={(e) => setFormData({ ...formData, vatNumber: e.target.value })}
+                helperText="With country prefix, e.g. DE123456789. Checked in VIES on save."
+              />
+            </Grid>
+
+            {RATE_FIELDS.map(({ key, label }) => (
+              <Grid key={key} size={{ xs: 12, sm: 6 }}>
+                <TextField
+                  fullWidth
+                  label={label}
+                  type="number"
+                  value={formData[key as RateKey]}
+                  onChange={(e) => setFormData({ ...formData, [key]: e.target.value })}
+                  helperText="Leave empty to use the price list"
+                  inputProps={{ step: 0.01, min: 0 }}
+                />
+              </Grid>
+            ))}
+
+            <Grid size={{ xs: 12 }}>
+              <TextField
+                fullWidth
+                label="Notes"
+                value={formData.notes}
+                onChange={(e) => setFormData({ ...formData, notes: e.target.value })}
+                multiline
+                rows={2}
+              />
+            </Grid>
+
+            <Grid size={{ xs: 12 }}>
+              <FormControlLabel
+                control={
+                  <Switch
+                    checked={formData.isActive}
+                    onChange={(e) => setFormData({ ...formData, isActive: e.target.checked })}
+                  />
+                }
+                label="Active"
+              />
+            </Grid>
+          </Grid>
+
+          {selectedOrganization && (
+            <Box sx={{ mt: 2 }}>
+              <Divider sx={{ mb: 2 }} />
+              <Typography variant="h6" gutterBottom>
+                Members
+              </Typography>
+              <List dense>
+                {members.map((member) => (
+                  <ListItem
+                    key={member.id}
+                    secondaryAction={
+                      <Tooltip title="Remove from organization">
+                        <IconButton edge="end" onClick={() => handleRemoveMember(member.id)}>
+                          <PersonRemoveIcon />
+                        </IconButton>
+                      </Tooltip>
+                    }
+                  >
+                    <ListItemText primary={`${member.firstName} ${member.lastName}`} secondary={member.email} />
+                  </ListItem>
+                ))}
+              </List>
+              <Box display="flex" gap={1}>
+                <TextField
+                  size="small"
+                  label="User email"
+                  value={memberEmail}
+                  onChange={(e) => setMemberEmail(e.target.value)}
+                  sx={{ flexGrow: 1 }}
+                />
+                <Button variant="outlined" onClick={handleAddMember} disabled={!memberEmail}>
+                  Add Member
+                </Button>
+              </Box>
+            </Box>
+          )}
+        </DialogContent>
+
+        <DialogActions>
+          <Button onClick={() => setOpenDialog(false)}>Cancel</Button>
+          <Button onClick={handleSave} variant="contained" disabled={!formData.name}>
+            {selectedOrganization ? 'Update' : 'Create'}
+          </Button>
+        </DialogActions>
+      </Dialog>
+
+      {/* Snackbars */}
+      <Snackbar open={!!error} autoHideDuration={6000} onClose={() => setError(null)}>
+        <Alert severity="error" onClose={() => setError(null)}>
+          {error}
+        </Alert>
+      </Snackbar>
+
+      <Snackbar open={!!success} autoHideDuration={6000} onClose={() => setSuccess(null)}>
+        <Alert severity="success" onClose={() => setSuccess(null)}>
+          {success}
+        </Alert>
+      </Snackbar>
+    </Box>
+  );
+};
+
+export default OrganizationManagement;
@@ -24,37 +24,13 @@ import {
   Info as InfoIcon,
 } from '@mui/icons-material';
 import PricingDisplay from './PricingDisplay';
-
-interface PricingCalculation {
-  materialCost: number;
-  electricityCost: number;
-  laborCost: number;
-  platformFee: number;
-  totalCost: number;
-  breakdown: {
-    material: {
-      cost: number;
-      usage: number;
-      pricePerGram: number;
-    };
-    electricity: {
-      cost: number;
-      consumption: number;
-      pricePerKwh: number;
-    };
-    labor: {
-      cost: number;
-      hours: number;
-      ratePerHour: number;
-    };
-    platform: {
-      fee: number;
-      percentage: number;
-    };
-  };
-}
+import { useAuth } from '../contexts/AuthContext';
+import { useCurrency } from '../contexts/CurrencyContext';
+import type { PricingCalculation, PricingRequest, VolumePricingRequest } from '../../../shared/pricing';
 
 interface PricingCalculatorProps {
+  stlFileId?: string; // uploaded file; priced exactly as the order item will be
+  materialId?: string;
   stlAnalysis?: {
     volume: number;
     dimensions: {
@@ -72,9 +48,13 @@ interface PricingCalculatorProps {
 }
 
 const PricingCalculator: React.FC<PricingCalculatorProps> = ({
+  stlFileId,
+  materialId,
   stlAnalysis,
   onPricingChange,
 }) => {
+  const { token } = useAuth();
+  const { currency } = useCurrency();
   const [pricing, setPricing] = useState<PricingCalculation | null>(null);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
@@ -83,26 +63,26 @@ const PricingCalculator: React.FC<PricingCalculatorProps> = ({
     printQuality: 'normal',
     layerHeight: 0.2,
     infillPercentage: 20,
-    wallThickness: 0.8,
-    supportDensity: 20,
     quantity: 1,
   });
 
   const materialOptions = [
-    { value: 'PLA', label: 'PLA', density: 1.24, costPerKg: 80 },
-    { value: 'PETG', label: 'PETG', density: 1.27, costPerKg: 100 },
-    { value: 'ABS', label: 'ABS', density: 1.04, costPerKg: 90 },
-    { value: 'TPU', label: 'TPU', density: 1.20, costPerKg: 140 },
-    { value: 'ASA', label: 'ASA', density: 1.05, costPerKg: 120 },
+    { value: 'PLA', label: 'PLA' },
+    { value: 'PETG', label: 'PETG' },
+    { value: 'ABS', label: 'ABS' },
+    { value: 'TPU', label: 'TPU' },
+    { value: 'ASA', label: 'ASA' },
   ];
 
   const qualityOptions = [
-    { value: 'draft', label: 'Draft', layerHeight: 0.3, infill: 15, speed: 1.5 },
-    { value: 'normal', label: 'Normal', layerHeight: 0.2, infill: 20, speed: 1.0 },
-    { value: 'high', label: 'High', layerHeight: 0.1, infill: 30, speed: 0.7 },
+    { value: 'draft', label: 'Draft', layerHeight: 0.3, infill: 15 },
+    { value: 'normal', label: 'Normal', layerHeight: 0.2, infill: 20 },
+    { value: 'high', label: 'High', layerHeight: 0.1, infill: 30 },
   ];
 
-  const calculatePricing = async () => {
+  // Prices come from the backend's pricing engine only; an uploaded file is priced from its
+  // analysis, anything else from the volume
+  const calculatePricing = async (signal?: AbortSignal) => {
     if (!stlAnalysis) {
       setError('No STL analysis available');
       return;
@@ -112,106 +92,45 @@ const PricingCalculator: React.FC<PricingCalculatorProps> = ({
     setError(null);
 
     try {
-      // Calculate material usage
-      const selectedMaterial = materialOptions.find(m => m.value === settings.materialType);
-      const materialDensity = selectedMaterial?.density || 1.24;
-      const materialCostPerKg = selectedMaterial?.costPerKg || 80;
-      
-      // Calculate material usage based on volume and infill
-      const baseVolume = stlAnalysis.volume; // cm³
-      const infillVolume = baseVolume * (settings.infillPercentage / 100);
-      const wallVolume = calculateWallVolume(stlAnalysis.dimensions, settings.wallThickness);
-      const supportVolume = settings.supportRequired ? calculateSupportVolume(stlAnalysis.dimensions, settings) : 0;
-      
-      const totalVolume = infillVolume + wallVolume + supportVolume;
-      const materialUsage = totalVolume * materialDensity; // grams
-      const materialCost = (materialUsage * materialCostPerKg / 1000) * 1.3; // 30% markup
-
-      // Calculate print time
-      const printTime = calculatePrintTime(stlAnalysis, settings);
-
-      // Calculate electricity cost (200W average, current price ~0.5 DKK/kWh)
-      const electricityConsumption = (printTime * 200) / 1000; // kWh
-      const electricityCost = electricityConsumption * 0.5; // Current price
-
-      // Calculate labor cost (150 DKK/hour)
-      const laborHours = printTime * 1.2; // 20% overhead
-      const laborCost = laborHours * 150;
-
-      // Calculate platform fee (15%)
-      const subtotal = materialCost + electricityCost + laborCost;
-      const platformFee = subtotal * 0.15;
-
-      // Calculate total
-      const totalCost = Math.max(subtotal + platformFee, 50); // 50 DKK minimum
+      const printSettings = {
+        layerHeight: settings.layerHeight,
+        infillPercentage: settings.infillPercentage,
+        printQuality: settings.printQuality,
+      };
+      const [url, body]: [string, PricingRequest | VolumePricingRequest] = stlFileId && materialId
+        ? ['/api/pricing/calculate', { stlFileId, materialId, printSettings, quantity: settings.quantity, currency }]
+        : ['/api/pricing/calculate-volume', {
+          volume: stlAnalysis.volume,
+          materialType: settings.materialType,
+          printSettings,
+          quantity: settings.quantity,
+          currency,
+        }];
 
-      const pricingResult: PricingCalculation = {
-        materialCost: materialCost * settings.quantity,
-        electricityCost: electricityCost * settings.quantity,
-        laborCost: laborCost * settings.quantity,
-        platformFee: platformFee * settings.quantity,
-        totalCost: totalCost * settings.quantity,
-        breakdown: {
-          material: {
-            cost: materialCost * settings.quantity,
-            usage: materialUsage * settings.quantity,
-            pricePerGram: materialCostPerKg / 1000,
-          },
-          electricity: {
-            cost: electricityCost * settings.quantity,
-            consumption: electricityConsumption * settings.quantity,
-            pricePerKwh: 0.5,
-          },
-          labor: {
-            cost: laborCost * settings.quantity,
-            hours: laborHours * settings.quantity,
-            ratePerHour: 150,
-          },
-          platform: {
-            fee: platformFee * settings.quantity,
-            percentage: 15,
-          },
+      const response = await fetch(url, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          ...(token && { 'Authorization': `Bearer ${token}` }), // organization rates
         },
-      };
+        body: JSON.stringify(body),
+        signal,
+      });
+      if (!response.ok) {
+        throw new Error('Failed to calculate pricing');
+      }
 
+      const pricingResult: PricingCalculation = await response.json();
       setPricing(pricingResult);
       onPricingChange?.(pricingResult);
     } catch (err) {
+      if (signal?.aborted) return; // superseded by newer settings
       setError(err instanceof Error ? err.message : 'Failed to calculate pricing');
     } finally {
-      setLoading(false);
+      if (!signal?.aborted) setLoading(false);
     }
   };
 
-  const calculateWallVolume = (dimensions: any, wallThickness: number) => {
-    const perimeter = 2 * (dimensions.width + dimensions.depth);
-    const height = dimensions.height;
-    const wallThicknessCm = wallThickness / 10;
-    return perimeter * height * wallThicknessCm;
-  };
-
-  const calculateSupportVolume = (dimensions: any, settings: any) => {
-    const baseArea = dimensions.width * dimensions.depth;
-    const supportHeight = dimensions.height * 0.3;
-    const supportDensity = settings.supportDensity / 100;
-    return baseArea * supportHeight * supportDensity;
-  };
-
-  const calculatePrintTime = (analysis: any, settings: any) => {
-    const quality = qualityOptions.find(q => q.value === settings.printQuality);
-    const speedMultiplier = quality?.speed || 1.0;
-    
-    // Base time calculation
-    const layerCount = Math.ceil(analysis.dimensions.height * 10 / settings.layerHeight);
-    const baseTime = layerCount * 0.1; // 0.1 hours per layer
-    
-    // Adjust for quality and material
-    const materialMultiplier = settings.materialType === 'TPU' ? 0.5 : 1.0;
-    const infillMultiplier = 1 + (settings.infillPercentage / 100);
-    
-    return baseTime * speedMultiplier * materialMultiplier * infillMultiplier;
-  };
-
   const handleSettingChange = (key: string, value: any) => {
     setSettings(prev => ({ ...prev, [key]: value }));
   };
@@ -230,9 +149,11 @@ const PricingCalculator: React.FC<PricingCalculatorProps> = ({
 
   useEffect(() => {
     if (stlAnalysis) {
-      calculatePricing();
+      const controller = new AbortController();
+      calculatePricing(controller.signal);
+      return () => controller.abort();
     }
-  }, [stlAnalysis, settings]);
+  }, [stlAnalysis, stlFileId, materialId, settings, token, currency]);
 
   if (!stlAnalysis) {
     return (
@@ -260,7 +181,7 @@ const PricingCalculator: React.FC<PricingCalculatorProps> = ({
                 >
                   {materialOptions.map((material) => (
                     <MenuItem key={material.value} value={material.value}>
-                      {material.label} ({material.density}g/cm³, {material.costPerKg} DKK/kg)
+                      {material.label}
                     </MenuItem>
                   ))}
                 </Select>
@@ -356,7 +277,7 @@ const PricingCalculator: React.FC<PricingCalculatorProps> = ({
             <Button
               variant="contained"
               startIcon={<CalculateIcon />}
-              onClick={calculatePricing}
+              onClick={() => calculatePricing()}
               disabled={loading}
             >
               {loading ? 'Calculating...' : 'Recalculate'}
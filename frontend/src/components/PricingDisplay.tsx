@@ -25,38 +25,10 @@ import {
   AttachMoney as MoneyIcon,
   TrendingUp as TrendingIcon,
 } from '@mui/icons-material';
-
-interface PricingBreakdown {
-  materialCost: number;
-  electricityCost: number;
-  laborCost: number;
-  platformFee: number;
-  totalCost: number;
-  breakdown: {
-    material: {
-      cost: number;
-      usage: number;
-      pricePerGram: number;
-    };
-    electricity: {
-      cost: number;
-      consumption: number;
-      pricePerKwh: number;
-    };
-    labor: {
-      cost: number;
-      hours: number;
-      ratePerHour: number;
-    };
-    platform: {
-      fee: number;
-      percentage: number;
-    };
-  };
-}
+import type { PricingCalculation } from '../../../shared/pricing';
 
 interface PricingDisplayProps {
-  pricing: PricingBreakdown | null;
+  pricing: PricingCalculation | null;
   loading?: boolean;
   error?: string | null;
   showDetails?: boolean;
@@ -72,10 +44,11 @@ const PricingDisplay: React.FC<PricingDisplayProps> = ({
 }) => {
   const [showTooltip, setShowTooltip] = useState(false);
 
+  // Every amount in a calculation is in its currency, including the unit prices
   const formatCurrency = (amount: number) => {
     return new Intl.NumberFormat('da-DK', {
       style: 'currency',
-      currency: 'DKK',
+      currency: pricing?.currency || 'DKK',
       minimumFractionDigits: 2,
     }).format(amount);
   };
@@ -129,7 +102,7 @@ const PricingDisplay: React.FC<PricingDisplayProps> = ({
           variant="outlined"
         />
         <Chip
-          label={`${formatNumber(pricing.breakdown.labor.hours, 1)}h print time`}
+          label={`${formatNumber(pricing.breakdown.printTime.hours * pricing.quantity, 1)}h print time`}
           size="small"
           color="secondary"
           variant="outlined"
@@ -229,6 +202,28 @@ const PricingDisplay: React.FC<PricingDisplayProps> = ({
                   </TableCell>
                 </TableRow>
 
+                {pricing.breakdown.discount.amount > 0 && (
+                  <TableRow>
+                    <TableCell>
+                      <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+                        <MoneyIcon color="success" fontSize="small" />
+                        <Typography variant="body2">Quantity Discount</Typography>
+                      </Box>
+                    </TableCell>
+                    <TableCell align="right">
+                      {pricing.breakdown.discount.minQuantity}+ copies
+                    </TableCell>
+                    <TableCell align="right">
+                      {formatNumber(pricing.breakdown.discount.percentage)}%
+                    </TableCell>
+                    <TableCell align="right">
+                      <Typography variant="body2" sx={{ fontWeight: 600 }}>
+                        -{formatCurrency(pricing.breakdown.discount.amount)}
+                      </Typography>
+                    </TableCell>
+                  </TableRow>
+                )}
+
                 <TableRow>
                   <TableCell>
                     <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
@@ -262,6 +257,36 @@ const PricingDisplay: React.FC<PricingDisplayProps> = ({
           </Typography>
         </Box>
 
+        {pricing.breakdown.batch.runs < pricing.quantity && (
+          <Typography variant="body2" color="text.secondary" sx={{ mt: 1 }}>
+            {pricing.quantity} copies printed in {pricing.breakdown.batch.runs} run(s) of up to {pricing.breakdown.batch.copiesPerRun}, sharing setup
+          </Typography>
+        )}
+
+        {pricing.organization && (
+          <Typography variant="body2" color="text.secondary" sx={{ mt: 1 }}>
+            Negotiated rates for {pricing.organization.name}
+          </Typography>
+        )}
+
+        {pricing.quote && (
+          <Typography variant="body2" color="text.secondary" sx={{ mt: 1 }}>
+            Price locked until {new Date(pricing.quote.expiresAt).toLocaleString('da-DK')}
+          </Typography>
+        )}
+
+        {pricing.breakdown.minimumApplied && (
+          <Typography variant="body2" color="text.secondary" sx={{ mt: 1 }}>
+            Minimum order value of {formatCurrency(pricing.breakdown.minimumOrderValue)} applies
+          </Typography>
+        )}
+
+        {pricing.warnings.map((warning) => (
+          <Alert key={warning} severity="warning" sx={{ mt: 1 }}>
+            {warning}
+          </Alert>
+        ))}
+
         <Box sx={{ mt: 2, p: 2, bgcolor: 'grey.50', borderRadius: 1 }}>
           <Typography variant="body2" color="text.secondary" sx={{ mb: 1 }}>
             <strong>What's included:</strong>
@@ -0,0 +1,83 @@
+import React, { createContext, useContext, useState, useEffect, useCallback, ReactNode } from 'react';
+import type { CurrencyRate } from '../../../shared/pricing';
+
+export interface CurrencyContextType {
+  currency: string;
+  rates: CurrencyRate[]; // currencies with a rate, DKK first
+  setCurrency: (currency: string) => void;
+  // For DKK list prices shown outside a calculation, e.g. material prices per gram
+  convertFromDkk: (amount: number) => number;
+  formatPrice: (amount: number, currency?: string, decimals?: number) => string;
+}
+
+const CurrencyContext = createContext<CurrencyContextType | undefined>(undefined);
+
+export const useCurrency = () => {
+  const context = useContext(CurrencyContext);
+  if (context === undefined) {
+    throw new Error('useCurrency must be used within a CurrencyProvider');
+  }
+  return context;
+};
+
+interface CurrencyProviderProps {
+  children: ReactNode;
+}
+
+const API_BASE_URL = process.env.REACT_APP_API_URL || 'http://localhost:5000/api';
+const BASE_CURRENCY = 'DKK';
+
+// Prices come from the backend already converted; this only picks the currency
+// they are asked for in and formats them the same way everywhere
+export const CurrencyProvider: React.FC<CurrencyProviderProps> = ({ children }) => {
+  const [currency, setCurrencyState] = useState<string>(localStorage.getItem('currency') || BASE_CURRENCY);
+  const [rates, setRates] = useState<CurrencyRate[]>([{ currency: BASE_CURRENCY, dkkPerUnit: 1, effectiveFrom: null }]);
+
+  useEffect(() => {
+    const fetchRates = async () => {
+      try {
+        const response = await fetch(`${API_BASE_URL}/pricing/currencies`);
+        if (!response.ok) {
+          return;
+        }
+        const data = await response.json();
+        setRates(data.rates);
+        // A currency whose rate has been removed falls back to DKK
+        if (!data.rates.some((rate: CurrencyRate) => rate.currency === localStorage.getItem('currency'))) {
+          setCurrencyState(BASE_CURRENCY);
+        }
+      } catch (error) {
+        console.error('Failed to fetch currencies:', error);
+      }
+    };
+
+    fetchRates();
+  }, []);
+
+  const setCurrency = (newCurrency: string) => {
+    localStorage.setItem('currency', newCurrency);
+    setCurrencyState(newCurrency);
+  };
+
+  const convertFromDkk = useCallback(
+    (amount: number) => amount / (rates.find(rate => rate.currency === currency)?.dkkPerUnit || 1),
+    [currency, rates]
+  );
+
+  const formatPrice = useCallback(
+    (amount: number, amountCurrency: string = currency, decimals: number = 2) =>
+      new Intl.NumberFormat('da-DK', {
+        style: 'currency',
+        currency: amountCurrency,
+        minimumFractionDigits: decimals,
+        maximumFractionDigits: decimals,
+      }).format(amount),
+    [currency]
+  );
+
+  return (
+    <CurrencyContext.Provider value={{ currency, rates, setCurrency, convertFromDkk, formatPrice }}>
+      {children}
+    </CurrencyContext.Provider>
+  );
+};
@@ -54,6 +54,7 @@ interface Order {
   orderNumber: string;
   status: string;
   totalAmount: number;
+  currency: string;
   createdAt: string;
   user: {
     firstName: string;
@@ -337,7 +338,7 @@ const AdminDashboard: React.FC = () => {
                           size="small"
                         />
                       </TableCell>
-                      <TableCell>€{order.totalAmount.toFixed(2)}</TableCell>
+                      <TableCell>{order.totalAmount.toFixed(2)} {order.currency}</TableCell>
                       <TableCell>
                         {new Date(order.createdAt).toLocaleDateString()}
                       </TableCell>
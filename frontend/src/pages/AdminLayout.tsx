@@ -19,12 +19,14 @@ import {
   Menu as MenuIcon,
   Dashboard as DashboardIcon,
   Inventory as InventoryIcon,
+  Business as BusinessIcon,
   Settings as SettingsIcon,
   ExitToApp as LogoutIcon,
 } from '@mui/icons-material';
 import { useNavigate } from 'react-router-dom';
 import AdminDashboard from './AdminDashboard';
 import MaterialManagement from '../components/MaterialManagement';
+import OrganizationManagement from '../components/OrganizationManagement';
 
 const AdminLayout: React.FC = () => {
   const theme = useTheme();
@@ -49,6 +51,7 @@ const AdminLayout: React.FC = () => {
   const menuItems = [
     { id: 'dashboard', label: 'Dashboard', icon: <DashboardIcon /> },
     { id: 'materials', label: 'Material Management', icon: <InventoryIcon /> },
+    { id: 'organizations', label: 'Organizations', icon: <BusinessIcon /> },
     { id: 'settings', label: 'Settings', icon: <SettingsIcon /> },
   ];
 
@@ -58,6 +61,8 @@ const AdminLayout: React.FC = () => {
         return <AdminDashboard />;
       case 'materials':
         return <MaterialManagement />;
+      case 'organizations':
+        return <OrganizationManagement />;
       case 'settings':
         return (
           <Box sx={{ p: 3 }}>
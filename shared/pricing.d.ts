@@ -0,0 +1,122 @@
+// Pricing contract between the backend and the frontend. Prices are only ever
+// calculated by the backend's pricing engine; the frontend shows what the API
+// returned. This file holds types only, so both sides pull it in with
+// `import type` and neither build compiles anything outside its own sources.
+//
+// Amounts are rounded to øre (two decimals) and the total is the sum of the
+// rounded lines less the discount, or the minimum order value when that is
+// higher. A preview and the order item stored from the same request therefore
+// agree to the øre.
+//
+// Prices are calculated in DKK and converted to the requested currency at the
+// stored exchange rate; the lines are converted one by one and added up again,
+// so the same holds in every currency.
+
+export interface PrintSettings {
+  layerHeight?: number; // mm
+  infillPercentage?: number; // 0-100
+  printQuality?: string;
+  flexibleStart?: boolean; // customer accepts a start in the cheapest electricity window
+}
+
+// POST /api/pricing/calculate
+export interface PricingRequest {
+  stlFileId: string;
+  materialId: string;
+  printSettings?: PrintSettings;
+  quantity?: number;
+  currency?: string; // ISO 4217, DKK when left out
+}
+
+// POST /api/pricing/calculate-volume, for files that were not uploaded
+export interface VolumePricingRequest {
+  volume: number; // cm³
+  materialType: string;
+  printSettings?: PrintSettings;
+  quantity?: number;
+  currency?: string;
+}
+
+// GET /api/pricing/currencies
+export interface CurrencyRate {
+  currency: string;
+  dkkPerUnit: number; // 1 for DKK
+  effectiveFrom: string | null; // ISO 8601, null for DKK
+}
+
+// Price lock handed out with every /calculate response; an order that names the
+// quote before it expires is charged the quoted total
+export interface PricingQuote {
+  id: string;
+  expiresAt: string; // ISO 8601
+}
+
+export interface PricingCalculation {
+  materialCost: number;
+  electricityCost: number;
+  laborCost: number;
+  discount: number; // quantity discount, subtracted before the platform fee
+  platformFee: number;
+  totalCost: number; // all copies
+  quantity: number;
+  currency: string; // of every amount in the calculation
+  exchangeRate: {
+    id: string | null; // stored rate used; null for DKK
+    currency: string;
+    dkkPerUnit: number;
+  };
+  warnings: string[]; // e.g. mesh problems that make the quote unreliable
+  quote?: PricingQuote; // only for uploaded files, see PricingRequest
+  pricingVersion: {
+    id: string;
+    version: number;
+  }; // settings version the price was calculated with
+  organization: {
+    id: string;
+    name: string;
+  } | null; // B2B account whose negotiated rates were applied
+  breakdown: {
+    material: {
+      cost: number;
+      usage: number; // grams, all copies
+      pricePerGram: number;
+    };
+    electricity: {
+      cost: number;
+      consumption: number; // kWh
+      pricePerKwh: number; // all-in average over the print
+      area: string; // bidding area of the workshop it was priced for
+      currency: string; // same as the calculation's
+      window: {
+        start: string; // ISO 8601
+        end: string;
+        flexibleStart: boolean; // start moved to the cheapest window
+      } | null; // null when priced at a flat rate
+    };
+    labor: {
+      cost: number;
+      hours: number; // all copies, setup included
+      ratePerHour: number;
+    };
+    batch: {
+      copiesPerRun: number; // copies that fit on one plate
+      runs: number; // plates printed
+      setupHours: number; // setup for all runs, part of the labour hours
+    };
+    discount: {
+      amount: number;
+      percentage: number; // 0 when no tier applies
+      minQuantity: number | null; // tier that applied
+    };
+    platform: {
+      fee: number;
+      percentage: number;
+    };
+    printTime: {
+      hours: number; // per copy
+      layerCount: number | null; // null when not sliced
+    };
+    minimumOrderValue: number;
+    minimumApplied: boolean; // total raised to the minimum order value
+  };
+}